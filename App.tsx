@@ -1,24 +1,59 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GameMode, GameData, LatLng, Guess, User, Collection } from './types';
+import {
+    GameMode, GameData, GameAnswer, GameFilter, PlayableGame, LatLng, Guess, User, Collection, ScoringProfile, ViewRestrictions,
+} from './types';
 import MosaicCanvas from './components/MosaicCanvas';
 import GameMap from './components/GameMap';
 import ImageViewer from './components/ImageViewer';
 import CollectionCreator from './components/CollectionCreator';
 import CollectionHome from './components/CollectionHome';
 import CollectionPlayer from './components/CollectionPlayer';
+import ScoringPicker from './components/ScoringPicker';
+import TimeLimitPicker from './components/TimeLimitPicker';
+import RestrictionPicker from './components/RestrictionPicker';
+import RestrictionBadges from './components/RestrictionBadges';
+import PhotoStrip from './components/PhotoStrip';
+import MultiplayerRoom from './components/MultiplayerRoom';
+import DuelView from './components/DuelView';
+import DailyChallenge from './components/DailyChallenge';
+import PlayerProfile from './components/PlayerProfile';
+import PlayerLeaderboard from './components/PlayerLeaderboard';
+import CreatorDashboard from './components/CreatorDashboard';
+import AchievementToasts from './components/AchievementToasts';
+import DifficultyBadge from './components/DifficultyBadge';
+import RoundTimer from './components/RoundTimer';
+import PlayFilterSheet from './components/PlayFilterSheet';
+import TagInput from './components/TagInput';
+import TagChips from './components/TagChips';
+import TagPage from './components/TagPage';
+import CollectionPlaza from './components/CollectionPlaza';
 import {
-    saveGame, getGameById, generateId,
-    getCurrentUser, saveCurrentUser, getNextUnplayedGame,
-    saveGuess, getGuessesForGame, getUserGuesses, hasUserPlayed,
-    rateGame, getUserCreatedGames
+    saveGame, getGameById, revealGame, generateId,
+    saveCurrentUser, getNextUnplayedGame,
+    startRound, submitGuess, getGuessesForGame, getUserGuesses, hasUserPlayed,
+    rateGame, getUserCreatedGames, NewGame
 } from './services/storageService';
+import { migrateLegacyGameImages, compressImage, selectImageUrl, DISPLAY_WIDTH, MAX_PHOTOS } from './services/imageService';
 import {
-    getMyCollections, getMyPlayedCollections, getAllCollections,
-    getFeaturedCollections,
+    getMyCollections, getMyPlayedCollections,
+    getFeaturedCollections, getCollectionCoverImage,
     CollectionWithStats, CollectionWithMyScore,
 } from './services/collectionService';
-import { getAddressFromCoords } from './services/geocodingService';
+import {
+    resolveCurrentUser, onAuthSessionChange, getAuthSession, sendSignInLink, signOut,
+    createDeviceLinkCode, redeemDeviceLinkCode,
+} from './services/authService';
+import { AuthSession } from './services/repository';
+import { getAddressFromCoords, getRegionFromCoords } from './services/geocodingService';
+import { formatElapsed } from './services/scoringService';
+import { normalizeRoomCode } from './services/roomService';
+import { createDuel } from './services/duelService';
+import {
+    DailyStreak, dailyDayKey, dailyDayOf, getDailyStreak, isDailyCollectionId, isValidDailyDay,
+} from './services/dailyService';
+import { getPlayerLevels } from './services/profileService';
+import { describePlayFilter, getPlayFilter, isFilterEmpty, savePlayFilter } from './services/playFilterService';
 
 // Declare EXIF global from CDN
 declare var EXIF: any;
@@ -54,77 +89,39 @@ const IconMosaic = () => (
     </svg>
 );
 
-// Helpers
-const calculateDistance = (pos1: LatLng, pos2: LatLng): number => {
-  if (!pos1 || !pos2) return 0;
-  const R = 6371e3; 
-  const φ1 = pos1.lat * Math.PI/180;
-  const φ2 = pos2.lat * Math.PI/180;
-  const Δφ = (pos2.lat - pos1.lat) * Math.PI/180;
-  const Δλ = (pos2.lng - pos1.lng) * Math.PI/180;
-  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ/2) * Math.sin(Δλ/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-};
-
-const calculateScore = (distance: number): number => {
-  if (distance < 50) return 5000;
-  return Math.round(5000 * Math.exp(-distance / 2000000));
-};
-
-// Image Compression Helper (Aggressive Optimization)
-const compressImage = (file: File): Promise<string> => {
-    return new Promise((resolve) => {
-        const img = new Image();
-        img.src = URL.createObjectURL(file);
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            // Reduced from 1280 to 1024 for significant size savings (approx 100KB target)
-            const MAX_WIDTH = 1024; 
-            let width = img.width;
-            let height = img.height;
-
-            if (width > MAX_WIDTH) {
-                height *= MAX_WIDTH / width;
-                width = MAX_WIDTH;
-            }
-            canvas.width = width;
-            canvas.height = height;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctx.drawImage(img, 0, 0, width, height);
-                // Reduced quality to 0.6 for better compression/speed balance on mobile
-                resolve(canvas.toDataURL('image/jpeg', 0.6)); 
-            } else {
-                resolve(img.src); // Fallback
-            }
-        };
-        img.onerror = () => resolve(URL.createObjectURL(file));
-    });
-};
-
-const App = () => {
+const AppScreens = () => {
   const [loading, setLoading] = useState(true);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [authSession, setAuthSession] = useState<AuthSession | null>(null);
+  const authUserIdRef = useRef<string | null | undefined>(undefined); // account the current profile was resolved for
   const [mode, setMode] = useState<GameMode>(GameMode.HOME);
   
   // Data State
-  const [currentGame, setCurrentGame] = useState<GameData | null>(null);
+  const [currentGame, setCurrentGame] = useState<PlayableGame | null>(null);
+  const [currentAnswer, setCurrentAnswer] = useState<GameAnswer | null>(null); // Review Mode only
   const [currentGuesses, setCurrentGuesses] = useState<Guess[]>([]); // For Review Mode
+  const [reviewLevels, setReviewLevels] = useState<Record<string, number>>({}); // levels of those players
   
   // Create Mode State
-  const [createImage, setCreateImage] = useState<string | null>(null);
-  const [createImageHistory, setCreateImageHistory] = useState<string[]>([]);
+  const [createImages, setCreateImages] = useState<string[]>([]); // publish order; the first is the cover
+  const [createPhotoIndex, setCreatePhotoIndex] = useState(0); // photo being edited
+  const [createImageHistory, setCreateImageHistory] = useState<string[]>([]); // undo stack for that photo
+  const createImage = createImages[createPhotoIndex] ?? null;
   const [createLocation, setCreateLocation] = useState<LatLng | null>(null);
   const [createLocationName, setCreateLocationName] = useState<string>("");
   const [isLoadingAddress, setIsLoadingAddress] = useState(false);
   const [isMosaicMode, setIsMosaicMode] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
+  const [createScoring, setCreateScoring] = useState<ScoringProfile | undefined>(undefined);
+  const [createTimeLimit, setCreateTimeLimit] = useState<number | undefined>(undefined);
+  const [createRestrictions, setCreateRestrictions] = useState<ViewRestrictions | undefined>(undefined);
+  const [createTags, setCreateTags] = useState<string[]>([]);
 
   // Play Mode State
   const [userGuess, setUserGuess] = useState<LatLng | null>(null);
   const [isMapOpen, setIsMapOpen] = useState(false);
   const [myResult, setMyResult] = useState<Guess | null>(null);
+  const [roundTimer, setRoundTimer] = useState<{ deadline: number; timeLimitSec: number } | null>(null); // timed rounds only
 
   // Review Mode Specific (Likes)
   const [likeCount, setLikeCount] = useState(0);
@@ -137,11 +134,21 @@ const App = () => {
   // Collection State
   const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
   const [activeCollectionGameIds, setActiveCollectionGameIds] = useState<string[]>([]);
+  const [activeCollectionRestrictions, setActiveCollectionRestrictions] = useState<ViewRestrictions | undefined>(undefined);
+  const [activeRoom, setActiveRoom] = useState<{ code: string; hostCollectionId?: string } | null>(null);
+  const [activeDuelId, setActiveDuelId] = useState<string | null>(null);
+  const [activeDailyDay, setActiveDailyDay] = useState<string | null>(null);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [activeTag, setActiveTag] = useState<string | null>(null); // #tag/<tag>; null on #tags
+  const [dailyStreak, setDailyStreak] = useState<DailyStreak | null>(null); // home card
+  const [playFilter, setPlayFilter] = useState<GameFilter>({}); // random play filters, saved per user
+  const [showPlayFilter, setShowPlayFilter] = useState(false);
+  // Set when leaving a duel page to answer its rounds, so review / collection screens can link back
+  const [duelReturn, setDuelReturn] = useState<{ duelId: string; targetId: string } | null>(null);
   const [activeCollectionName, setActiveCollectionName] = useState('');
   const [collectionPlayStartIndex, setCollectionPlayStartIndex] = useState(0);
   const [myCollectionsList, setMyCollectionsList] = useState<CollectionWithStats[]>([]);
   const [myPlayedList, setMyPlayedList] = useState<CollectionWithMyScore[]>([]);
-  const [plazaList, setPlazaList] = useState<CollectionWithStats[]>([]);
   const [featuredList, setFeaturedList] = useState<CollectionWithStats[]>([]);
   const [collectionsLoading, setCollectionsLoading] = useState(false);
   
@@ -152,7 +159,10 @@ const App = () => {
   useEffect(() => {
     const init = async () => {
         setLoading(true);
-        const user = await getCurrentUser();
+        const session = await getAuthSession();
+        authUserIdRef.current = session?.authUserId ?? null;
+        setAuthSession(session);
+        const user = await resolveCurrentUser();
         setCurrentUser(user);
         await refreshHistory(user.id);
         setLoading(false);
@@ -168,6 +178,20 @@ const App = () => {
     init();
   }, []);
 
+  // Sign-in (magic link return) / sign-out: re-resolve which profile this browser plays as
+  // (Supabase re-emits SIGNED_IN on tab focus, so only a change of account triggers a reload)
+  useEffect(() => {
+    return onAuthSessionChange(async (session) => {
+        setAuthSession(session);
+        const authUserId = session?.authUserId ?? null;
+        if (authUserIdRef.current === authUserId) return;
+        authUserIdRef.current = authUserId;
+        const user = await resolveCurrentUser();
+        setCurrentUser(user);
+        await refreshHistory(user.id);
+    });
+  }, []);
+
   const refreshHistory = async (userId: string) => {
       const history = await getUserGuesses(userId);
       setRecentPlayed(history);
@@ -197,11 +221,19 @@ const App = () => {
       setCollectionsLoading(false);
   };
 
-  const loadPlaza = async () => {
-      setCollectionsLoading(true);
-      const list = await getAllCollections();
-      setPlazaList(list);
-      setCollectionsLoading(false);
+  const loadDailyStreak = async (userId: string) => {
+      setDailyStreak(await getDailyStreak(userId));
+  };
+
+  useEffect(() => {
+      if (currentUser) setPlayFilter(getPlayFilter(currentUser.id));
+  }, [currentUser?.id]);
+
+  const handleSavePlayFilter = (filter: GameFilter) => {
+      if (!currentUser) return;
+      savePlayFilter(currentUser.id, filter);
+      setPlayFilter(filter);
+      setShowPlayFilter(false);
   };
 
   const loadFeatured = async () => {
@@ -219,6 +251,48 @@ const App = () => {
       }
   };
 
+  const handleSignIn = async () => {
+      const email = prompt("输入邮箱，我们会发送登录链接（登录后可在其他设备继续使用）:");
+      if (!email || !email.trim()) return;
+      const ok = await sendSignInLink(email);
+      alert(ok ? "登录链接已发送，请在邮箱中点击链接完成登录" : "发送失败，请检查邮箱地址后重试");
+  };
+
+  const handleSignOut = async () => {
+      if (!confirm("确定退出登录？退出后本设备将以新的匿名身份继续")) return;
+      await signOut();
+  };
+
+  // Link device: an empty input shows a code for this device, otherwise the entered code is redeemed
+  const handleLinkDevice = async () => {
+      if (!currentUser) return;
+      const input = prompt("在新设备上：输入旧设备显示的关联码\n在旧设备上：直接点确定，生成关联码");
+      if (input === null) return;
+
+      if (!input.trim()) {
+          const link = await createDeviceLinkCode(currentUser);
+          if (!link) {
+              alert("生成关联码失败，请稍后重试");
+              return;
+          }
+          alert(`关联码：${link.code}\n\n请在 10 分钟内于另一台设备输入，仅可使用一次`);
+          return;
+      }
+
+      if (authSession) {
+          alert("已登录的设备不能兑换关联码。请在另一台设备上登录同一邮箱，或先退出登录再兑换");
+          return;
+      }
+      const user = await redeemDeviceLinkCode(input);
+      if (!user) {
+          alert("关联码无效、已过期或已被使用");
+          return;
+      }
+      setCurrentUser(user);
+      await refreshHistory(user.id);
+      alert(`已关联到 ${user.name}，游戏记录和集锦进度已同步`);
+  };
+
   // Router logic
   useEffect(() => {
     const handleHashChange = async () => {
@@ -250,11 +324,15 @@ const App = () => {
       } else if (hash.startsWith('#review/')) {
           setLoading(true);
           const id = hash.split('/')[1];
-          const game = await getGameById(id);
+          // The answer is only revealed once the user has guessed (or made the game)
+          const game = await revealGame(id, currentUser.id);
           if (game) {
               await startReview(game);
-          } else {
+          } else if (await hasUserPlayed(id, currentUser.id)) {
+              alert('加载失败，请稍后重试');
               window.location.hash = '';
+          } else {
+              window.location.hash = `#play/${id}`;
           }
           setLoading(false);
 
@@ -274,9 +352,39 @@ const App = () => {
 
       } else if (hash.startsWith('#collection/')) {
         const id = hash.split('/')[1];
+        if (isDailyCollectionId(id)) {
+            // Daily sets are only played through their own page (one attempt, on the day)
+            window.location.hash = `#daily/${dailyDayOf(id)}`;
+            return;
+        }
         setActiveCollectionId(id);
         setMode(GameMode.COLLECTION_HOME);
 
+      } else if (hash === '#daily' || hash.startsWith('#daily/')) {
+        const day = hash.split('/')[1];
+        setActiveDailyDay(day && isValidDailyDay(day) ? day : dailyDayKey());
+        setMode(GameMode.DAILY);
+
+      } else if (hash.startsWith('#room/')) {
+        // #room/<code> joins; #room/<code>/<collectionId> opens a new room as host
+        const [, code, hostCollectionId] = hash.split('/');
+        setActiveRoom({ code: normalizeRoomCode(code), hostCollectionId });
+        setMode(GameMode.ROOM);
+
+      } else if (hash.startsWith('#duel/')) {
+        setActiveDuelId(hash.split('/')[1]);
+        setMode(GameMode.DUEL);
+
+      } else if (hash === '#profile' || hash.startsWith('#profile/')) {
+        setActiveProfileId(hash.split('/')[1] || currentUser.id);
+        setMode(GameMode.PROFILE);
+
+      } else if (hash === '#leaderboard') {
+        setMode(GameMode.LEADERBOARD);
+
+      } else if (hash === '#creator') {
+        setMode(GameMode.CREATOR);
+
       } else if (hash === '#my-collections') {
         setMode(GameMode.MY_COLLECTIONS);
         loadMyCollections();
@@ -287,13 +395,27 @@ const App = () => {
 
       } else if (hash === '#plaza') {
         setMode(GameMode.PLAZA);
-        loadPlaza();
+
+      } else if (hash === '#tags' || hash.startsWith('#tag/')) {
+        const tag = hash.split('/')[1];
+        setActiveTag(tag ? decodeURIComponent(tag) : null);
+        setMode(GameMode.TAGS);
+
+      } else if (hash === '#admin/migrate-images' && (import.meta as any).env?.DEV) {
+        // One-off maintenance route: move legacy Base64 images into object storage.
+        // Only served by the local dev server (`npm run dev`), never by a production build.
+        setLoading(true);
+        const result = await migrateLegacyGameImages();
+        setLoading(false);
+        alert(`已迁移 ${result.migrated} 张图片` + (result.failed.length ? `，失败 ${result.failed.length} 张：${result.failed.join(', ')}` : ''));
+        window.location.hash = '';
 
       } else {
         setMode(GameMode.HOME);
+        setDuelReturn(null);
         refreshHistory(currentUser.id);
+        loadDailyStreak(currentUser.id);
         loadFeatured();
-        loadPlaza();
       }
     };
 
@@ -307,7 +429,8 @@ const App = () => {
   }, [currentUser]); 
 
   const resetCreateState = () => {
-    setCreateImage(null);
+    setCreateImages([]);
+    setCreatePhotoIndex(0);
     setCreateImageHistory([]);
     setCreateLocation(null);
     setCreateLocationName("");
@@ -315,18 +438,35 @@ const App = () => {
     setIsMapOpen(false);
     setIsMosaicMode(false);
     setIsPublishing(false);
+    setCreateScoring(undefined);
+    setCreateTimeLimit(undefined);
+    setCreateRestrictions(undefined);
+    setCreateTags([]);
   };
 
-  const startPlay = (game: GameData) => {
+  const startPlay = async (game: PlayableGame) => {
       setCurrentGame(game);
+      setCurrentAnswer(null);
+      setRoundTimer(null);
       setMode(GameMode.PLAY);
       setUserGuess(null);
       setIsMapOpen(false);
       setMyResult(null);
+
+      // Start the backend clock (also records elapsed time on untimed rounds)
+      if (!currentUser) return;
+      const clock = await startRound(game.id, currentUser.id);
+      if (clock?.timeLimitSec) {
+          setRoundTimer({
+              deadline: Date.now() + clock.timeLimitSec * 1000 - clock.elapsedMs,
+              timeLimitSec: clock.timeLimitSec,
+          });
+      }
   };
 
   const startReview = async (game: GameData) => {
       setCurrentGame(game);
+      setCurrentAnswer({ location: game.location, locationName: game.locationName });
       setMode(GameMode.REVIEW);
       
       // Init Like State
@@ -338,6 +478,7 @@ const App = () => {
 
       const guesses = await getGuessesForGame(game.id);
       setCurrentGuesses(guesses);
+      getPlayerLevels(guesses.map(g => g.userId)).then(setReviewLevels);
       
       // Find my specific result if available
       if (currentUser) {
@@ -359,11 +500,13 @@ const App = () => {
       
       setLoading(true);
       try {
-        const game = await getNextUnplayedGame(currentUser.id);
+        const game = await getNextUnplayedGame(currentUser.id, playFilter);
         setLoading(false);
         
         if (game) {
             window.location.hash = `#play/${game.id}`;
+        } else if (!isFilterEmpty(playFilter)) {
+            alert("当前筛选条件下没有未玩过的挑战了，换个地区或放宽筛选试试吧！");
         } else {
             alert("太棒了！你已经完成了所有现有挑战。没有新挑战了，欢迎上传你自己的拍摄！");
         }
@@ -374,7 +517,7 @@ const App = () => {
   };
 
   const handleCreateGame = async () => {
-    if (!createImage || !createLocation || !currentUser) return;
+    if (createImages.length === 0 || !createLocation || !currentUser) return;
     
     setIsPublishing(true);
 
@@ -384,17 +527,25 @@ const App = () => {
         finalLocationName = `${createLocation.lat.toFixed(3)}°N, ${createLocation.lng.toFixed(3)}°E`;
     }
 
-    const newGame: GameData = {
+    // Country / province for region filters; publishing goes ahead without them if the lookup fails
+    const region = await getRegionFromCoords(createLocation.lat, createLocation.lng);
+
+    const newGame: NewGame = {
       id: generateId(),
-      imageData: createImage,
       location: createLocation,
       locationName: finalLocationName,
+      country: region.country,
+      province: region.province,
       authorId: currentUser.id,
       authorName: currentUser.name,
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      scoring: createScoring,
+      timeLimitSec: createTimeLimit,
+      restrictions: createRestrictions,
+      tags: createTags.length > 0 ? createTags : undefined,
     };
     
-    const success = await saveGame(newGame);
+    const success = await saveGame(newGame, createImages);
     setIsPublishing(false);
 
     if (success) {
@@ -405,30 +556,40 @@ const App = () => {
     }
   };
 
-  const handleGuess = async () => {
-    if (!userGuess || !currentGame || !currentUser) return;
-    
+  // timedOut: the countdown hit 0 — submit whatever pin is on the map, or none (scores 0)
+  const handleGuess = async (timedOut = false) => {
+    if (!currentGame || !currentUser) return;
+    if (!userGuess && !timedOut) return;
+
     setLoading(true);
-    const distance = calculateDistance(currentGame.location, userGuess);
-    const score = calculateScore(distance);
-    
-    const newGuess: Guess = {
+    setRoundTimer(null);
+    const saved = await submitGuess({
         id: generateId(),
         gameId: currentGame.id,
         userId: currentUser.id,
         userName: currentUser.name,
         userAvatarSeed: currentUser.avatarSeed,
         location: userGuess,
-        distance,
-        score,
-        timestamp: Date.now()
-    };
-    
-    await saveGuess(newGuess);
+    });
+    if (!saved) {
+        setLoading(false);
+        alert("提交失败，请重试");
+        return;
+    }
     // Go to review mode
     window.location.hash = `#review/${currentGame.id}`;
   };
 
+  const handleStartDuel = async () => {
+      if (!currentGame || !currentUser) return;
+      const duel = await createDuel('game', currentGame.id, currentUser);
+      if (duel) {
+          window.location.hash = `#duel/${duel.id}`;
+      } else {
+          alert('发起对决失败，请稍后重试');
+      }
+  };
+
   const handleToggleLike = async () => {
       if (!currentGame || !currentUser) return;
 
@@ -452,11 +613,14 @@ const App = () => {
 
   // --- Components for Views ---
 
+  // Adds one or more photos (up to MAX_PHOTOS) and selects the first new one
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
+    const files = Array.from(e.target.files || []).slice(0, MAX_PHOTOS - createImages.length);
+    e.target.value = ''; // allow picking the same file again
+    const file = files[0];
     if (file) {
-      // 1. Extract EXIF first from original file
-      if (typeof EXIF !== 'undefined') {
+      // 1. Extract EXIF first from original file (only while no location has been set)
+      if (typeof EXIF !== 'undefined' && !createLocation) {
           EXIF.getData(file as any, function(this: any) {
               const lat = EXIF.getTag(this, "GPSLatitude");
               const lng = EXIF.getTag(this, "GPSLongitude");
@@ -485,10 +649,11 @@ const App = () => {
           });
       }
 
-      // 2. Compress Image for State
+      // 2. Compress Images for State
       try {
-        const compressedBase64 = await compressImage(file);
-        setCreateImage(compressedBase64);
+        const compressed = await Promise.all(files.map(compressImage));
+        setCreatePhotoIndex(createImages.length);
+        setCreateImages(prev => [...prev, ...compressed].slice(0, MAX_PHOTOS));
         setCreateImageHistory([]);
       } catch (err) {
           console.error("Compression failed", err);
@@ -496,6 +661,32 @@ const App = () => {
     }
   };
 
+  // --- Create: per-photo editing ---
+
+  const updateActivePhoto = (image: string) => {
+    setCreateImages(prev => prev.map((p, i) => (i === createPhotoIndex ? image : p)));
+  };
+
+  const selectCreatePhoto = (index: number) => {
+    setCreatePhotoIndex(index);
+    setCreateImageHistory([]);
+  };
+
+  const moveCreatePhoto = (from: number, to: number) => {
+    if (to < 0 || to >= createImages.length) return;
+    setCreateImages(prev => {
+      const next = [...prev];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+    selectCreatePhoto(to);
+  };
+
+  const removeCreatePhoto = (index: number) => {
+    setCreateImages(prev => prev.filter((_, i) => i !== index));
+    selectCreatePhoto(Math.max(0, Math.min(index, createImages.length - 2)));
+  };
+
   // --- Loading View ---
   if (loading && !currentGame && mode !== GameMode.CREATE && mode !== GameMode.CREATED_LIST) {
       return (
@@ -528,8 +719,25 @@ const App = () => {
             <div className="absolute inset-0 bg-gradient-to-b from-gray-900/50 via-gray-900/30 to-gray-900" />
           </div>
 
-          {/* Top bar: avatar */}
-          <div className="relative z-10 flex justify-end p-4 pt-6">
+          {/* Top bar: account + avatar */}
+          <div className="relative z-10 flex justify-between items-center p-4 pt-6">
+            <div className="flex flex-col items-start gap-1.5 max-w-[50%]">
+              {authSession ? (
+                <button onClick={handleSignOut} className="text-xs text-gray-400 hover:text-white max-w-full truncate text-left">
+                  {authSession.email} · 退出
+                </button>
+              ) : (
+                <button onClick={handleSignIn} className="text-xs text-orange-400 border border-orange-500/40 rounded-full px-3 py-1 hover:bg-orange-500/10">
+                  登录 / 同步账号
+                </button>
+              )}
+              <button onClick={handleLinkDevice} className="text-xs text-gray-400 hover:text-white">
+                🔗 关联设备
+              </button>
+              <button onClick={() => window.location.hash = '#profile'} className="text-xs text-gray-400 hover:text-white">
+                📊 我的档案
+              </button>
+            </div>
             <div className="flex items-center gap-2 cursor-pointer" onClick={handleEditName}>
               <div className="text-right">
                 <div className="font-bold text-sm">{currentUser?.name}</div>
@@ -579,6 +787,14 @@ const App = () => {
                 <IconPlus /> 我来出题
               </button>
             </div>
+            <button
+              onClick={() => setShowPlayFilter(true)}
+              className={`mt-3 px-3 py-1 rounded-full text-xs border ${
+                isFilterEmpty(playFilter) ? 'border-white/20 text-gray-400' : 'border-orange-500/50 bg-orange-500/10 text-orange-300'
+              }`}
+            >
+              🎯 试玩范围：{describePlayFilter(playFilter)}
+            </button>
           </div>
 
           {/* Scroll hint */}
@@ -587,6 +803,36 @@ const App = () => {
           </div>
         </section>
 
+        {/* Daily challenge + player leaderboard */}
+        <section className="px-4 pt-8 space-y-3">
+          <button
+            onClick={() => window.location.hash = '#daily'}
+            className="w-full flex items-center gap-4 p-4 rounded-2xl bg-gradient-to-r from-orange-500/20 to-amber-500/10 border border-orange-500/30 text-left active:scale-95 transition-transform"
+          >
+            <div className="text-3xl">📅</div>
+            <div className="flex-1 min-w-0">
+              <div className="font-bold text-white">每日挑战</div>
+              <div className="text-xs text-gray-400 mt-0.5">
+                {dailyStreak?.playedToday ? '今日已完成，看看排名' : '所有人同一套题，每天一次机会'}
+              </div>
+            </div>
+            {dailyStreak && dailyStreak.current > 0 && (
+              <div className="text-orange-400 font-bold text-sm whitespace-nowrap">🔥 {dailyStreak.current} 天</div>
+            )}
+          </button>
+          <button
+            onClick={() => window.location.hash = '#leaderboard'}
+            className="w-full flex items-center gap-4 p-4 rounded-2xl bg-white/5 border border-white/10 text-left active:scale-95 transition-transform"
+          >
+            <div className="text-3xl">🏆</div>
+            <div className="flex-1 min-w-0">
+              <div className="font-bold text-white">玩家排行榜</div>
+              <div className="text-xs text-gray-400 mt-0.5">总榜 · 近 7 天，看看你排第几</div>
+            </div>
+            <div className="text-gray-500">→</div>
+          </button>
+        </section>
+
         {/* ② 精选集锦 */}
         <section id="featured" className="px-4 py-8">
           <div className="flex items-center justify-between mb-4">
@@ -671,10 +917,20 @@ const App = () => {
                 我发布的集锦
               </button>
             </div>
+            <button
+              onClick={() => window.location.hash = '#creator'}
+              className="w-full py-3 bg-gray-900 border border-gray-800 rounded-xl text-gray-400 text-sm font-medium active:scale-95 transition-transform"
+            >
+              📈 创作者数据
+            </button>
           </div>
         </section>
 
         <div className="h-8" />
+
+        {showPlayFilter && (
+          <PlayFilterSheet value={playFilter} onSave={handleSavePlayFilter} onClose={() => setShowPlayFilter(false)} />
+        )}
       </div>
     );
   }
@@ -720,7 +976,7 @@ const App = () => {
                                 className="bg-gray-800 rounded-xl overflow-hidden shadow-md active:scale-95 transition-transform cursor-pointer"
                              >
                                 <div className="w-full relative h-32">
-                                    <img src={game.imageData} className="w-full h-full object-cover" alt="thumb" />
+                                    <img src={selectImageUrl(game, DISPLAY_WIDTH.card)} className="w-full h-full object-cover" alt="thumb" />
                                     <div className="absolute top-2 right-2 bg-black/60 backdrop-blur px-2 py-1 rounded-full text-xs font-bold text-red-400 flex items-center gap-1">
                                         <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="currentColor" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"></path></svg>
                                         {game.likes || 0}
@@ -730,9 +986,11 @@ const App = () => {
                                     <div className="truncate text-sm text-gray-300 font-medium">
                                         {game.locationName || "未知位置"}
                                     </div>
-                                    <div className="text-xs text-gray-500 mt-1">
-                                        {new Date(game.createdAt).toLocaleDateString()}
+                                    <div className="text-xs text-gray-500 mt-1 flex items-center justify-between">
+                                        <span>{new Date(game.createdAt).toLocaleDateString()}</span>
+                                        <DifficultyBadge difficulty={game.difficulty} />
                                     </div>
+                                    <TagChips tags={game.tags} className="mt-1.5" />
                                 </div>
                              </div>
                          ))
@@ -763,9 +1021,56 @@ const App = () => {
       <CollectionHome
         collectionId={activeCollectionId}
         currentUser={currentUser}
+        duelId={duelReturn?.targetId === activeCollectionId ? duelReturn.duelId : undefined}
         onBack={() => window.location.hash = ''}
-        onStartPlay={(collId, ids, startIdx) => {
+        onStartPlay={(collId, ids, startIdx, restrictions) => {
+          setActiveCollectionGameIds(ids);
+          setActiveCollectionRestrictions(restrictions);
+          setCollectionPlayStartIndex(startIdx);
+          setMode(GameMode.COLLECTION_PLAY);
+        }}
+      />
+    );
+  }
+
+  if (mode === GameMode.ROOM && activeRoom && currentUser) {
+    return (
+      <MultiplayerRoom
+        key={activeRoom.code}
+        code={activeRoom.code}
+        currentUser={currentUser}
+        hostCollectionId={activeRoom.hostCollectionId}
+        onExit={() => { window.location.hash = ''; }}
+      />
+    );
+  }
+
+  if (mode === GameMode.DUEL && activeDuelId && currentUser) {
+    return (
+      <DuelView
+        key={activeDuelId}
+        duelId={activeDuelId}
+        currentUser={currentUser}
+        onBack={() => { window.location.hash = ''; }}
+        onPlay={(hash) => {
+          setDuelReturn({ duelId: activeDuelId, targetId: hash.split('/')[1] });
+          window.location.hash = hash;
+        }}
+      />
+    );
+  }
+
+  if (mode === GameMode.DAILY && activeDailyDay && currentUser) {
+    return (
+      <DailyChallenge
+        key={activeDailyDay}
+        day={activeDailyDay}
+        currentUser={currentUser}
+        onBack={() => { window.location.hash = ''; }}
+        onStartPlay={(collId, ids, startIdx, restrictions) => {
+          setActiveCollectionId(collId);
           setActiveCollectionGameIds(ids);
+          setActiveCollectionRestrictions(restrictions);
           setCollectionPlayStartIndex(startIdx);
           setMode(GameMode.COLLECTION_PLAY);
         }}
@@ -773,19 +1078,69 @@ const App = () => {
     );
   }
 
+  if (mode === GameMode.PROFILE && activeProfileId && currentUser) {
+    return (
+      <PlayerProfile
+        key={activeProfileId}
+        userId={activeProfileId}
+        currentUser={currentUser}
+        onBack={() => {
+          // Usually opened from a leaderboard: go back there rather than home
+          if (window.history.length > 1) window.history.back();
+          else window.location.hash = '';
+        }}
+      />
+    );
+  }
+
+  if (mode === GameMode.LEADERBOARD && currentUser) {
+    return (
+      <PlayerLeaderboard
+        currentUser={currentUser}
+        onBack={() => { window.location.hash = ''; }}
+      />
+    );
+  }
+
+  if (mode === GameMode.TAGS && currentUser) {
+    return (
+      <TagPage
+        currentUser={currentUser}
+        tag={activeTag}
+        onBack={() => {
+          // Opened from chips all over the app: return to wherever that was
+          if (window.history.length > 1) window.history.back();
+          else window.location.hash = '';
+        }}
+      />
+    );
+  }
+
+  if (mode === GameMode.CREATOR && currentUser) {
+    return (
+      <CreatorDashboard
+        currentUser={currentUser}
+        onBack={() => { window.location.hash = ''; }}
+      />
+    );
+  }
+
   if (mode === GameMode.COLLECTION_PLAY && activeCollectionId && currentUser) {
+    // Daily sets return to the daily page, everything else to the collection home
+    const afterPlayMode = isDailyCollectionId(activeCollectionId) ? GameMode.DAILY : GameMode.COLLECTION_HOME;
     return (
       <CollectionPlayer
         collectionId={activeCollectionId}
         collectionName={activeCollectionName}
         gameIds={activeCollectionGameIds}
         startIndex={collectionPlayStartIndex}
+        collectionRestrictions={activeCollectionRestrictions}
         currentUser={currentUser}
         onComplete={() => {
-          setMode(GameMode.COLLECTION_HOME);
+          setMode(afterPlayMode);
         }}
         onBack={() => {
-          setMode(GameMode.COLLECTION_HOME);
+          setMode(afterPlayMode);
         }}
       />
     );
@@ -879,80 +1234,14 @@ const App = () => {
   }
 
   if (mode === GameMode.PLAZA) {
-    return (
-      <div className="min-h-screen bg-gray-900 text-white">
-        {/* Header */}
-        <div className="flex items-center gap-3 px-4 pt-6 pb-4">
-          <button onClick={() => window.location.hash = ''} className="p-2 bg-gray-800 rounded-full flex-shrink-0"><IconClose /></button>
-          <div>
-            <h1 className="text-lg font-bold leading-tight">集锦广场</h1>
-            <p className="text-xs text-gray-500">发现玩家创作的精彩集锦</p>
-          </div>
-        </div>
-
-        {/* Grid */}
-        <div className="px-4 pb-10">
-          {collectionsLoading ? (
-            <div className="grid grid-cols-2 gap-3">
-              {[...Array(4)].map((_, i) => (
-                <div key={i} className="bg-gray-800 rounded-2xl p-4 h-36 animate-pulse" />
-              ))}
-            </div>
-          ) : plazaList.length === 0 ? (
-            <div className="text-center py-20 text-gray-500 text-sm">
-              还没有人发布集锦<br />
-              <button
-                onClick={() => window.location.hash = '#collection-create'}
-                className="mt-4 px-5 py-2 bg-orange-500 text-white rounded-full text-sm font-bold"
-              >来创建第一个</button>
-            </div>
-          ) : (
-            <div className="grid grid-cols-2 gap-3">
-              {plazaList.map(coll => (
-                <div
-                  key={coll.id}
-                  onClick={() => window.location.hash = `#collection/${coll.id}`}
-                  className="group relative bg-gradient-to-br from-gray-800 to-gray-850 border border-gray-700/50 rounded-2xl p-4 active:scale-95 transition-transform cursor-pointer overflow-hidden flex flex-col justify-between min-h-[9rem]"
-                >
-                  {/* Decorative accent */}
-                  <div className="absolute top-0 right-0 w-16 h-16 bg-orange-500/5 rounded-full -translate-y-6 translate-x-6" />
-
-                  {/* Top: name + author */}
-                  <div>
-                    <div className="font-bold text-white text-sm leading-snug line-clamp-2 mb-1.5">
-                      {coll.name}
-                    </div>
-                    <div className="text-xs text-gray-500 truncate">{coll.authorName}</div>
-                  </div>
-
-                  {/* Bottom: stats row */}
-                  <div className="mt-3 flex items-end justify-between">
-                    <div className="space-y-0.5">
-                      <div className="text-xs text-gray-400">
-                        <span className="text-white font-semibold">{coll.itemCount}</span> 道题
-                      </div>
-                      <div className="text-xs text-gray-500">
-                        {coll.totalCompletions === 0
-                          ? '暂无人完成'
-                          : <><span className="text-orange-400 font-semibold">{coll.totalCompletions}</span> 人完成</>}
-                      </div>
-                    </div>
-                    <div className="text-gray-600 text-lg font-bold leading-none">→</div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-      </div>
-    );
+    return <CollectionPlaza onBack={() => { window.location.hash = ''; }} />;
   }
 
   // Unified Create / Play / Review View
   if ([GameMode.CREATE, GameMode.PLAY, GameMode.REVIEW].includes(mode)) {
       const isCreate = mode === GameMode.CREATE;
       const isReview = mode === GameMode.REVIEW;
-      const displayImage = isCreate ? createImage : currentGame?.imageData;
+      const displayImage = isCreate ? createImage : currentGame?.imageUrl;
 
       // Stats Calculation
       let avgScore = 0;
@@ -972,10 +1261,11 @@ const App = () => {
                      <div className="w-6"/>
                  </div>
                  <div className="flex-1 p-6 flex items-center justify-center">
-                     <input type="file" accept="image/*" id="upload" onChange={handleImageUpload} className="hidden" />
+                     <input type="file" accept="image/*" multiple id="upload" onChange={handleImageUpload} className="hidden" />
                      <label htmlFor="upload" className="flex flex-col items-center gap-4 text-gray-500 p-8 border-2 border-dashed border-gray-700 rounded-xl w-full h-64 justify-center cursor-pointer hover:border-blue-500 hover:text-blue-500 transition">
                          <IconPlus />
                          <span>点击上传照片</span>
+                         <span className="text-xs text-gray-600">同一地点最多 {MAX_PHOTOS} 张，例如四个方向的街景</span>
                      </label>
                  </div>
              </div>
@@ -995,12 +1285,34 @@ const App = () => {
                         className={`pointer-events-auto px-4 py-1.5 rounded-full font-bold backdrop-blur-md transition ${createLocation && !isPublishing ? 'bg-orange-500 text-white' : 'bg-white/10 text-gray-400'}`}
                       >{isPublishing ? '发布中...' : '发布'}</button>
                   )}
+                  {mode === GameMode.PLAY && (
+                      <div className="flex items-center gap-2">
+                          <RestrictionBadges restrictions={currentGame?.restrictions} className="justify-end" />
+                          {roundTimer && (
+                              <div className="pointer-events-auto">
+                                  <RoundTimer
+                                    deadline={roundTimer.deadline}
+                                    timeLimitSec={roundTimer.timeLimitSec}
+                                    onExpire={() => handleGuess(true)}
+                                  />
+                              </div>
+                          )}
+                      </div>
+                  )}
                   {isReview && myResult && (
                       <div className="flex gap-4">
+                          {myResult.elapsedMs !== undefined && (
+                              <div className="flex flex-col items-end text-white">
+                                  <span className="text-xs opacity-70">用时</span>
+                                  <span className="font-bold text-lg text-white">{formatElapsed(myResult.elapsedMs)}</span>
+                              </div>
+                          )}
                           <div className="flex flex-col items-end text-white">
                               <span className="text-xs opacity-70">距离</span>
                               <span className="font-bold text-lg text-white">
-                                {myResult.distance < 1000 
+                                {myResult.distance === null
+                                    ? '超时'
+                                    : myResult.distance < 1000
                                     ? `${Math.round(myResult.distance)}m` 
                                     : `${(myResult.distance / 1000).toFixed(1)}km`}
                               </span>
@@ -1014,16 +1326,19 @@ const App = () => {
               </div>
 
               {/* Review Statistics Bar (Overlay below header) */}
-              {isReview && playerCount > 2 && (
-                  <div className="absolute top-16 left-0 w-full flex justify-center z-10 pointer-events-none">
-                      <div className="bg-black/40 backdrop-blur rounded-full px-4 py-1 flex items-center gap-4 text-xs text-white/90 border border-white/10">
-                          <span className="flex items-center gap-1">
-                              <span className="w-1.5 h-1.5 bg-green-500 rounded-full"></span>
-                              {playerCount}人挑战
-                          </span>
-                          <span className="w-px h-3 bg-white/20"></span>
-                          <span>平均分 {avgScore}</span>
-                      </div>
+              {isReview && (playerCount > 2 || currentGame?.restrictions) && (
+                  <div className="absolute top-16 left-0 w-full flex flex-col items-center gap-1 z-10 pointer-events-none">
+                      {playerCount > 2 && (
+                          <div className="bg-black/40 backdrop-blur rounded-full px-4 py-1 flex items-center gap-4 text-xs text-white/90 border border-white/10">
+                              <span className="flex items-center gap-1">
+                                  <span className="w-1.5 h-1.5 bg-green-500 rounded-full"></span>
+                                  {playerCount}人挑战
+                              </span>
+                              <span className="w-px h-3 bg-white/20"></span>
+                              <span>平均分 {avgScore}</span>
+                          </div>
+                      )}
+                      <RestrictionBadges restrictions={currentGame?.restrictions} className="justify-center" />
                   </div>
               )}
 
@@ -1034,13 +1349,18 @@ const App = () => {
                         imageSrc={displayImage!} 
                         onImageUpdate={(b64) => {
                             if(createImage) setCreateImageHistory(prev => [...prev, createImage].slice(-5));
-                            setCreateImage(b64);
+                            updateActivePhoto(b64);
                         }}
                         isEditing={isMosaicMode} 
                       />
                   ) : (
                       // Use new ImageViewer for Play/Review
-                      <ImageViewer src={displayImage!} />
+                      <ImageViewer
+                        src={displayImage!}
+                        previewSrc={currentGame?.mediumUrl}
+                        restrictions={mode === GameMode.PLAY ? currentGame?.restrictions : undefined}
+                        photos={currentGame?.photos}
+                      />
                   )}
 
                   {/* Create Location Tag */}
@@ -1059,12 +1379,31 @@ const App = () => {
                   )}
               </div>
 
+              {/* Create Settings + Photos */}
+              {isCreate && !isMapOpen && (
+                  <div className="absolute top-16 left-4 right-4 z-20 space-y-2">
+                      <ScoringPicker value={createScoring} onChange={setCreateScoring} />
+                      <TimeLimitPicker value={createTimeLimit} onChange={setCreateTimeLimit} />
+                      <RestrictionPicker value={createRestrictions} onChange={setCreateRestrictions} />
+                      <TagInput value={createTags} onChange={setCreateTags} />
+                      <PhotoStrip
+                        photos={createImages}
+                        activeIndex={createPhotoIndex}
+                        maxPhotos={MAX_PHOTOS}
+                        onSelect={selectCreatePhoto}
+                        onMove={moveCreatePhoto}
+                        onRemove={removeCreatePhoto}
+                        onAdd={handleImageUpload}
+                      />
+                  </div>
+              )}
+
               {/* Create Tools */}
               {isCreate && (
                   <div className="absolute bottom-8 left-6 right-6 flex justify-between z-20 pointer-events-none">
                       <div className="flex gap-4 pointer-events-auto">
                           <button onClick={() => setIsMosaicMode(!isMosaicMode)} className={`w-12 h-12 rounded-full flex items-center justify-center border-2 border-white/20 shadow-lg ${isMosaicMode ? 'bg-orange-500 text-white' : 'bg-gray-800 text-gray-300'}`}><IconMosaic /></button>
-                          <button onClick={() => { if(createImageHistory.length){ setCreateImage(createImageHistory.pop()!); setCreateImageHistory([...createImageHistory]); }}} disabled={!createImageHistory.length} className="w-12 h-12 rounded-full bg-gray-800 text-white flex items-center justify-center border-2 border-white/20 shadow-lg disabled:opacity-50"><IconUndo /></button>
+                          <button onClick={() => { if(createImageHistory.length){ updateActivePhoto(createImageHistory.pop()!); setCreateImageHistory([...createImageHistory]); }}} disabled={!createImageHistory.length} className="w-12 h-12 rounded-full bg-gray-800 text-white flex items-center justify-center border-2 border-white/20 shadow-lg disabled:opacity-50"><IconUndo /></button>
                       </div>
                       <button onClick={(e) => { e.stopPropagation(); setIsMapOpen(true); setIsMosaicMode(false); }} className="pointer-events-auto w-12 h-12 bg-blue-600 rounded-full flex items-center justify-center text-white shadow-lg border-2 border-white/20"><IconMap /></button>
                   </div>
@@ -1075,7 +1414,7 @@ const App = () => {
                   <div className="absolute bottom-8 w-full px-6 flex items-end justify-between z-20 pointer-events-none">
                        {/* Like Button (Review Mode Only) */}
                        {isReview ? (
-                           <div className="pointer-events-auto">
+                           <div className="pointer-events-auto flex items-center gap-2">
                                <button 
                                  onClick={handleToggleLike}
                                  className="flex items-center gap-2 bg-black/40 hover:bg-black/60 backdrop-blur-md border border-white/10 rounded-full px-4 py-3 shadow-lg transition active:scale-95"
@@ -1085,6 +1424,18 @@ const App = () => {
                                        <span className="text-white font-bold">{likeCount}</span>
                                    )}
                                </button>
+                               {/* Duel: back to the one this game belongs to, or challenge someone on it */}
+                               {duelReturn && duelReturn.targetId === currentGame?.id ? (
+                                   <button
+                                     onClick={() => window.location.hash = `#duel/${duelReturn.duelId}`}
+                                     className="bg-orange-500 text-white font-bold text-sm rounded-full px-4 py-3 shadow-lg transition active:scale-95"
+                                   >⚔️ 返回对决</button>
+                               ) : (
+                                   <button
+                                     onClick={handleStartDuel}
+                                     className="bg-black/40 hover:bg-black/60 backdrop-blur-md border border-white/10 text-white text-sm rounded-full px-4 py-3 shadow-lg transition active:scale-95"
+                                   >⚔️ 约人对决</button>
+                               )}
                            </div>
                        ) : <div />}
 
@@ -1137,15 +1488,16 @@ const App = () => {
                           selectedLocation={isCreate ? createLocation : (mode === GameMode.PLAY ? userGuess : null)}
                           
                           // Review Props
-                          actualLocation={isReview ? currentGame?.location : undefined}
+                          actualLocation={isReview ? currentAnswer?.location : undefined}
                           guesses={isReview ? currentGuesses : undefined}
                           currentUserId={currentUser?.id}
+                          levels={isReview ? reviewLevels : undefined}
                       />
 
                       {/* Map Action Buttons */}
                       <div className="absolute bottom-8 w-full flex justify-center px-4 pointer-events-none z-[1000]">
                           {mode === GameMode.PLAY && (
-                              <button onClick={handleGuess} disabled={!userGuess} className="pointer-events-auto w-full max-w-sm bg-orange-600 text-white font-bold py-3 rounded-xl shadow-lg disabled:bg-gray-600">
+                              <button onClick={() => handleGuess()} disabled={!userGuess} className="pointer-events-auto w-full max-w-sm bg-orange-600 text-white font-bold py-3 rounded-xl shadow-lg disabled:bg-gray-600">
                                   {loading ? '提交中...' : '确定选择'}
                               </button>
                           )}
@@ -1167,8 +1519,9 @@ const AsyncGameCard = ({ guess, simple }: { guess: Guess, simple?: boolean }) =>
     const [game, setGame] = useState<GameData | null>(null);
 
     useEffect(() => {
-        getGameById(guess.gameId).then(setGame);
-    }, [guess.gameId]);
+        // The card is built from the player's own guess, so the answer is revealable
+        revealGame(guess.gameId, guess.userId).then(setGame);
+    }, [guess.gameId, guess.userId]);
 
     if (!game) return (
         <div className={`bg-gray-800 rounded-xl overflow-hidden shadow-md animate-pulse ${simple ? 'h-40' : 'h-48'}`}>
@@ -1182,7 +1535,7 @@ const AsyncGameCard = ({ guess, simple }: { guess: Guess, simple?: boolean }) =>
             className={`bg-gray-800 rounded-xl overflow-hidden shadow-md active:scale-95 transition-transform cursor-pointer ${simple ? '' : ''}`}
         >
             <div className={`w-full relative ${simple ? 'h-32' : 'h-32'}`}>
-                <img src={game.imageData} className="w-full h-full object-cover" alt="thumb" />
+                <img src={selectImageUrl(game, DISPLAY_WIDTH.card)} className="w-full h-full object-cover" alt="thumb" />
                 <div className="absolute top-2 right-2 bg-black/60 backdrop-blur px-2 py-1 rounded text-xs font-bold text-orange-400">
                     {guess.score}分
                 </div>
@@ -1191,6 +1544,7 @@ const AsyncGameCard = ({ guess, simple }: { guess: Guess, simple?: boolean }) =>
                 <div className="truncate text-sm text-gray-300 font-medium">
                     {game.locationName || "未知位置"}
                 </div>
+                <DifficultyBadge difficulty={game.difficulty} className="mt-1" />
                 {!simple && (
                     <div className="text-xs text-gray-500 mt-1 flex justify-between">
                         <span>{new Date(guess.timestamp).toLocaleDateString()}</span>
@@ -1202,6 +1556,12 @@ const AsyncGameCard = ({ guess, simple }: { guess: Guess, simple?: boolean }) =>
 }
 
 const AsyncCollectionCard = ({ collection }: { collection: CollectionWithStats }) => {
+    const [cover, setCover] = useState<string | null>(null);
+
+    useEffect(() => {
+        getCollectionCoverImage(collection.id).then(setCover);
+    }, [collection.id]);
+
     return (
         <div
             onClick={() => window.location.hash = `#collection/${collection.id}`}
@@ -1210,11 +1570,16 @@ const AsyncCollectionCard = ({ collection }: { collection: CollectionWithStats }
             {/* Decorative accent */}
             <div className="absolute top-0 right-0 w-20 h-20 bg-orange-500/5 rounded-full -translate-y-8 translate-x-8" />
 
-            <div>
-                <div className="font-bold text-white text-base leading-snug mb-1 pr-4">
-                    {collection.name}
+            <div className="flex items-start gap-3">
+                <div className="w-12 h-12 rounded-lg overflow-hidden flex-shrink-0 bg-gray-700">
+                    {cover && <img src={cover} alt="" className="w-full h-full object-cover" />}
+                </div>
+                <div className="min-w-0">
+                    <div className="font-bold text-white text-base leading-snug mb-1 pr-4">
+                        {collection.name}
+                    </div>
+                    <div className="text-xs text-gray-500">by {collection.authorName}</div>
                 </div>
-                <div className="text-xs text-gray-500">by {collection.authorName}</div>
             </div>
 
             <div className="flex items-end justify-between mt-3">
@@ -1232,4 +1597,12 @@ const AsyncCollectionCard = ({ collection }: { collection: CollectionWithStats }
     );
 };
 
+// Achievement toasts sit above every screen, so they live outside the per-mode screen switch
+const App = () => (
+    <>
+        <AppScreens />
+        <AchievementToasts />
+    </>
+);
+
 export default App;
\ No newline at end of file
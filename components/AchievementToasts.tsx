@@ -0,0 +1,47 @@
+import React, { useState, useEffect } from 'react';
+import { Achievement, onAchievementsUnlocked } from '../services/achievementService';
+import { getStoredUserId } from '../services/storageService';
+
+const TOAST_MS = 3500;
+
+// Unlock toasts for the player on this device, one at a time, above whatever screen is open
+const AchievementToasts: React.FC = () => {
+  const [queue, setQueue] = useState<Achievement[]>([]);
+
+  useEffect(() => {
+    return onAchievementsUnlocked((userId, unlocked) => {
+      if (userId !== getStoredUserId()) return;
+      // Guess and collection evaluations can overlap; show each badge once
+      setQueue((q) => [...q, ...unlocked.filter((a) => !q.some((x) => x.id === a.id))]);
+    });
+  }, []);
+
+  const current = queue[0];
+
+  useEffect(() => {
+    if (!current) return;
+    const timer = setTimeout(() => setQueue((q) => q.slice(1)), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [current]);
+
+  if (!current) return null;
+
+  return (
+    <div className="fixed top-4 left-0 right-0 z-[3000] flex justify-center px-4 pointer-events-none">
+      <button
+        key={current.id}
+        onClick={() => setQueue((q) => q.slice(1))}
+        className="pointer-events-auto flex items-center gap-3 bg-gray-900/95 border border-yellow-500/40 rounded-2xl px-4 py-3 shadow-2xl text-left"
+      >
+        <span className="text-3xl">{current.icon}</span>
+        <div>
+          <div className="text-[11px] text-yellow-400 font-bold">🏆 解锁成就</div>
+          <div className="text-sm font-bold text-white">{current.title}</div>
+          <div className="text-xs text-gray-400">{current.description}</div>
+        </div>
+      </button>
+    </div>
+  );
+};
+
+export default AchievementToasts;
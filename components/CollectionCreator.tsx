@@ -1,7 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { User, GameData, Collection } from '../types';
+import { User, GameData, Collection, ScoringProfile, ViewRestrictions } from '../types';
 import { getUserCreatedGames } from '../services/storageService';
 import { createCollection } from '../services/collectionService';
+import { selectImageUrl, DISPLAY_WIDTH } from '../services/imageService';
+import { SCALE_OPTIONS } from '../services/scoringService';
+import ScoringPicker from './ScoringPicker';
+import TimeLimitPicker from './TimeLimitPicker';
+import RestrictionPicker from './RestrictionPicker';
+import TagInput from './TagInput';
+import DifficultyBadge from './DifficultyBadge';
 
 interface Props {
   currentUser: User;
@@ -17,6 +24,10 @@ const CollectionCreator: React.FC<Props> = ({ currentUser, onBack, onGoCreate, o
   const [name, setName] = useState('');
   const [myGames, setMyGames] = useState<GameData[]>([]);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [scoring, setScoring] = useState<ScoringProfile | undefined>(undefined); // unset = each game's own
+  const [timeLimitSec, setTimeLimitSec] = useState<number | undefined>(undefined);
+  const [restrictions, setRestrictions] = useState<ViewRestrictions | undefined>(undefined);
+  const [tags, setTags] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [publishing, setPublishing] = useState(false);
 
@@ -50,7 +61,11 @@ const CollectionCreator: React.FC<Props> = ({ currentUser, onBack, onGoCreate, o
       name.trim(),
       selectedIds,
       currentUser.id,
-      currentUser.name
+      currentUser.name,
+      scoring,
+      timeLimitSec,
+      restrictions,
+      tags
     );
     setPublishing(false);
 
@@ -99,6 +114,18 @@ const CollectionCreator: React.FC<Props> = ({ currentUser, onBack, onGoCreate, o
         </div>
       </div>
 
+      {/* Scoring */}
+      <div className="px-4 py-3 border-b border-gray-800 flex-shrink-0">
+        <p className="text-sm text-gray-400 mb-2">计分尺度 <span className="text-xs text-gray-500">（题目都在同一城市时选"城市"）</span></p>
+        <ScoringPicker value={scoring} onChange={setScoring} options={SCALE_OPTIONS} inheritLabel="跟随每题" />
+        <p className="text-sm text-gray-400 mt-3 mb-2">每题限时 <span className="text-xs text-gray-500">（越快答题加分越多）</span></p>
+        <TimeLimitPicker value={timeLimitSec} onChange={setTimeLimitSec} />
+        <p className="text-sm text-gray-400 mt-3 mb-2">看图限制 <span className="text-xs text-gray-500">（覆盖每道题自己的设置）</span></p>
+        <RestrictionPicker value={restrictions} onChange={setRestrictions} />
+        <p className="text-sm text-gray-400 mt-3 mb-2">标签 <span className="text-xs text-gray-500">（方便在广场和标签页被找到）</span></p>
+        <TagInput value={tags} onChange={setTags} />
+      </div>
+
       {/* Subtitle */}
       <div className="px-4 py-3 flex items-center justify-between flex-shrink-0">
         <span className="text-sm text-gray-400">选择题目</span>
@@ -140,7 +167,7 @@ const CollectionCreator: React.FC<Props> = ({ currentUser, onBack, onGoCreate, o
                   className="relative aspect-square cursor-pointer active:scale-95 transition-transform"
                 >
                   <img
-                    src={game.imageData}
+                    src={selectImageUrl(game, DISPLAY_WIDTH.grid)}
                     alt=""
                     className={`w-full h-full object-cover rounded-xl transition ${
                       isSelected ? 'brightness-75' : 'brightness-100'
@@ -156,6 +183,7 @@ const CollectionCreator: React.FC<Props> = ({ currentUser, onBack, onGoCreate, o
                   >
                     {isSelected ? selIdx + 1 : ''}
                   </div>
+                  <DifficultyBadge difficulty={game.difficulty} className="absolute top-1.5 left-1.5" />
                   {/* Location label */}
                   <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/70 to-transparent rounded-b-xl px-2 py-1">
                     <p className="text-white text-xs truncate">{game.locationName || '未知位置'}</p>
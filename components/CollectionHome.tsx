@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { User, GameData, Collection } from '../types';
-import { getGameById } from '../services/storageService';
+import { User, PlayableGame, GameAnswer, Collection, ViewRestrictions } from '../types';
+import { getGameAnswer, getGameById } from '../services/storageService';
+import { selectImageUrl, DISPLAY_WIDTH } from '../services/imageService';
 import {
   getCollection,
   getCollectionProgress,
@@ -9,20 +10,27 @@ import {
   CollectionWithStats,
   CollectionStats,
 } from '../services/collectionService';
-import { CollectionAttempt } from '../types';
+import { CollectionAttempt, CollectionProgress } from '../types';
 import CollectionLeaderboard from './CollectionLeaderboard';
+import RestrictionBadges from './RestrictionBadges';
+import DifficultyBadge from './DifficultyBadge';
+import { describeScoring } from '../services/scoringService';
+import { createRoomCode } from '../services/roomService';
+import { createDuel } from '../services/duelService';
 
 interface Props {
   collectionId: string;
   currentUser: User;
+  duelId?: string; // set when the player came here from that duel's page
   onBack: () => void;
-  onStartPlay: (collectionId: string, gameIds: string[], startIndex: number) => void;
+  onStartPlay: (collectionId: string, gameIds: string[], startIndex: number, restrictions?: ViewRestrictions) => void;
 }
 
-type CompletedItem = { gameId: string; score: number; distance: number };
+type CompletedItem = CollectionProgress['completedItems'][number];
 
-const formatDist = (m: number) =>
-  m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(1)}km`;
+// null distance = the timer ran out before a pin was placed
+const formatDist = (m: number | null) =>
+  m === null ? '超时' : m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(1)}km`;
 
 // Lazily loads one game thumbnail row
 const GameThumb: React.FC<{
@@ -30,13 +38,16 @@ const GameThumb: React.FC<{
   index: number;
   avgScore?: number;
   myScore?: number;
-  myDistance?: number;
+  myDistance?: number | null;
+  userId: string;
   onClick?: () => void;
-}> = ({ gameId, index, avgScore, myScore, myDistance, onClick }) => {
-  const [game, setGame] = useState<GameData | null>(null);
+}> = ({ gameId, index, avgScore, myScore, myDistance, userId, onClick }) => {
+  const [game, setGame] = useState<PlayableGame | null>(null);
+  const [answer, setAnswer] = useState<GameAnswer | null>(null);
   useEffect(() => {
     getGameById(gameId).then(setGame);
-  }, [gameId]);
+    getGameAnswer(gameId, userId).then(setAnswer); // stays null until the user has guessed it
+  }, [gameId, userId]);
 
   return (
     <div
@@ -50,13 +61,16 @@ const GameThumb: React.FC<{
       </span>
       <div className="w-12 h-12 rounded-lg overflow-hidden flex-shrink-0 bg-gray-800">
         {game ? (
-          <img src={game.imageData} alt="" className="w-full h-full object-cover" />
+          <img src={selectImageUrl(game, DISPLAY_WIDTH.row)} alt="" className="w-full h-full object-cover" />
         ) : (
           <div className="w-full h-full bg-gray-700 animate-pulse" />
         )}
       </div>
       <div className="flex-1 min-w-0">
-        <p className="text-sm text-gray-300 truncate">{game?.locationName || '加载中...'}</p>
+        <p className="text-sm text-gray-300 truncate">
+          {!game ? '加载中...' : answer ? answer.locationName || '未知位置' : '答题后揭晓'}
+          <DifficultyBadge difficulty={game?.difficulty} className="ml-1.5" />
+        </p>
         {avgScore !== undefined && (
           <p className="text-xs text-gray-500 mt-0.5">平均得分 {avgScore.toLocaleString()} 分</p>
         )}
@@ -89,7 +103,7 @@ const GameThumb: React.FC<{
   );
 };
 
-const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, onStartPlay }) => {
+const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, duelId, onBack, onStartPlay }) => {
   const [loading, setLoading] = useState(true);
   const [collection, setCollection] = useState<Collection | null>(null);
   const [gameIds, setGameIds] = useState<string[]>([]);
@@ -180,6 +194,25 @@ const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, on
     }
   };
 
+  const handleStartDuel = async () => {
+    const duel = await createDuel('collection', collectionId, currentUser);
+    if (duel) {
+      window.location.hash = `#duel/${duel.id}`;
+    } else {
+      alert('发起对决失败，请稍后重试');
+    }
+  };
+
+  // Back to the duel this run belongs to, or start a new one on this collection
+  const duelButton = (
+    <button
+      onClick={duelId ? () => { window.location.hash = `#duel/${duelId}`; } : handleStartDuel}
+      className="w-full py-3 bg-gray-800 rounded-2xl font-bold text-gray-300 text-sm active:scale-95 transition-transform border border-gray-700"
+    >
+      {duelId ? '⚔️ 返回对决' : '⚔️ 约人对决'}
+    </button>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center text-white">
@@ -236,6 +269,8 @@ const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, on
                 topTen={leaderboard.topTen}
                 myRecord={leaderboard.myRecord}
                 currentUserId={currentUser.id}
+                scoring={collection.scoring}
+                restrictions={collection.restrictions}
               />
             </div>
           )}
@@ -251,6 +286,7 @@ const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, on
                     key={gid}
                     gameId={gid}
                     index={idx}
+                    userId={currentUser.id}
                     avgScore={stats && stats.totalCompletions > 0 ? avg?.avgScore : undefined}
                     onClick={() => { window.location.hash = `#play/${gid}`; }}
                   />
@@ -285,7 +321,7 @@ const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, on
           <h1 className="font-bold text-lg flex-1 truncate">{collection.name}</h1>
         </div>
 
-        <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-24">
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-40">
           {/* Celebration banner */}
           <div className="bg-gradient-to-br from-orange-500/20 to-yellow-500/10 border border-orange-500/30 rounded-3xl p-6 text-center">
             <div className="text-5xl mb-3">🎉</div>
@@ -319,6 +355,8 @@ const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, on
               topTen={leaderboard.topTen}
               myRecord={leaderboard.myRecord}
               currentUserId={currentUser.id}
+              scoring={collection.scoring}
+              restrictions={collection.restrictions}
             />
           </div>
 
@@ -333,6 +371,7 @@ const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, on
                     key={gid}
                     gameId={gid}
                     index={idx}
+                    userId={currentUser.id}
                     myScore={item?.score}
                     myDistance={item?.distance}
                     onClick={() => { window.location.hash = `#play/${gid}`; }}
@@ -343,7 +382,8 @@ const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, on
           </div>
         </div>
 
-        <div className="fixed bottom-0 left-0 right-0 p-4 bg-gray-900 border-t border-gray-800">
+        <div className="fixed bottom-0 left-0 right-0 p-4 bg-gray-900 border-t border-gray-800 space-y-2">
+          {duelButton}
           <button
             onClick={handleShare}
             className="w-full py-3.5 bg-orange-500 rounded-2xl font-bold text-white active:scale-95 transition-transform"
@@ -373,7 +413,11 @@ const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, on
         <p className="text-gray-400 text-sm">
           由 <span className="text-gray-200">{collection.authorName}</span> 创建
         </p>
-        <p className="text-gray-500 text-sm">{collection.itemCount} 道题</p>
+        <p className="text-gray-500 text-sm">
+          {collection.itemCount} 道题 · {collection.scoring ? `${describeScoring(collection.scoring)}尺度计分` : '按每题设置计分'}
+          {collection.timeLimitSec ? ` · 每题限时 ${collection.timeLimitSec}s` : ''}
+        </p>
+        <RestrictionBadges restrictions={collection.restrictions} className="justify-center" />
 
         {hasProgress && (
           <div className="mt-2 bg-orange-500/10 border border-orange-500/30 rounded-xl px-4 py-2 text-sm text-orange-300">
@@ -384,11 +428,18 @@ const CollectionHome: React.FC<Props> = ({ collectionId, currentUser, onBack, on
 
       <div className="p-4 space-y-3 pb-8">
         <button
-          onClick={() => onStartPlay(collectionId, gameIds, startIndex)}
+          onClick={() => onStartPlay(collectionId, gameIds, startIndex, collection.restrictions)}
           className="w-full py-4 bg-orange-500 rounded-2xl font-bold text-lg text-white active:scale-95 transition-transform"
         >
           {hasProgress ? '继续答题' : '开始答题'}
         </button>
+        <button
+          onClick={() => { window.location.hash = `#room/${createRoomCode()}/${collectionId}`; }}
+          className="w-full py-3 bg-gray-800 rounded-2xl font-bold text-gray-300 text-sm active:scale-95 transition-transform border border-gray-700"
+        >
+          👥 多人同玩（开房间）
+        </button>
+        {duelButton}
         <button
           onClick={handleShare}
           className="w-full py-3 bg-gray-800 rounded-2xl font-bold text-gray-300 text-sm active:scale-95 transition-transform border border-gray-700"
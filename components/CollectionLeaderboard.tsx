@@ -1,21 +1,43 @@
-import React from 'react';
-import { CollectionAttempt } from '../types';
+import React, { useState, useEffect } from 'react';
+import { CollectionAttempt, ScoringProfile, ViewRestrictions } from '../types';
+import { describeScoring, formatElapsed } from '../services/scoringService';
+import { getPlayerLevels } from '../services/profileService';
+import RestrictionBadges from './RestrictionBadges';
+import LevelBadge from './LevelBadge';
 
 interface Props {
   topTen: CollectionAttempt[];
   myRecord: CollectionAttempt | null;
   currentUserId: string;
+  scoring?: ScoringProfile; // shown so scores from different scales aren't compared blindly
+  restrictions?: ViewRestrictions; // same reason: a no-zoom board isn't a free-viewing one
 }
 
 const medals = ['🥇', '🥈', '🥉'];
 
-const CollectionLeaderboard: React.FC<Props> = ({ topTen, myRecord, currentUserId }) => {
+const openProfile = (userId: string) => {
+  window.location.hash = `#profile/${userId}`;
+};
+
+const CollectionLeaderboard: React.FC<Props> = ({ topTen, myRecord, currentUserId, scoring, restrictions }) => {
+  const [levels, setLevels] = useState<Record<string, number>>({});
+
+  const userIdsKey = [...topTen.map((a) => a.userId), myRecord?.userId].filter(Boolean).join(',');
+  useEffect(() => {
+    if (!userIdsKey) return;
+    let cancelled = false;
+    getPlayerLevels(userIdsKey.split(',')).then((result) => { if (!cancelled) setLevels(result); });
+    return () => { cancelled = true; };
+  }, [userIdsKey]);
+
   if (topTen.length === 0) {
     return (
       <div className="text-center py-6 text-gray-400 text-sm">
         <div className="text-2xl mb-2">🎉</div>
         <div className="font-bold text-white mb-1">你是第一个完成这个集锦的人！</div>
         <div>快去分享，看看朋友能超过你吗？</div>
+        <div className="text-xs text-gray-500 mt-3">计分尺度：{scoring ? describeScoring(scoring) : '按每题设置'}</div>
+        <RestrictionBadges restrictions={restrictions} className="justify-center mt-2" />
       </div>
     );
   }
@@ -25,6 +47,8 @@ const CollectionLeaderboard: React.FC<Props> = ({ topTen, myRecord, currentUserI
 
   return (
     <div className="space-y-2">
+      <div className="text-xs text-gray-500 mb-2">计分尺度：{scoring ? describeScoring(scoring) : '按每题设置'} · 同分按总用时排名</div>
+      <RestrictionBadges restrictions={restrictions} className="mb-2" />
       {topTen.map((attempt, index) => {
         const isMe = attempt.userId === currentUserId;
         return (
@@ -37,10 +61,17 @@ const CollectionLeaderboard: React.FC<Props> = ({ topTen, myRecord, currentUserI
             <span className="w-6 text-center text-sm font-bold">
               {index < 3 ? medals[index] : <span className="text-gray-400">{index + 1}</span>}
             </span>
-            <span className={`flex-1 text-sm font-medium truncate ${isMe ? 'text-orange-300' : 'text-gray-200'}`}>
+            <button
+              onClick={() => openProfile(attempt.userId)}
+              className={`flex-1 text-left text-sm font-medium truncate ${isMe ? 'text-orange-300' : 'text-gray-200'}`}
+            >
               {attempt.userName}
+              <LevelBadge level={levels[attempt.userId]} className="ml-1" />
               {isMe && <span className="text-xs ml-1 text-orange-400">（你）</span>}
-            </span>
+            </button>
+            {attempt.totalElapsedMs !== undefined && (
+              <span className="text-xs text-gray-500">{formatElapsed(attempt.totalElapsedMs)}</span>
+            )}
             <span className={`font-bold text-sm ${isMe ? 'text-orange-400' : 'text-gray-300'}`}>
               {attempt.totalScore.toLocaleString()} 分
             </span>
@@ -54,10 +85,14 @@ const CollectionLeaderboard: React.FC<Props> = ({ topTen, myRecord, currentUserI
           <div className="text-center text-gray-600 text-xs py-1">···</div>
           <div className="flex items-center gap-3 px-4 py-3 rounded-xl bg-orange-500/20 border border-orange-500/40">
             <span className="w-6 text-center text-gray-400 text-sm font-bold">—</span>
-            <span className="flex-1 text-sm font-medium text-orange-300 truncate">
+            <button
+              onClick={() => openProfile(myRecord.userId)}
+              className="flex-1 text-left text-sm font-medium text-orange-300 truncate"
+            >
               {myRecord.userName}
+              <LevelBadge level={levels[myRecord.userId]} className="ml-1" />
               <span className="text-xs ml-1 text-orange-400">（你）</span>
-            </span>
+            </button>
             <span className="font-bold text-sm text-orange-400">
               {myRecord.totalScore.toLocaleString()} 分
             </span>
@@ -1,12 +1,17 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { User, GameData, Guess, LatLng, CollectionProgress } from '../types';
-import { getGameById, saveGuess, generateId } from '../services/storageService';
+import { User, PlayableGame, GameAnswer, Guess, LatLng, CollectionProgress, ViewRestrictions } from '../types';
+import {
+  getGameById, getGameAnswer, startRound, submitGuess, generateId, getUserGuessesForGames,
+} from '../services/storageService';
 import {
   getCollectionProgress,
   saveCollectionProgress,
   submitCollectionAttempt,
 } from '../services/collectionService';
-import { supabase } from '../services/supabaseClient';
+import { formatElapsed } from '../services/scoringService';
+import { resolveRestrictions } from '../services/restrictionService';
+import RoundTimer from './RoundTimer';
+import RestrictionBadges from './RestrictionBadges';
 import ImageViewer from './ImageViewer';
 import GameMap from './GameMap';
 
@@ -15,6 +20,7 @@ interface Props {
   collectionName: string;
   gameIds: string[];
   startIndex: number;
+  collectionRestrictions?: ViewRestrictions; // replaces each game's own restrictions
   currentUser: User;
   onComplete: () => void;
   onBack: () => void;
@@ -22,23 +28,11 @@ interface Props {
 
 type PlayState = 'initializing' | 'loading' | 'historical' | 'playing' | 'reviewing';
 
-const calcDistance = (p1: LatLng, p2: LatLng): number => {
-  const R = 6371e3;
-  const φ1 = (p1.lat * Math.PI) / 180;
-  const φ2 = (p2.lat * Math.PI) / 180;
-  const Δφ = ((p2.lat - p1.lat) * Math.PI) / 180;
-  const Δλ = ((p2.lng - p1.lng) * Math.PI) / 180;
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-};
-
-const calcScore = (dist: number): number =>
-  dist < 50 ? 5000 : Math.round(5000 * Math.exp(-dist / 2000000));
+type AnsweredRecord = { score: number; distance: number | null; elapsedMs?: number };
 
-const formatDist = (m: number) =>
-  m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(1)}km`;
+// null distance = the timer ran out before a pin was placed
+const formatDist = (m: number | null) =>
+  m === null ? '超时' : m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(1)}km`;
 
 // Progress bar at top
 const ProgressBar: React.FC<{ current: number; total: number }> = ({ current, total }) => (
@@ -64,28 +58,29 @@ const CollectionPlayer: React.FC<Props> = ({
   collectionName,
   gameIds,
   startIndex,
+  collectionRestrictions,
   currentUser,
   onComplete,
   onBack,
 }) => {
   const [playState, setPlayState] = useState<PlayState>('initializing');
   const [currentIndex, setCurrentIndex] = useState(startIndex);
-  const [currentGame, setCurrentGame] = useState<GameData | null>(null);
+  const [currentGame, setCurrentGame] = useState<PlayableGame | null>(null);
+  const [answer, setAnswer] = useState<GameAnswer | null>(null); // fetched after the guess is recorded
 
   // Historical question state
-  const [historicalRecord, setHistoricalRecord] = useState<{
-    score: number;
-    distance: number;
-  } | null>(null);
+  const [historicalRecord, setHistoricalRecord] = useState<AnsweredRecord | null>(null);
 
   // Play state
   const [userGuess, setUserGuess] = useState<LatLng | null>(null);
   const [isMapOpen, setIsMapOpen] = useState(false);
   const [myResult, setMyResult] = useState<{
     score: number;
-    distance: number;
-    location: LatLng;
+    distance: number | null;
+    location: LatLng | null;
+    elapsedMs?: number;
   } | null>(null);
+  const [roundTimer, setRoundTimer] = useState<{ deadline: number; timeLimitSec: number } | null>(null); // timed rounds only
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Progress (accumulated score)
@@ -99,9 +94,11 @@ const CollectionPlayer: React.FC<Props> = ({
   });
 
   // Cache for pre-fetched next game
-  const prefetchRef = useRef<GameData | null>(null);
-  // Cache for pre-answered map (gameId -> {score, distance})
-  const preAnsweredRef = useRef<Map<string, { score: number; distance: number }>>(new Map());
+  const prefetchRef = useRef<PlayableGame | null>(null);
+  // Cache for pre-answered map (gameId -> {score, distance, elapsedMs})
+  const preAnsweredRef = useRef<Map<string, AnsweredRecord>>(new Map());
+  // Question the pending startRound belongs to (ignore late clocks after moving on)
+  const currentGameIdRef = useRef<string | null>(null);
 
   const loadQuestion = useCallback(
     async (index: number) => {
@@ -126,7 +123,7 @@ const CollectionPlayer: React.FC<Props> = ({
             ...progressRef.current,
             completedItems: [
               ...progressRef.current.completedItems,
-              { gameId, score: preAnswered.score, distance: preAnswered.distance },
+              { gameId, ...preAnswered },
             ],
             totalScore: progressRef.current.totalScore + preAnswered.score,
           };
@@ -134,7 +131,7 @@ const CollectionPlayer: React.FC<Props> = ({
           saveCollectionProgress(updated);
         }
         // Fetch game data to show the image in the historical view
-        let histGame: GameData | null =
+        let histGame: PlayableGame | null =
           prefetchRef.current?.id === gameId ? prefetchRef.current : null;
         prefetchRef.current = null;
         if (!histGame) histGame = await getGameById(gameId);
@@ -144,7 +141,7 @@ const CollectionPlayer: React.FC<Props> = ({
       }
 
       // Use prefetched game or fetch fresh
-      let game: GameData | null =
+      let game: PlayableGame | null =
         prefetchRef.current?.id === gameId ? prefetchRef.current : null;
       prefetchRef.current = null;
 
@@ -159,11 +156,24 @@ const CollectionPlayer: React.FC<Props> = ({
       }
 
       setCurrentGame(game);
+      currentGameIdRef.current = gameId;
+      setAnswer(null);
       setUserGuess(null);
       setIsMapOpen(false);
       setMyResult(null);
+      setRoundTimer(null);
       setPlayState('playing');
 
+      // Start the backend clock; the collection's time limit (if any) comes back with it
+      startRound(gameId, currentUser.id, collectionId).then((clock) => {
+        if (clock?.timeLimitSec && currentGameIdRef.current === gameId) {
+          setRoundTimer({
+            deadline: Date.now() + clock.timeLimitSec * 1000 - clock.elapsedMs,
+            timeLimitSec: clock.timeLimitSec,
+          });
+        }
+      });
+
       // Prefetch next game in background
       const nextId = gameIds[index + 1];
       if (nextId && !preAnsweredRef.current.has(nextId)) {
@@ -185,15 +195,11 @@ const CollectionPlayer: React.FC<Props> = ({
       }
 
       // Batch query: which of these games has the user already answered?
-      const { data } = await supabase
-        .from('guesses')
-        .select('game_id, score, distance')
-        .eq('user_id', currentUser.id)
-        .in('game_id', gameIds);
-
-      const map = new Map<string, { score: number; distance: number }>();
-      for (const row of data || []) {
-        map.set(row.game_id, { score: row.score, distance: row.distance });
+      const answered = await getUserGuessesForGames(currentUser.id, gameIds);
+
+      const map = new Map<string, AnsweredRecord>();
+      for (const row of answered) {
+        map.set(row.gameId, { score: row.score, distance: row.distance, elapsedMs: row.elapsedMs });
       }
       preAnsweredRef.current = map;
 
@@ -213,39 +219,44 @@ const CollectionPlayer: React.FC<Props> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentIndex]);
 
-  const handleSubmitGuess = async () => {
-    if (!userGuess || !currentGame || isSubmitting) return;
+  // timedOut: the countdown hit 0 — submit whatever pin is on the map, or none (scores 0)
+  const handleSubmitGuess = async (timedOut = false) => {
+    if (!currentGame || isSubmitting) return;
+    if (!userGuess && !timedOut) return;
+    if (progressRef.current.completedItems.some((i) => i.gameId === currentGame.id)) return;
     setIsSubmitting(true);
+    setRoundTimer(null);
 
-    const distance = calcDistance(currentGame.location, userGuess);
-    const score = calcScore(distance);
-
-    const guess: Guess = {
+    const saved = await submitGuess({
       id: generateId(),
       gameId: currentGame.id,
       userId: currentUser.id,
       userName: currentUser.name,
       userAvatarSeed: currentUser.avatarSeed,
       location: userGuess,
-      distance,
-      score,
-      timestamp: Date.now(),
-    };
-
-    await saveGuess(guess);
+      collectionId,
+    });
+    if (!saved) {
+      setIsSubmitting(false);
+      alert('提交失败，请重试');
+      return;
+    }
+    const { score, distance, elapsedMs } = saved;
+    // Now that the guess is on record the backend will hand out the true location
+    setAnswer(await getGameAnswer(currentGame.id, currentUser.id));
 
     const updated: CollectionProgress = {
       ...progressRef.current,
       completedItems: [
         ...progressRef.current.completedItems,
-        { gameId: currentGame.id, score, distance },
+        { gameId: currentGame.id, score, distance, elapsedMs },
       ],
       totalScore: progressRef.current.totalScore + score,
     };
     progressRef.current = updated;
     saveCollectionProgress(updated);
 
-    setMyResult({ score, distance, location: userGuess });
+    setMyResult({ score, distance, location: saved.location, elapsedMs });
     setIsSubmitting(false);
     setIsMapOpen(true);
     setPlayState('reviewing');
@@ -263,7 +274,7 @@ const CollectionPlayer: React.FC<Props> = ({
       };
       progressRef.current = final;
       saveCollectionProgress(final);
-      submitCollectionAttempt(collectionId, currentUser.id, currentUser.name, final.totalScore);
+      submitCollectionAttempt(collectionId, currentUser.id, currentUser.name);
       onComplete();
       return;
     }
@@ -313,7 +324,7 @@ const CollectionPlayer: React.FC<Props> = ({
         {/* Full-screen image */}
         <div className="flex-1 flex items-center justify-center relative bg-black pt-10">
           {currentGame ? (
-            <ImageViewer src={currentGame.imageData} />
+            <ImageViewer src={currentGame.imageUrl} previewSrc={currentGame.mediumUrl} photos={currentGame.photos} />
           ) : (
             <div className="w-full h-full bg-gray-800 animate-pulse" />
           )}
@@ -364,6 +375,7 @@ const CollectionPlayer: React.FC<Props> = ({
     currentGame
   ) {
     const isReviewing = playState === 'reviewing';
+    const restrictions = resolveRestrictions(currentGame, { restrictions: collectionRestrictions });
     const myGuessAsGuess: Guess[] = myResult
       ? [
           {
@@ -396,8 +408,29 @@ const CollectionPlayer: React.FC<Props> = ({
             <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
           </button>
 
+          {!isReviewing && (
+            <div className="flex items-center gap-2">
+              <RestrictionBadges restrictions={restrictions} className="justify-end" />
+              {roundTimer && (
+                <div className="pointer-events-auto">
+                  <RoundTimer
+                    deadline={roundTimer.deadline}
+                    timeLimitSec={roundTimer.timeLimitSec}
+                    onExpire={() => handleSubmitGuess(true)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
           {isReviewing && myResult && (
             <div className="flex gap-4 pointer-events-none">
+              {myResult.elapsedMs !== undefined && (
+                <div className="text-right text-white">
+                  <div className="text-xs opacity-70">用时</div>
+                  <div className="font-bold text-lg">{formatElapsed(myResult.elapsedMs)}</div>
+                </div>
+              )}
               <div className="text-right text-white">
                 <div className="text-xs opacity-70">误差</div>
                 <div className="font-bold text-lg">{formatDist(myResult.distance)}</div>
@@ -412,9 +445,14 @@ const CollectionPlayer: React.FC<Props> = ({
           )}
         </div>
 
-        {/* Image */}
+        {/* Image (restrictions lift once the guess is in) */}
         <div className="flex-1 flex items-center justify-center relative bg-black pt-10">
-          <ImageViewer src={currentGame.imageData} />
+          <ImageViewer
+            src={currentGame.imageUrl}
+            previewSrc={currentGame.mediumUrl}
+            restrictions={isReviewing ? undefined : restrictions}
+            photos={currentGame.photos}
+          />
         </div>
 
         {/* Floating map button (play mode only) */}
@@ -462,7 +500,7 @@ const CollectionPlayer: React.FC<Props> = ({
               interactive={!isReviewing}
               onLocationSelect={!isReviewing ? setUserGuess : undefined}
               selectedLocation={!isReviewing ? userGuess : null}
-              actualLocation={isReviewing ? currentGame.location : undefined}
+              actualLocation={isReviewing ? answer?.location : undefined}
               guesses={isReviewing ? myGuessAsGuess : undefined}
               currentUserId={currentUser.id}
             />
@@ -471,7 +509,7 @@ const CollectionPlayer: React.FC<Props> = ({
             <div className="absolute bottom-8 w-full flex justify-center px-4 pointer-events-none z-[1000]">
               {!isReviewing && (
                 <button
-                  onClick={handleSubmitGuess}
+                  onClick={() => handleSubmitGuess()}
                   disabled={!userGuess || isSubmitting}
                   className="pointer-events-auto w-full max-w-sm bg-orange-600 text-white font-bold py-3 rounded-xl shadow-lg disabled:bg-gray-600"
                 >
@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CollectionSort } from '../types';
+import { CollectionWithStats, getAllCollections } from '../services/collectionService';
+import { getPopularTags } from '../services/tagService';
+import TagChips from './TagChips';
+
+interface Props {
+  onBack: () => void;
+}
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORTS: { id: CollectionSort; label: string }[] = [
+  { id: 'newest', label: '最新' },
+  { id: 'popular', label: '最多人玩' },
+  { id: 'rating', label: '最受好评' },
+  { id: 'hardest', label: '最难' },
+];
+
+const chip = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap border transition ${
+    active ? 'bg-orange-500 border-orange-500 text-white' : 'bg-black/40 border-white/20 text-gray-300'
+  }`;
+
+// #plaza: every player's collections, searchable by collection / author name, sortable,
+// narrowed by tag, with the next page loaded as the end of the list scrolls into view
+const CollectionPlaza: React.FC<Props> = ({ onBack }) => {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState(''); // debounced searchInput
+  const [sort, setSort] = useState<CollectionSort>('newest');
+  const [tag, setTag] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]); // filter chips: tags used on collections
+  const [list, setList] = useState<CollectionWithStats[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef(0); // drops responses for a search / sort the user has already left
+
+  const options = { search, tag: tag ?? undefined, sort };
+
+  useEffect(() => {
+    getPopularTags().then((list) => setTags(list.filter((t) => t.collections > 0).map((t) => t.tag)));
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    const load = async () => {
+      setLoading(true);
+      const first = await getAllCollections(0, PAGE_SIZE, options);
+      if (request !== requestRef.current) return;
+      setList(first);
+      setPage(0);
+      setHasMore(first.length === PAGE_SIZE);
+      setLoading(false);
+    };
+    load();
+  }, [search, sort, tag]);
+
+  const loadMore = async () => {
+    const request = requestRef.current;
+    setLoadingMore(true);
+    const next = await getAllCollections(page + 1, PAGE_SIZE, options);
+    setLoadingMore(false);
+    if (request !== requestRef.current) return;
+    // A collection published meanwhile shifts "newest" pages by one; skip what's already shown
+    setList((prev) => [...prev, ...next.filter((c) => !prev.some((p) => p.id === c.id))]);
+    setPage(page + 1);
+    setHasMore(next.length === PAGE_SIZE);
+  };
+
+  // Infinite scroll: fetch the next page once the end of the list is near
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading || loadingMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => { if (entries[0].isIntersecting) loadMore(); },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, loadingMore, page]);
+
+  const filtered = !!search || !!tag;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      {/* Header */}
+      <div className="flex items-center gap-3 px-4 pt-6 pb-4">
+        <button onClick={onBack} className="p-2 bg-gray-800 rounded-full flex-shrink-0">
+          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+        </button>
+        <div className="flex-1">
+          <h1 className="text-lg font-bold leading-tight">集锦广场</h1>
+          <p className="text-xs text-gray-500">发现玩家创作的精彩集锦</p>
+        </div>
+        <button onClick={() => { window.location.hash = '#tags'; }} className="text-sm text-gray-400 flex-shrink-0">🏷️ 标签</button>
+      </div>
+
+      {/* Search + sort + tag filter */}
+      <div className="px-4 pb-4 space-y-3">
+        <div className="relative">
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="搜索集锦名称或作者"
+            className="w-full bg-gray-800 rounded-xl px-4 py-2.5 text-sm text-white placeholder-gray-500 outline-none focus:ring-2 focus:ring-orange-500"
+          />
+          {searchInput && (
+            <button onClick={() => setSearchInput('')} className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 px-1">×</button>
+          )}
+        </div>
+        <div className="flex gap-2 overflow-x-auto">
+          {SORTS.map((s) => (
+            <button key={s.id} onClick={() => setSort(s.id)} className={chip(sort === s.id)}>
+              {s.label}
+            </button>
+          ))}
+        </div>
+        {tags.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto">
+            {[null, ...tags].map((t) => (
+              <button key={t ?? ''} onClick={() => setTag(t)} className={chip(tag === t)}>
+                {t ? `#${t}` : '全部标签'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Grid */}
+      <div className="px-4 pb-10">
+        {loading ? (
+          <div className="grid grid-cols-2 gap-3">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="bg-gray-800 rounded-2xl p-4 h-36 animate-pulse" />
+            ))}
+          </div>
+        ) : list.length === 0 && filtered ? (
+          <div className="text-center py-20 text-gray-500 text-sm">没有找到符合条件的集锦</div>
+        ) : list.length === 0 ? (
+          <div className="text-center py-20 text-gray-500 text-sm">
+            还没有人发布集锦<br />
+            <button
+              onClick={() => { window.location.hash = '#collection-create'; }}
+              className="mt-4 px-5 py-2 bg-orange-500 text-white rounded-full text-sm font-bold"
+            >来创建第一个</button>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              {list.map((coll) => (
+                <div
+                  key={coll.id}
+                  onClick={() => { window.location.hash = `#collection/${coll.id}`; }}
+                  className="group relative bg-gradient-to-br from-gray-800 to-gray-850 border border-gray-700/50 rounded-2xl p-4 active:scale-95 transition-transform cursor-pointer overflow-hidden flex flex-col justify-between min-h-[9rem]"
+                >
+                  {/* Decorative accent */}
+                  <div className="absolute top-0 right-0 w-16 h-16 bg-orange-500/5 rounded-full -translate-y-6 translate-x-6" />
+
+                  {/* Top: name + author */}
+                  <div>
+                    <div className="font-bold text-white text-sm leading-snug line-clamp-2 mb-1.5">
+                      {coll.name}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{coll.authorName}</div>
+                    <TagChips tags={coll.tags} className="mt-1.5" />
+                  </div>
+
+                  {/* Bottom: stats row */}
+                  <div className="mt-3 flex items-end justify-between">
+                    <div className="space-y-0.5">
+                      <div className="text-xs text-gray-400">
+                        <span className="text-white font-semibold">{coll.itemCount}</span> 道题
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {coll.totalCompletions === 0
+                          ? '暂无人完成'
+                          : sort === 'hardest'
+                            ? <>平均 <span className="text-orange-400 font-semibold">{coll.avgTotalScore.toLocaleString()}</span> 分</>
+                            : <><span className="text-orange-400 font-semibold">{coll.totalCompletions}</span> 人完成</>}
+                      </div>
+                    </div>
+                    <div className="text-gray-600 text-lg font-bold leading-none">→</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div ref={sentinelRef} className="h-1" />
+            {loadingMore && <div className="text-center py-4 text-gray-500 text-sm">加载中...</div>}
+            {!hasMore && list.length > PAGE_SIZE && (
+              <div className="text-center py-4 text-gray-600 text-xs">没有更多了</div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollectionPlaza;
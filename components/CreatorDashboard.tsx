@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { User, CreatorRanking } from '../types';
+import {
+  ChallengeStat, CreatorDashboard as Dashboard, MIN_PLAYS_FOR_RANKING, getCreatorDashboard, getTopCreators,
+} from '../services/creatorService';
+import { selectImageUrl, DISPLAY_WIDTH } from '../services/imageService';
+import DifficultyBadge from './DifficultyBadge';
+
+interface Props {
+  currentUser: User;
+  onBack: () => void;
+}
+
+const TOP_CREATORS = 10;
+const medals = ['🥇', '🥈', '🥉'];
+
+const formatDist = (m: number | null) =>
+  m === null ? '—' : m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(1)}km`;
+
+const openReview = (gameId: string) => {
+  window.location.hash = `#review/${gameId}`;
+};
+
+// #creator: how the player's own games and collections are being played, plus the most-played creators
+const CreatorDashboard: React.FC<Props> = ({ currentUser, onBack }) => {
+  const [dashboard, setDashboard] = useState<Dashboard | null>(null);
+  const [topCreators, setTopCreators] = useState<CreatorRanking[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const [d, top] = await Promise.all([getCreatorDashboard(currentUser.id), getTopCreators(TOP_CREATORS)]);
+      setDashboard(d);
+      setTopCreators(top);
+      setLoading(false);
+    };
+    load();
+  }, [currentUser.id]);
+
+  if (loading || !dashboard) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center text-white">
+        <div className="w-10 h-10 border-4 border-orange-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const maxDayPlays = Math.max(1, ...dashboard.playsByDay.map((d) => d.plays));
+
+  const challengeRow = (c: ChallengeStat, detail: string) => (
+    <button
+      key={c.game.id}
+      onClick={() => openReview(c.game.id)}
+      className="w-full flex items-center gap-3 py-2.5 text-left"
+    >
+      <img src={selectImageUrl(c.game, DISPLAY_WIDTH.row)} alt="" className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="text-sm text-gray-200 truncate">
+          {c.game.locationName || '未知位置'}
+          <DifficultyBadge difficulty={c.game.difficulty} className="ml-1.5" />
+        </div>
+        <div className="text-[11px] text-gray-500 truncate">{detail}</div>
+      </div>
+      <span className="text-gray-600 text-sm">→</span>
+    </button>
+  );
+
+  const stat = (label: string, value: number) => (
+    <div className="bg-gray-800 rounded-2xl p-4 text-center">
+      <div className="text-2xl font-bold">{value.toLocaleString()}</div>
+      <div className="text-xs text-gray-400 mt-1">{label}</div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+        <button onClick={onBack} className="p-2 -ml-2">
+          <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"/></svg>
+        </button>
+        <h1 className="font-bold text-lg flex-1 truncate">📈 创作者数据</h1>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-10">
+        {/* Totals */}
+        <div className="grid grid-cols-2 gap-3">
+          {stat('被玩次数', dashboard.totalPlays)}
+          {stat('玩家人数', dashboard.uniquePlayers)}
+          {stat('获赞', dashboard.totalLikes)}
+          {stat('集锦完成人次', dashboard.totalCompletions)}
+        </div>
+
+        {/* Plays over time */}
+        <div className="bg-gray-800 rounded-2xl p-4">
+          <h2 className="text-sm font-bold text-gray-300 mb-3">近 {dashboard.playsByDay.length} 天被玩次数</h2>
+          <div className="flex items-end gap-1 h-24">
+            {dashboard.playsByDay.map((d) => (
+              <div key={d.day} className="flex-1 flex flex-col items-center justify-end h-full" title={`${d.day}：${d.plays}`}>
+                {d.plays > 0 && <div className="text-[9px] text-gray-400 mb-0.5">{d.plays}</div>}
+                <div
+                  className={`w-full rounded-t ${d.plays > 0 ? 'bg-orange-500' : 'bg-gray-700'}`}
+                  style={{ height: `${Math.max(4, (d.plays / maxDayPlays) * 80)}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+            <span>{dashboard.playsByDay[0].day.slice(5)}</span>
+            <span>今天</span>
+          </div>
+        </div>
+
+        {/* Hardest / easiest */}
+        {dashboard.hardest.length > 0 && (
+          <div className="bg-gray-800 rounded-2xl p-4">
+            <h2 className="text-sm font-bold text-gray-300">最难的题</h2>
+            <div className="divide-y divide-gray-700/60">
+              {dashboard.hardest.map((c) => challengeRow(c, `平均 ${c.avgScore!.toLocaleString()} 分 · 误差 ${formatDist(c.avgErrorM)}`))}
+            </div>
+            {dashboard.easiest.length > 0 && (
+              <>
+                <h2 className="text-sm font-bold text-gray-300 mt-3">最简单的题</h2>
+                <div className="divide-y divide-gray-700/60">
+                  {dashboard.easiest.map((c) => challengeRow(c, `平均 ${c.avgScore!.toLocaleString()} 分 · 误差 ${formatDist(c.avgErrorM)}`))}
+                </div>
+              </>
+            )}
+            <div className="text-[11px] text-gray-500 mt-2">至少被玩 {MIN_PLAYS_FOR_RANKING} 次的题目才参与排序</div>
+          </div>
+        )}
+
+        {/* Every challenge */}
+        <div className="bg-gray-800 rounded-2xl p-4">
+          <h2 className="text-sm font-bold text-gray-300">我的题目（{dashboard.challenges.length}）</h2>
+          {dashboard.challenges.length === 0 ? (
+            <div className="text-center py-4 text-gray-500 text-sm">还没有发布过题目</div>
+          ) : (
+            <div className="divide-y divide-gray-700/60">
+              {dashboard.challenges.map((c) =>
+                challengeRow(
+                  c,
+                  c.plays === 0
+                    ? `还没有人玩过 · ❤️ ${c.game.likes || 0}`
+                    : `${c.plays} 次 · 平均误差 ${formatDist(c.avgErrorM)} · ❤️ ${c.game.likes || 0}`
+                )
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Collections */}
+        {dashboard.collections.length > 0 && (
+          <div className="bg-gray-800 rounded-2xl p-4">
+            <h2 className="text-sm font-bold text-gray-300 mb-1">我的集锦</h2>
+            <div className="divide-y divide-gray-700/60">
+              {dashboard.collections.map(({ collection, completions, avgTotalScore }) => (
+                <button
+                  key={collection.id}
+                  onClick={() => { window.location.hash = `#collection/${collection.id}`; }}
+                  className="w-full flex items-center gap-3 py-2.5 text-left"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-gray-200 truncate">{collection.name}</div>
+                    <div className="text-[11px] text-gray-500">
+                      {completions > 0 ? `${completions} 人完成 · 平均 ${avgTotalScore.toLocaleString()} 分` : '还没有人完成'}
+                    </div>
+                  </div>
+                  <span className="text-gray-600 text-sm">→</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Most-played creators */}
+        <div className="bg-gray-800 rounded-2xl p-4">
+          <h2 className="text-sm font-bold text-gray-300 mb-3">最受欢迎的出题人</h2>
+          {topCreators.length === 0 ? (
+            <div className="text-center py-4 text-gray-500 text-sm">还没有数据</div>
+          ) : (
+            <div className="space-y-2">
+              {topCreators.map((c) => {
+                const isMe = c.userId === currentUser.id;
+                return (
+                  <button
+                    key={c.userId}
+                    onClick={() => { window.location.hash = `#profile/${c.userId}`; }}
+                    className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left ${
+                      isMe ? 'bg-orange-500/20 border border-orange-500/40' : 'bg-gray-900/60'
+                    }`}
+                  >
+                    <span className="w-6 text-center text-sm font-bold">
+                      {c.rank <= 3 ? medals[c.rank - 1] : <span className="text-gray-400">{c.rank}</span>}
+                    </span>
+                    <span className={`flex-1 min-w-0 text-sm truncate ${isMe ? 'text-orange-300' : 'text-gray-200'}`}>
+                      {c.userName}
+                      {isMe && <span className="text-xs ml-1 text-orange-400">（你）</span>}
+                    </span>
+                    <span className="text-xs text-gray-500">{c.gamesCount} 题</span>
+                    <span className={`text-sm font-bold ${isMe ? 'text-orange-400' : 'text-gray-300'}`}>
+                      {c.plays.toLocaleString()} 次
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreatorDashboard;
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { User, Collection, CollectionAttempt, ViewRestrictions } from '../types';
+import { getCollectionLeaderboard, getCollectionProgress } from '../services/collectionService';
+import {
+  DailyStreak,
+  dailyDayKey,
+  formatDailyDay,
+  getDailyChallenge,
+  getDailyStreak,
+} from '../services/dailyService';
+import { describeScoring } from '../services/scoringService';
+import CollectionLeaderboard from './CollectionLeaderboard';
+
+interface Props {
+  day: string; // YYYY-MM-DD
+  currentUser: User;
+  onBack: () => void;
+  onStartPlay: (collectionId: string, gameIds: string[], startIndex: number, restrictions?: ViewRestrictions) => void;
+}
+
+// #daily: today's shared set, the player's streak and the day's leaderboard.
+// Earlier days (#daily/<day>) only show their leaderboard.
+const DailyChallenge: React.FC<Props> = ({ day, currentUser, onBack, onStartPlay }) => {
+  const [loading, setLoading] = useState(true);
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [gameIds, setGameIds] = useState<string[]>([]);
+  const [streak, setStreak] = useState<DailyStreak | null>(null);
+  const [leaderboard, setLeaderboard] = useState<{
+    topTen: CollectionAttempt[];
+    myRecord: CollectionAttempt | null;
+  } | null>(null);
+  const [startIndex, setStartIndex] = useState(0);
+  const [localScore, setLocalScore] = useState<number | null>(null); // finished on this device
+
+  const isToday = day === dailyDayKey();
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const [daily, s] = await Promise.all([getDailyChallenge(day), getDailyStreak(currentUser.id)]);
+      setStreak(s);
+      if (!daily) {
+        setCollection(null);
+        setLoading(false);
+        return;
+      }
+
+      setCollection(daily.collection);
+      setGameIds(daily.gameIds);
+      const progress = getCollectionProgress(daily.collection.id, currentUser.id);
+      setStartIndex(progress && !progress.isCompleted ? progress.completedItems.length : 0);
+      setLocalScore(progress?.isCompleted ? progress.completedItems.reduce((sum, i) => sum + i.score, 0) : null);
+      setLeaderboard(await getCollectionLeaderboard(daily.collection.id, currentUser.id));
+      setLoading(false);
+    };
+
+    load();
+  }, [day, currentUser.id]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center text-white">
+        <div className="w-10 h-10 border-4 border-orange-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  // The attempt may not have landed yet right after finishing; local progress covers that gap
+  const myScore = localScore ?? leaderboard?.myRecord?.totalScore ?? null;
+  const isDone = myScore !== null;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+        <button onClick={onBack} className="p-2 -ml-2">
+          <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"/></svg>
+        </button>
+        <h1 className="font-bold text-lg flex-1 truncate">📅 每日挑战 · {formatDailyDay(day)}</h1>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-28">
+        {/* Streak */}
+        {streak && (
+          <div className="bg-gradient-to-br from-orange-500/20 to-yellow-500/10 border border-orange-500/30 rounded-3xl p-5 flex items-center">
+            <div className="flex-1 text-center">
+              <div className="text-4xl font-bold text-orange-400">🔥 {streak.current}</div>
+              <div className="text-xs text-gray-400 mt-1">连续天数</div>
+            </div>
+            <div className="w-px h-10 bg-white/10" />
+            <div className="flex-1 text-center">
+              <div className="text-4xl font-bold text-white">{streak.best}</div>
+              <div className="text-xs text-gray-400 mt-1">最长连续</div>
+            </div>
+          </div>
+        )}
+
+        {!collection ? (
+          <div className="bg-gray-800 rounded-2xl p-6 text-center text-gray-400 text-sm">
+            {isToday ? '题库里还没有足够的题目，明天再来吧' : '这一天没有每日挑战'}
+          </div>
+        ) : (
+          <>
+            <div className="bg-gray-800 rounded-2xl p-5 text-center">
+              {isDone ? (
+                <>
+                  <div className="text-sm text-gray-400">{isToday ? '今日已完成' : '你的成绩'}</div>
+                  <div className="text-5xl font-bold text-orange-400 mt-2">{myScore.toLocaleString()}</div>
+                  {isToday && <div className="text-xs text-gray-500 mt-2">明天 0 点（北京时间）更新下一期</div>}
+                </>
+              ) : (
+                <>
+                  <div className="text-lg font-bold">{gameIds.length} 道题 · 所有人同一套</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {describeScoring(collection.scoring)}尺度计分 · 每人每天只有一次机会
+                  </div>
+                  {!isToday && <div className="text-xs text-gray-500 mt-3">往期挑战只能查看排行榜</div>}
+                </>
+              )}
+            </div>
+
+            <div className="bg-gray-800 rounded-2xl p-4">
+              <h2 className="text-sm font-bold text-gray-300 mb-3">{isToday ? '今日排行榜' : '当日排行榜'}</h2>
+              {leaderboard && (leaderboard.topTen.length > 0 || isDone) ? (
+                <CollectionLeaderboard
+                  topTen={leaderboard.topTen}
+                  myRecord={leaderboard.myRecord}
+                  currentUserId={currentUser.id}
+                  scoring={collection.scoring}
+                  restrictions={collection.restrictions}
+                />
+              ) : (
+                <div className="text-center py-4 text-gray-500 text-sm">
+                  {isToday ? '还没有人完成，来拿今天的第一名！' : '这一天没有人完成'}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {collection && isToday && !isDone && (
+        <div className="fixed bottom-0 left-0 right-0 p-4 bg-gray-900 border-t border-gray-800">
+          <button
+            onClick={() => onStartPlay(collection.id, gameIds, startIndex, collection.restrictions)}
+            className="w-full py-4 bg-orange-500 rounded-2xl font-bold text-lg text-white active:scale-95 transition-transform"
+          >
+            {startIndex > 0 ? `继续挑战（${startIndex}/${gameIds.length}）` : `开始今日挑战（${gameIds.length} 题）`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyChallenge;
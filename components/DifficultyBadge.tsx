@@ -0,0 +1,30 @@
+import React from 'react';
+import { DifficultyLevel } from '../types';
+import { DIFFICULTY_LABELS, difficultyLevel } from '../services/difficultyService';
+
+interface Props {
+  difficulty?: number; // renders nothing until the game has been rated
+  className?: string;
+}
+
+const COLORS: Record<DifficultyLevel, string> = {
+  easy: 'bg-green-500/20 border-green-400/40 text-green-200',
+  medium: 'bg-yellow-500/20 border-yellow-400/40 text-yellow-200',
+  hard: 'bg-red-500/20 border-red-400/40 text-red-200',
+};
+
+// 简单 / 中等 / 困难 chip for game cards and rows, from the game's computed difficulty
+const DifficultyBadge: React.FC<Props> = ({ difficulty, className = '' }) => {
+  const level = difficultyLevel(difficulty);
+  if (!level) return null;
+
+  return (
+    <span
+      className={`inline-block px-1.5 py-px rounded text-[10px] font-bold border align-middle whitespace-nowrap ${COLORS[level]} ${className}`}
+    >
+      {DIFFICULTY_LABELS[level]}
+    </span>
+  );
+};
+
+export default DifficultyBadge;
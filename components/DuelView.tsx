@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { User, Guess } from '../types';
+import { selectImageUrl, DISPLAY_WIDTH } from '../services/imageService';
+import { formatElapsed } from '../services/scoringService';
+import { DuelResult, duelPlayHash, duelShareUrl, isDuelPlayer, loadDuel } from '../services/duelService';
+import GameMap from './GameMap';
+
+interface Props {
+  duelId: string;
+  currentUser: User;
+  onBack: () => void;
+  onPlay: (hash: string) => void; // go answer the rounds; App remembers the duel to come back to
+}
+
+const formatDist = (m: number | null) =>
+  m === null ? '超时' : m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(1)}km`;
+
+const formatGuess = (g: Guess | null) =>
+  !g ? '未作答' : g.elapsedMs !== undefined ? `${formatDist(g.distance)} · ${formatElapsed(g.elapsedMs)}` : formatDist(g.distance);
+
+const STATUS_LABEL = {
+  open: '等待对手接受',
+  active: '对决进行中',
+  completed: '对决已结束',
+} as const;
+
+const IconBack = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"/></svg>
+);
+
+// Result page for a duel (#duel/<id>): both players side by side, then round by round on one map
+const DuelView: React.FC<Props> = ({ duelId, currentUser, onBack, onPlay }) => {
+  const [result, setResult] = useState<DuelResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [shareToast, setShareToast] = useState(false);
+
+  const refresh = async () => {
+    setLoading(true);
+    setResult(await loadDuel(duelId, currentUser));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [duelId, currentUser.id]);
+
+  const round = result?.rounds[Math.min(roundIndex, result.rounds.length - 1)];
+  // Stable per round so GameMap only refits when the round changes
+  const roundGuesses = useMemo(
+    () => (round ? [round.challenger, round.opponent].filter((g): g is Guess => !!g && !!g.location) : []),
+    [round]
+  );
+
+  if (loading && !result) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center text-white">
+        <div className="w-10 h-10 border-4 border-orange-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center gap-4 p-6 text-center">
+        <div className="text-gray-400">对决不存在或已失效</div>
+        <button onClick={onBack} className="px-6 py-2 bg-gray-800 rounded-full text-sm">返回首页</button>
+      </div>
+    );
+  }
+
+  const { duel, rounds, challengerTotal, opponentTotal, winnerId } = result;
+  const isPlayer = isDuelPlayer(duel, currentUser.id);
+  const isChallenger = duel.challengerId === currentUser.id;
+  const myRounds = rounds.filter((r) => (isChallenger ? r.challenger : r.opponent));
+  const hasRoundsLeft = isPlayer && myRounds.length < rounds.length;
+
+  const handleShare = async () => {
+    const text = `我向你发起了一场地理猜谜对决《${result.title}》，敢来比比吗？`;
+    try {
+      await navigator.clipboard.writeText(`${text}\n${duelShareUrl(duel.id)}`);
+      setShareToast(true);
+      setTimeout(() => setShareToast(false), 2000);
+    } catch {
+      prompt('复制以下内容发给对手：', `${text}\n${duelShareUrl(duel.id)}`);
+    }
+  };
+
+  const side = (userId: string | undefined, name: string | undefined, total: number) => {
+    const isMe = userId === currentUser.id;
+    const isWinner = !!userId && userId === winnerId;
+    return (
+      <div className="flex-1 min-w-0 text-center">
+        <div className={`text-sm font-medium truncate ${isMe ? 'text-orange-300' : 'text-gray-200'}`}>
+          {isWinner && '🏆 '}{name || '等待对手...'}
+          {isMe && <span className="text-xs ml-1 text-orange-400">（你）</span>}
+        </div>
+        <div className={`text-3xl font-bold mt-1 ${isWinner ? 'text-orange-400' : 'text-white'}`}>
+          {userId ? total.toLocaleString() : '—'}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+        <button onClick={onBack} className="p-2 -ml-2"><IconBack /></button>
+        <h1 className="font-bold text-lg flex-1 truncate">⚔️ 对决 · {result.title}</h1>
+        <button onClick={refresh} disabled={loading} className="text-xs text-gray-400 disabled:opacity-50">
+          {loading ? '刷新中...' : '刷新'}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-28">
+        {/* Versus card */}
+        <div className="bg-gradient-to-br from-orange-500/20 to-red-500/10 border border-orange-500/30 rounded-3xl p-5">
+          <div className="flex items-center gap-3">
+            {side(duel.challengerId, duel.challengerName, challengerTotal)}
+            <div className="text-gray-500 font-bold">VS</div>
+            {side(duel.opponentId, duel.opponentName, opponentTotal)}
+          </div>
+          <div className="text-center text-xs text-gray-400 mt-4">
+            {STATUS_LABEL[duel.status]}
+            {duel.status === 'completed' && !winnerId && ' · 平局'}
+            {` · 共 ${rounds.length} 题`}
+          </div>
+        </div>
+
+        {!isPlayer && (
+          <div className="bg-gray-800 rounded-xl px-4 py-3 text-sm text-gray-400 text-center">
+            这场对决已有两位选手，你可以旁观比分
+          </div>
+        )}
+
+        {/* Round by round */}
+        <div className="bg-gray-800 rounded-2xl p-4">
+          <h2 className="text-sm font-bold text-gray-300 mb-2">逐题对比</h2>
+          <div className="divide-y divide-gray-700/60">
+            {rounds.map((r, i) => {
+              const thumb = r.game ? selectImageUrl(r.game, DISPLAY_WIDTH.row) : null;
+              const isSelected = round === r;
+              return (
+                <button
+                  key={r.gameId}
+                  onClick={() => setRoundIndex(i)}
+                  className={`w-full flex items-center gap-3 py-2.5 text-left ${isSelected ? 'bg-white/5 -mx-2 px-2 rounded-lg' : ''}`}
+                >
+                  <span className="w-5 text-xs text-gray-500 flex-shrink-0">{i + 1}</span>
+                  {thumb
+                    ? <img src={thumb} alt="" className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+                    : <div className="w-12 h-12 rounded-lg bg-gray-700 flex-shrink-0" />}
+                  <div className="flex-1 grid grid-cols-2 gap-2 min-w-0">
+                    {[r.challenger, r.opponent].map((g, seat) => {
+                      const won = !!g && g.userId === r.winnerId;
+                      return (
+                        <div key={seat} className="min-w-0">
+                          <div className={`text-sm font-bold ${won ? 'text-orange-400' : g ? 'text-gray-200' : 'text-gray-600'}`}>
+                            {g ? g.score.toLocaleString() : '—'}{won && ' ✓'}
+                          </div>
+                          <div className="text-[11px] text-gray-500 truncate">{formatGuess(g)}</div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Both guesses for the selected round on one map */}
+        {round && (
+          <div className="bg-gray-800 rounded-2xl overflow-hidden">
+            <div className="px-4 py-3 text-sm font-bold text-gray-300">
+              第 {rounds.indexOf(round) + 1} 题落点
+              {round.answer?.locationName && <span className="ml-2 text-xs font-normal text-gray-500">{round.answer.locationName}</span>}
+            </div>
+            <div className="h-72 relative bg-gray-200">
+              <GameMap
+                isOpen
+                interactive={false}
+                actualLocation={round.answer?.location}
+                guesses={round.answer ? roundGuesses : []}
+                currentUserId={currentUser.id}
+              />
+              {!round.answer && (
+                <div className="absolute inset-0 flex items-center justify-center z-[1000] bg-black/50 text-white text-sm">
+                  答完这一题后才能查看双方落点
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="fixed bottom-0 left-0 right-0 p-4 bg-gray-900 border-t border-gray-800 space-y-2">
+        {hasRoundsLeft && (
+          <button
+            onClick={() => onPlay(duelPlayHash(duel))}
+            className="w-full py-3.5 bg-orange-500 rounded-2xl font-bold text-white active:scale-95 transition-transform"
+          >
+            {myRounds.length === 0 ? '开始答题' : `继续答题（${myRounds.length}/${rounds.length}）`}
+          </button>
+        )}
+        {duel.status === 'open' && isChallenger && (
+          <button
+            onClick={handleShare}
+            className={`w-full py-3 rounded-2xl font-bold text-sm active:scale-95 transition-transform ${
+              hasRoundsLeft ? 'bg-gray-800 text-gray-300 border border-gray-700' : 'bg-orange-500 text-white'
+            }`}
+          >
+            {shareToast ? '✓ 已复制对决链接' : '复制对决链接发给对手'}
+          </button>
+        )}
+        {!hasRoundsLeft && duel.status !== 'open' && (
+          <div className="text-center text-gray-400 text-sm py-2">
+            {duel.status === 'completed' ? '双方都已完成' : isPlayer ? '你已答完，等待对手完成后点“刷新”' : '双方仍在答题中'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DuelView;
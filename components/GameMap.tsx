@@ -1,7 +1,7 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
-import { LatLng, Guess } from '../types';
+import { LatLng, Guess, GeoBounds } from '../types';
 import { searchAddress, getAddressFromCoords } from '../services/geocodingService';
 
 interface GameMapProps {
@@ -13,6 +13,7 @@ interface GameMapProps {
   actualLocation?: LatLng | null;
   guesses?: Guess[]; // List of all guesses to display in REVIEW mode
   currentUserId?: string; // To highlight the current user
+  levels?: Record<string, number>; // userId -> player level, shown in the name bubbles
 
   interactive?: boolean; // If true, allows selecting points. If false, just viewing (but panning/zooming still allowed)
   isOpen?: boolean;
@@ -20,11 +21,41 @@ interface GameMapProps {
   // When this value changes, the map resets its viewport to the default world view.
   // Used by CollectionPlayer to clear the previous question's position without remounting.
   resetCenterKey?: number;
+
+  // Region Picker Props
+  drawBounds?: boolean; // dragging draws a box instead of panning the map
+  bounds?: GeoBounds | null; // box to show
+  onBoundsDraw?: (bounds: GeoBounds) => void;
 }
 
 // Module-level constant so useEffect closures can reference it without stale-closure risk
 const DEFAULT_CENTER = { lat: 35.8617, lng: 104.1954 };
 
+const wrapLng = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+// Box between two dragged corners. The map repeats horizontally, so raw longitudes can run past
+// ±180; after wrapping, a box across the antimeridian comes out with west > east.
+const boundsFromCorners = (a: L.LatLng, b: L.LatLng): GeoBounds => {
+  const clampLat = (lat: number) => Math.max(-90, Math.min(90, lat));
+  const west = Math.min(a.lng, b.lng);
+  const east = Math.max(a.lng, b.lng);
+  const fullWidth = east - west >= 360;
+  return {
+    south: clampLat(Math.min(a.lat, b.lat)),
+    north: clampLat(Math.max(a.lat, b.lat)),
+    west: fullWidth ? -180 : wrapLng(west),
+    east: fullWidth ? 180 : wrapLng(east),
+  };
+};
+
+// Leaflet corners for a GeoBounds, unwrapping the east edge so the rectangle doesn't span the globe
+const boundsToLatLngs = (b: GeoBounds): L.LatLngBoundsExpression => [
+  [b.south, b.west],
+  [b.north, b.west <= b.east ? b.east : b.east + 360],
+];
+
+const BOUNDS_STYLE: L.PathOptions = { color: '#f97316', weight: 2, fillOpacity: 0.15 };
+
 const GameMap: React.FC<GameMapProps> = ({
   initialCenter,
   onLocationSelect,
@@ -32,10 +63,14 @@ const GameMap: React.FC<GameMapProps> = ({
   actualLocation,
   guesses = [],
   currentUserId,
+  levels,
   interactive = true,
   isOpen = false,
   enableSearch = false,
   resetCenterKey,
+  drawBounds = false,
+  bounds,
+  onBoundsDraw,
 }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<L.Map | null>(null);
@@ -44,6 +79,9 @@ const GameMap: React.FC<GameMapProps> = ({
   // References for cleanup
   const markersRef = useRef<L.Marker[]>([]);
   const linesRef = useRef<L.Polyline[]>([]);
+  const boundsRectRef = useRef<L.Rectangle | null>(null);
+  const onBoundsDrawRef = useRef(onBoundsDraw);
+  onBoundsDrawRef.current = onBoundsDraw;
 
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
@@ -137,7 +175,7 @@ const GameMap: React.FC<GameMapProps> = ({
         if (actualLocation && guesses.length > 0) {
             const bounds = L.latLngBounds([actualLocation.lat, actualLocation.lng], [actualLocation.lat, actualLocation.lng]);
             guesses.forEach(g => {
-                bounds.extend([g.location.lat, g.location.lng]);
+                if (g.location) bounds.extend([g.location.lat, g.location.lng]);
             });
             mapRef.current.fitBounds(bounds, { padding: [50, 50], maxZoom: 15 });
         }
@@ -162,6 +200,60 @@ const GameMap: React.FC<GameMapProps> = ({
     }
   }, [resetCenterKey]);
 
+  // Bounds drawing: pointer events on the container, with panning off while the mode is on
+  useEffect(() => {
+    const map = mapRef.current;
+    const container = mapContainerRef.current;
+    if (!map || !container || !drawBounds) return;
+
+    map.dragging.disable();
+    let start: { latlng: L.LatLng; point: L.Point } | null = null;
+    let draft: L.Rectangle | null = null;
+
+    const handleDown = (e: PointerEvent) => {
+      if (!e.isPrimary) return;
+      start = { latlng: map.mouseEventToLatLng(e), point: map.mouseEventToContainerPoint(e) };
+      container.setPointerCapture(e.pointerId);
+    };
+    const handleMove = (e: PointerEvent) => {
+      if (!start) return;
+      const corner = map.mouseEventToLatLng(e);
+      const box = L.latLngBounds(start.latlng, corner);
+      if (draft) draft.setBounds(box);
+      else draft = L.rectangle(box, { ...BOUNDS_STYLE, dashArray: '4, 6' }).addTo(map);
+    };
+    const handleUp = (e: PointerEvent) => {
+      if (!start) return;
+      const from = start;
+      start = null;
+      draft?.remove();
+      draft = null;
+      // A tap is not a box
+      if (from.point.distanceTo(map.mouseEventToContainerPoint(e)) < 10) return;
+      onBoundsDrawRef.current?.(boundsFromCorners(from.latlng, map.mouseEventToLatLng(e)));
+    };
+
+    container.addEventListener('pointerdown', handleDown);
+    container.addEventListener('pointermove', handleMove);
+    container.addEventListener('pointerup', handleUp);
+    container.addEventListener('pointercancel', handleUp);
+    return () => {
+      container.removeEventListener('pointerdown', handleDown);
+      container.removeEventListener('pointermove', handleMove);
+      container.removeEventListener('pointerup', handleUp);
+      container.removeEventListener('pointercancel', handleUp);
+      draft?.remove();
+      map.dragging.enable();
+    };
+  }, [drawBounds]);
+
+  // Show the chosen box
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    boundsRectRef.current?.remove();
+    boundsRectRef.current = bounds ? L.rectangle(boundsToLatLngs(bounds), BOUNDS_STYLE).addTo(map) : null;
+  }, [bounds?.south, bounds?.west, bounds?.north, bounds?.east]);
 
   // --- Render Markers & Logic ---
   useEffect(() => {
@@ -214,7 +306,8 @@ const GameMap: React.FC<GameMapProps> = ({
     // 3. Render Guesses (Review Mode - Multiple Avatars)
     if (guesses.length > 0 && actualLocation) {
         // Sort guesses: Current user last (so it's on top z-index), others first
-        const sortedGuesses = [...guesses].sort((a, b) => {
+        // Timed-out guesses without a pin have nothing to draw
+        const sortedGuesses = guesses.filter(g => g.location).sort((a, b) => {
             if (a.userId === currentUserId) return 1;
             if (b.userId === currentUserId) return -1;
             return 0;
@@ -238,7 +331,7 @@ const GameMap: React.FC<GameMapProps> = ({
                     </div>
                     <!-- Name Bubble -->
                     <div class="absolute -top-9 left-1/2 -translate-x-1/2 ${isMe ? 'block bg-orange-500 text-white z-[70] border-orange-600' : 'hidden group-hover:block bg-white/90 text-gray-900 z-[60] border-gray-200'} text-[10px] px-2 py-0.5 rounded shadow-sm whitespace-nowrap font-bold border">
-                        ${g.userName} ${(g.distance/1000).toFixed(1)}km
+                        ${levels?.[g.userId] ? `Lv.${levels[g.userId]} ` : ''}${g.userName} ${(g.distance/1000).toFixed(1)}km
                     </div>
                 </div>
             `;
@@ -269,7 +362,7 @@ const GameMap: React.FC<GameMapProps> = ({
         // We now rely on the useEffect([isOpen...]) with delay to handle the fitting.
     }
 
-  }, [selectedLocation, actualLocation, guesses, currentUserId, interactive]);
+  }, [selectedLocation, actualLocation, guesses, currentUserId, levels, interactive]);
 
   // --- Handlers ---
 
@@ -1,24 +1,72 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { GamePhoto, ViewRestrictions } from '../types';
+import { maxScaleFor } from '../services/restrictionService';
 
 interface ImageViewerProps {
   src: string;
+  previewSrc?: string; // Smaller rendition shown until `src` has finished loading
+  restrictions?: ViewRestrictions; // Enforced while playing; omit for free viewing (review, create)
+  photos?: GamePhoto[]; // Multi-photo games: swipeable gallery starting at the cover (`src`)
 }
 
-const ImageViewer: React.FC<ImageViewerProps> = ({ src }) => {
+const SWIPE_THRESHOLD_PX = 50;
+
+const ImageViewer: React.FC<ImageViewerProps> = ({ src, previewSrc, restrictions, photos }) => {
+  const isGallery = !!photos && photos.length > 1;
+  const [photoIndex, setPhotoIndex] = useState(0);
+  const activePhoto = isGallery ? photos[Math.min(photoIndex, photos.length - 1)] : null;
+  const activeSrc = activePhoto ? activePhoto.imageUrl : src;
+  const activePreview = activePhoto ? activePhoto.mediumUrl : previewSrc;
+
+  const [displaySrc, setDisplaySrc] = useState(activePreview || activeSrc);
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
+  const [isRevealed, setIsRevealed] = useState(!restrictions?.blurUntilTap);
   const containerRef = useRef<HTMLDivElement>(null);
   const startPos = useRef({ x: 0, y: 0 });
   const lastPos = useRef({ x: 0, y: 0 }); // Last committed position
   const initialDist = useRef(0);
 
+  const maxScale = maxScaleFor(restrictions);
+  const canZoom = maxScale > 1;
+  const canPan = !restrictions?.noPan;
+
+  // A new game always opens on its first photo
+  useEffect(() => {
+    setPhotoIndex(0);
+  }, [src]);
+
   // Reset when source changes
   useEffect(() => {
     setScale(1);
     setPosition({ x: 0, y: 0 });
     lastPos.current = { x: 0, y: 0 };
-  }, [src]);
+  }, [activeSrc]);
+
+  // Blurred photos start hidden again on every new question
+  useEffect(() => {
+    setIsRevealed(!restrictions?.blurUntilTap);
+  }, [src, restrictions?.blurUntilTap]);
+
+  // Progressive load: paint the preview right away, swap in the full image once decoded
+  useEffect(() => {
+    if (!activePreview || activePreview === activeSrc) {
+      setDisplaySrc(activeSrc);
+      return;
+    }
+    setDisplaySrc(activePreview);
+    let cancelled = false;
+    const full = new Image();
+    full.onload = () => { if (!cancelled) setDisplaySrc(activeSrc); };
+    full.src = activeSrc;
+    return () => { cancelled = true; };
+  }, [activeSrc, activePreview]);
+
+  const showPhoto = (index: number) => {
+    if (!isGallery) return;
+    setPhotoIndex((index + photos.length) % photos.length);
+  };
 
   // --- Touch Handlers (Mobile) ---
 
@@ -39,7 +87,7 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ src }) => {
   };
 
   const handleTouchMove = (e: React.TouchEvent) => {
-    if (e.touches.length === 1 && isDragging && scale > 1) {
+    if (e.touches.length === 1 && isDragging && scale > 1 && canPan) {
       // Dragging (only if zoomed in)
       const dx = e.touches[0].clientX - startPos.current.x;
       const dy = e.touches[0].clientY - startPos.current.y;
@@ -49,7 +97,7 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ src }) => {
         y: lastPos.current.y + dy
       });
       e.preventDefault(); // Prevent scrolling
-    } else if (e.touches.length === 2) {
+    } else if (e.touches.length === 2 && canZoom) {
       // Pinching
       const dist = Math.hypot(
         e.touches[0].clientX - e.touches[1].clientX,
@@ -58,14 +106,22 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ src }) => {
       if (initialDist.current > 0) {
         const delta = dist / initialDist.current;
         // Limit zoom
-        const newScale = Math.min(Math.max(1, scale * delta), 4);
+        const newScale = Math.min(Math.max(1, scale * delta), maxScale);
         setScale(newScale);
       }
       e.preventDefault();
     }
   };
 
-  const handleTouchEnd = () => {
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    // Horizontal swipe at 1x flips through the gallery
+    if (isGallery && isDragging && scale <= 1 && e.changedTouches.length === 1) {
+      const dx = e.changedTouches[0].clientX - startPos.current.x;
+      const dy = e.changedTouches[0].clientY - startPos.current.y;
+      if (Math.abs(dx) > SWIPE_THRESHOLD_PX && Math.abs(dx) > Math.abs(dy)) {
+        showPhoto(photoIndex + (dx < 0 ? 1 : -1));
+      }
+    }
     setIsDragging(false);
     lastPos.current = position;
     // Reset if zoomed out completely
@@ -78,7 +134,7 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ src }) => {
   // --- Mouse Handlers (Desktop) ---
 
   const handleMouseDown = (e: React.MouseEvent) => {
-      if (scale > 1) {
+      if (scale > 1 && canPan) {
           setIsDragging(true);
           startPos.current = { x: e.clientX, y: e.clientY };
           e.preventDefault();
@@ -106,8 +162,9 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ src }) => {
   const handleWheel = (e: React.WheelEvent) => {
       // Ctrl+Wheel or just Wheel to zoom
       // Simple logic: zoom in/out
+      if (!canZoom) return;
       const delta = -e.deltaY * 0.005;
-      const newScale = Math.min(Math.max(1, scale + delta), 4);
+      const newScale = Math.min(Math.max(1, scale + delta), maxScale);
       setScale(newScale);
       if (newScale === 1) {
           setPosition({ x: 0, y: 0 });
@@ -116,12 +173,13 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ src }) => {
   };
 
   const handleDoubleClick = () => {
+      if (!canZoom) return;
       if (scale > 1) {
           setScale(1);
           setPosition({ x: 0, y: 0 });
           lastPos.current = { x: 0, y: 0 };
       } else {
-          setScale(2.5);
+          setScale(Math.min(2.5, maxScale));
       }
   };
 
@@ -140,19 +198,54 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ src }) => {
         onDoubleClick={handleDoubleClick}
     >
       <img 
-        src={src} 
+        src={displaySrc} 
         alt="Game Target" 
         className="max-w-full max-h-full object-contain transition-transform duration-75 ease-linear will-change-transform"
         style={{
             transform: `translate(${position.x}px, ${position.y}px) scale(${scale})`,
-            cursor: scale > 1 ? (isDragging ? 'grabbing' : 'grab') : 'default'
+            cursor: scale > 1 && canPan ? (isDragging ? 'grabbing' : 'grab') : 'default',
+            filter: isRevealed ? undefined : 'blur(24px)'
         }}
         draggable={false}
       />
+      {/* Gallery controls: arrows for desktop, dots for position */}
+      {isGallery && scale === 1 && (
+        <>
+          <button
+              onClick={(e) => { e.stopPropagation(); showPhoto(photoIndex - 1); }}
+              onDoubleClick={(e) => e.stopPropagation()}
+              className="absolute left-2 top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-black/40 text-white/80 backdrop-blur hidden sm:flex items-center justify-center"
+          >‹</button>
+          <button
+              onClick={(e) => { e.stopPropagation(); showPhoto(photoIndex + 1); }}
+              onDoubleClick={(e) => e.stopPropagation()}
+              className="absolute right-2 top-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-black/40 text-white/80 backdrop-blur hidden sm:flex items-center justify-center"
+          >›</button>
+        </>
+      )}
+      {isGallery && (
+        <div className="absolute bottom-32 flex gap-1.5 pointer-events-none">
+          {photos.map((photo, i) => (
+            <span key={photo.imageUrl} className={`w-1.5 h-1.5 rounded-full ${i === photoIndex ? 'bg-white' : 'bg-white/30'}`} />
+          ))}
+        </div>
+      )}
+      {/* Blur-until-tap: the overlay swallows gestures until the player reveals the photo */}
+      {!isRevealed && (
+        <button
+            onClick={(e) => { e.stopPropagation(); setIsRevealed(true); }}
+            onTouchStart={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => e.stopPropagation()}
+            className="absolute inset-0 flex items-center justify-center text-white/80 text-sm"
+        >
+            <span className="bg-black/50 backdrop-blur px-4 py-2 rounded-full border border-white/20">点击显示图片</span>
+        </button>
+      )}
       {/* Hint overlay only when not zoomed */}
-      {scale === 1 && (
+      {isRevealed && scale === 1 && (
         <div className="absolute bottom-24 text-white/30 text-xs pointer-events-none select-none">
-            双击或双指放大查看细节
+            {canZoom ? '双击或双指放大查看细节' : '本题禁止缩放'}
+            {isGallery ? ` · 左右滑动查看 ${photos.length} 张照片` : ''}
         </div>
       )}
     </div>
@@ -0,0 +1,21 @@
+import React from 'react';
+
+interface Props {
+  level?: number; // renders nothing until the level is known
+  className?: string;
+}
+
+// "Lv.N" chip shown next to player names (leaderboards, profile)
+const LevelBadge: React.FC<Props> = ({ level, className = '' }) => {
+  if (!level) return null;
+
+  return (
+    <span
+      className={`inline-block px-1.5 py-px rounded text-[10px] font-bold bg-sky-500/20 border border-sky-400/40 text-sky-200 align-middle whitespace-nowrap ${className}`}
+    >
+      Lv.{level}
+    </span>
+  );
+};
+
+export default LevelBadge;
@@ -0,0 +1,542 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { User, PlayableGame, GameAnswer, Guess, LatLng, RoomAnswer, RoomState } from '../types';
+import { RoomChannel, RoomMember } from '../services/repository';
+import { getGameById, getGameAnswer, startRound, submitGuess, generateId } from '../services/storageService';
+import {
+  ROOM_EVENTS,
+  ROOM_LOCK_GRACE_MS,
+  joinRoom,
+  openRoom,
+  roomShareUrl,
+  startRoomQuestion,
+  addRoomAnswer,
+  lockRoomRound,
+  advanceRoom,
+  shouldLockRound,
+  roundRemainingMs,
+  roomTimeLimit,
+  roundAnswers,
+  roomStandings,
+  redactRoomState,
+  withoutHiddenAnswers,
+} from '../services/roomService';
+import { formatElapsed } from '../services/scoringService';
+import ImageViewer from './ImageViewer';
+import GameMap from './GameMap';
+import RoundTimer from './RoundTimer';
+import RoomLeaderboard from './RoomLeaderboard';
+import RestrictionBadges from './RestrictionBadges';
+
+interface Props {
+  code: string;
+  currentUser: User;
+  hostCollectionId?: string; // set only when this user is opening a new room for that collection
+  onExit: () => void;
+}
+
+const formatDist = (m: number | null) =>
+  m === null ? '超时' : m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(1)}km`;
+
+const describeTimeLimits = (limits: (number | null)[]) => {
+  const distinct = Array.from(new Set(limits));
+  if (distinct.length > 1) return '按每题设置';
+  return distinct[0] ? `${distinct[0]} 秒` : '不限时';
+};
+
+const IconClose = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+);
+
+const MultiplayerRoom: React.FC<Props> = ({ code, currentUser, hostCollectionId, onExit }) => {
+  const [status, setStatus] = useState<'joining' | 'joined' | 'error'>('joining');
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [deadline, setDeadline] = useState<number | null>(null); // this device's clock
+  const [game, setGame] = useState<PlayableGame | null>(null);
+  const [answer, setAnswer] = useState<GameAnswer | null>(null); // only once this user has guessed
+  const [userGuess, setUserGuess] = useState<LatLng | null>(null);
+  const [myAnswer, setMyAnswer] = useState<RoomAnswer | null>(null); // for the current question
+  const [isMapOpen, setIsMapOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [shareToast, setShareToast] = useState(false);
+
+  // Socket handlers outlive renders, so they read the latest values through refs
+  const channelRef = useRef<RoomChannel | null>(null);
+  const roomRef = useRef<RoomState | null>(null);
+  const deadlineRef = useRef<number | null>(null);
+  const membersRef = useRef<RoomMember[]>([]);
+
+  const isHost = room?.hostId === currentUser.id;
+  const gameId = room && room.phase !== 'lobby' ? room.gameIds[room.index] : null;
+
+  const adopt = useCallback((next: RoomState, remainingMs: number | null) => {
+    roomRef.current = next;
+    deadlineRef.current = remainingMs === null ? null : Date.now() + remainingMs;
+    setRoom(next);
+    setDeadline(deadlineRef.current);
+  }, []);
+
+  // Sends our copy of the state, open-round results blanked; the countdown goes out as time left,
+  // not as a clock reading
+  const sendState = useCallback(() => {
+    const current = roomRef.current;
+    if (!current || !channelRef.current) return;
+    const remainingMs = deadlineRef.current === null ? null : Math.max(0, deadlineRef.current - Date.now());
+    channelRef.current.send(ROOM_EVENTS.state, { state: redactRoomState(current), remainingMs });
+  }, []);
+
+  // Host only: apply a transition locally and broadcast it (no-op if nothing changed)
+  const publish = useCallback((next: RoomState) => {
+    if (next === roomRef.current) return;
+    adopt(next, roundRemainingMs(next));
+    sendState();
+  }, [adopt, sendState]);
+
+  // Join; then either open the lobby (host) or ask the room for its current state
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribers: (() => void)[] = [];
+
+    const handleMessage = (event: string, payload: any) => {
+      const current = roomRef.current;
+      if (event === ROOM_EVENTS.state) {
+        if (!current || payload.state.version > current.version) {
+          const next: RoomState = payload.state.hostId === currentUser.id ? withoutHiddenAnswers(payload.state) : payload.state;
+          adopt(next, payload.remainingMs);
+        }
+      } else if (event === ROOM_EVENTS.hello) {
+        // The host answers everyone; peers only help a host that reloaded and lost its state
+        if (current && (current.hostId === currentUser.id || payload.userId === current.hostId)) sendState();
+      } else if (event === ROOM_EVENTS.answer) {
+        if (current?.hostId === currentUser.id) publish(addRoomAnswer(current, payload.answer));
+      }
+    };
+
+    const init = async () => {
+      const channel = await joinRoom(code, currentUser);
+      if (cancelled) {
+        channel?.leave();
+        return;
+      }
+      if (!channel) {
+        setStatus('error');
+        return;
+      }
+      channelRef.current = channel;
+      unsubscribers.push(channel.onMessage(handleMessage));
+      unsubscribers.push(channel.onMembers((list) => {
+        membersRef.current = list;
+        setMembers(list);
+      }));
+
+      if (hostCollectionId) {
+        const opened = await openRoom(code, currentUser, hostCollectionId);
+        if (cancelled) return;
+        if (!opened) {
+          setStatus('error');
+          return;
+        }
+        // Reloading from here on rejoins the room instead of opening a new lobby
+        window.history.replaceState(null, '', `#room/${code}`);
+        publish(opened);
+      } else {
+        channel.send(ROOM_EVENTS.hello, { userId: currentUser.id });
+      }
+      setStatus('joined');
+    };
+    init();
+
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach((u) => u());
+      channelRef.current?.leave();
+      channelRef.current = null;
+    };
+  }, [code, currentUser, hostCollectionId, adopt, publish, sendState]);
+
+  // Host: lock the round once everyone present has answered or the clock (plus grace) runs out
+  useEffect(() => {
+    if (!room || !isHost || room.phase !== 'question') return;
+    if (shouldLockRound(room, members)) {
+      publish(lockRoomRound(room));
+      return;
+    }
+    if (room.roundEndsAt === undefined) return;
+    const timer = setTimeout(() => {
+      const current = roomRef.current;
+      if (current && shouldLockRound(current, membersRef.current)) publish(lockRoomRound(current));
+    }, Math.max(0, room.roundEndsAt + ROOM_LOCK_GRACE_MS - Date.now()));
+    return () => clearTimeout(timer);
+  }, [room, members, isHost, publish]);
+
+  // New question: load it and start the backend clock (used for elapsed time and tie-breaks)
+  useEffect(() => {
+    if (!gameId) return;
+    let cancelled = false;
+    const current = roomRef.current;
+    setGame(null);
+    setAnswer(null);
+    setUserGuess(null);
+    setIsMapOpen(false);
+    setMyAnswer(current?.answers.find((a) => a.gameId === gameId && a.userId === currentUser.id) || null);
+
+    getGameById(gameId).then((g) => { if (!cancelled) setGame(g); });
+    if (current?.phase === 'question') startRound(gameId, currentUser.id, current.collectionId);
+    return () => { cancelled = true; };
+  }, [gameId, currentUser.id]);
+
+  // Reveal: the true location is only handed out to players who guessed
+  useEffect(() => {
+    if (room?.phase !== 'reveal' || !myAnswer || answer) return;
+    let cancelled = false;
+    getGameAnswer(myAnswer.gameId, currentUser.id).then((a) => { if (!cancelled) setAnswer(a); });
+    return () => { cancelled = true; };
+  }, [room?.phase, myAnswer, answer, currentUser.id]);
+
+  // Player: resend our answer if the host's state doesn't have it yet (message lost, host reloaded)
+  useEffect(() => {
+    if (!room || isHost || room.phase !== 'question' || !myAnswer) return;
+    if (!room.answers.some((a) => a.gameId === myAnswer.gameId && a.userId === currentUser.id)) {
+      channelRef.current?.send(ROOM_EVENTS.answer, { answer: myAnswer });
+    }
+  }, [room, isHost, myAnswer, currentUser.id]);
+
+  const handleSubmitGuess = async () => {
+    const current = roomRef.current;
+    if (!current || current.phase !== 'question' || !game || !userGuess || myAnswer || isSubmitting) return;
+    setIsSubmitting(true);
+
+    const saved = await submitGuess({
+      id: generateId(),
+      gameId: game.id,
+      userId: currentUser.id,
+      userName: currentUser.name,
+      userAvatarSeed: currentUser.avatarSeed,
+      location: userGuess,
+      collectionId: current.collectionId,
+    });
+    setIsSubmitting(false);
+    if (!saved) {
+      alert('提交失败，请重试');
+      return;
+    }
+
+    const mine: RoomAnswer = {
+      userId: currentUser.id,
+      userName: currentUser.name,
+      userAvatarSeed: currentUser.avatarSeed,
+      gameId: saved.gameId,
+      score: saved.score,
+      distance: saved.distance,
+      location: saved.location,
+      elapsedMs: saved.elapsedMs,
+    };
+    setMyAnswer(mine);
+    setIsMapOpen(false);
+
+    const latest = roomRef.current;
+    if (latest?.hostId === currentUser.id) publish(addRoomAnswer(latest, mine));
+    else channelRef.current?.send(ROOM_EVENTS.answer, { answer: mine });
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(`来和我一起玩地理猜谜！房间号 ${code}\n${roomShareUrl(code)}`);
+      setShareToast(true);
+      setTimeout(() => setShareToast(false), 2000);
+    } catch {
+      alert(roomShareUrl(code));
+    }
+  };
+
+  // ---- JOINING / ERROR ----
+  if (status !== 'joined' || !room) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center gap-4 p-6 text-center">
+        {status === 'error' ? (
+          <>
+            <div className="text-gray-400">无法进入房间，请检查网络后重试</div>
+            <button onClick={onExit} className="px-6 py-2 bg-gray-800 rounded-full text-sm">返回</button>
+          </>
+        ) : (
+          <>
+            <div className="w-12 h-12 border-4 border-orange-500 border-t-transparent rounded-full animate-spin" />
+            <div className="text-gray-400 text-sm">{status === 'joining' ? '正在进入房间...' : `等待房主同步房间 ${code}...`}</div>
+            <button onClick={onExit} className="text-xs text-gray-500">离开</button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const hostPresent = members.some((m) => m.userId === room.hostId);
+  const hostBanner = !hostPresent && room.phase !== 'finished' && (
+    <div className="bg-yellow-500/20 text-yellow-200 text-xs text-center py-1.5">房主已离开，等待重新连接...</div>
+  );
+  const standingEntries = roomStandings(room, members).map((s) => ({
+    userId: s.userId,
+    userName: s.userName,
+    score: s.totalScore,
+    note: `${s.answered}/${room.gameIds.length} 题`,
+  }));
+
+  // ---- LOBBY ----
+  if (room.phase === 'lobby') {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+        <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+          <button onClick={onExit} className="p-2 -ml-2"><IconClose /></button>
+          <h1 className="font-bold text-lg flex-1 truncate">多人房间 · {room.collectionName}</h1>
+        </div>
+        {hostBanner}
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="bg-gray-800 rounded-2xl p-5 text-center">
+            <div className="text-xs text-gray-400 mb-1">房间号</div>
+            <div className="text-4xl font-mono font-bold tracking-[0.3em] text-orange-400">{code}</div>
+            <button onClick={handleShare} className="mt-3 px-4 py-1.5 bg-gray-700 rounded-full text-xs text-gray-200">
+              {shareToast ? '✓ 已复制邀请链接' : '复制邀请链接'}
+            </button>
+          </div>
+
+          <div className="bg-gray-800 rounded-2xl p-4">
+            <h2 className="text-sm font-bold text-gray-300 mb-3">已加入（{members.length}）</h2>
+            <div className="flex flex-wrap gap-2">
+              {members.map((m) => (
+                <span key={m.userId} className={`px-3 py-1 rounded-full text-sm ${m.userId === currentUser.id ? 'bg-orange-500/20 text-orange-300' : 'bg-gray-700 text-gray-200'}`}>
+                  {m.userId === room.hostId && '👑 '}{m.userName}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-gray-800 rounded-2xl p-4">
+            <h2 className="text-sm font-bold text-gray-300 mb-1">每题时间</h2>
+            <p className="text-xs text-gray-500 mb-3">按集锦（或每道题）自己的限时；所有人都作答或时间到时，本题锁定并公布结果</p>
+            <div className="text-sm text-gray-200">{describeTimeLimits(room.timeLimits)}</div>
+          </div>
+        </div>
+
+        <div className="p-4 pb-8">
+          {isHost ? (
+            <button
+              onClick={() => publish(startRoomQuestion(room, 0))}
+              className="w-full py-4 bg-orange-500 rounded-2xl font-bold text-lg text-white active:scale-95 transition-transform"
+            >
+              开始（{room.gameIds.length} 道题）
+            </button>
+          ) : (
+            <div className="text-center text-gray-400 text-sm py-4">等待房主开始...</div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // ---- FINISHED ----
+  if (room.phase === 'finished') {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+        <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+          <button onClick={onExit} className="p-2 -ml-2"><IconClose /></button>
+          <h1 className="font-bold text-lg flex-1 truncate">{room.collectionName} · 最终排名</h1>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4">
+          <RoomLeaderboard entries={standingEntries} currentUserId={currentUser.id} />
+        </div>
+        <div className="p-4 pb-8">
+          <button
+            onClick={() => { window.location.hash = `#collection/${room.collectionId}`; }}
+            className="w-full py-3.5 bg-gray-800 rounded-2xl font-bold text-gray-300 border border-gray-700"
+          >
+            查看集锦
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const questionAnswers = roundAnswers(room);
+  const answeredIds = new Set(questionAnswers.map((a) => a.userId));
+
+  // ---- REVEAL (round locked) ----
+  if (room.phase === 'reveal') {
+    const isLast = room.index + 1 >= room.gameIds.length;
+    const roundGuesses: Guess[] = questionAnswers.map((a) => ({
+      id: `${a.gameId}:${a.userId}`,
+      gameId: a.gameId,
+      userId: a.userId,
+      userName: a.userName,
+      userAvatarSeed: a.userAvatarSeed,
+      location: a.location,
+      distance: a.distance,
+      score: a.score,
+      timestamp: 0,
+      elapsedMs: a.elapsedMs,
+    }));
+
+    return (
+      <div className="h-[100dvh] bg-gray-900 text-white flex flex-col">
+        <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+          <button onClick={onExit} className="p-2 -ml-2"><IconClose /></button>
+          <h1 className="font-bold flex-1 truncate">第 {room.index + 1}/{room.gameIds.length} 题 · 结果</h1>
+        </div>
+        {hostBanner}
+
+        <div className="h-[40vh] relative bg-gray-200 flex-shrink-0">
+          <GameMap
+            isOpen
+            interactive={false}
+            resetCenterKey={room.index}
+            actualLocation={answer?.location}
+            guesses={roundGuesses}
+            currentUserId={currentUser.id}
+          />
+          {!myAnswer && (
+            <div className="absolute top-2 inset-x-0 flex justify-center z-[1000] pointer-events-none">
+              <span className="bg-black/70 text-white text-xs px-3 py-1 rounded-full">你本题未作答，答案暂不公开</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <h2 className="text-sm font-bold text-gray-300 mb-2">本题排名</h2>
+            <RoomLeaderboard
+              entries={questionAnswers.map((a) => ({
+                userId: a.userId,
+                userName: a.userName,
+                score: a.score,
+                note: a.elapsedMs !== undefined ? `${formatDist(a.distance)} · ${formatElapsed(a.elapsedMs)}` : formatDist(a.distance),
+              }))}
+              currentUserId={currentUser.id}
+              emptyText="本题无人作答"
+            />
+          </div>
+          <div>
+            <h2 className="text-sm font-bold text-gray-300 mb-2">总排名</h2>
+            <RoomLeaderboard entries={standingEntries} currentUserId={currentUser.id} />
+          </div>
+        </div>
+
+        <div className="p-4 pb-6 border-t border-gray-800">
+          {isHost ? (
+            <button
+              onClick={() => publish(advanceRoom(room))}
+              className="w-full py-3.5 bg-orange-500 rounded-2xl font-bold text-white active:scale-95 transition-transform"
+            >
+              {isLast ? '查看最终排名' : '下一题 →'}
+            </button>
+          ) : (
+            <div className="text-center text-gray-400 text-sm py-2">等待房主进入下一题...</div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // ---- QUESTION ----
+  return (
+    <div className="relative w-full h-[100dvh] bg-black overflow-hidden flex flex-col">
+      {/* Header */}
+      <div className="absolute top-0 w-full z-20">
+        {hostBanner}
+        <div className="h-14 bg-gradient-to-b from-black/70 to-transparent flex items-center justify-between px-4 pointer-events-none">
+          <button onClick={onExit} className="pointer-events-auto p-2 bg-black/30 rounded-full text-white backdrop-blur"><IconClose /></button>
+          <span className="text-white text-sm font-bold">第 {room.index + 1}/{room.gameIds.length} 题</span>
+          <div className="flex items-center gap-2">
+            <RestrictionBadges restrictions={game?.restrictions} className="justify-end" />
+            {deadline !== null && !myAnswer && (
+              <div className="pointer-events-auto">
+                <RoundTimer
+                  key={`${room.index}:${deadline}`}
+                  deadline={deadline}
+                  timeLimitSec={roomTimeLimit(room) || 1}
+                  onExpire={handleSubmitGuess} // a pin on the map still counts; no pin = no answer
+                />
+              </div>
+            )}
+          </div>
+        </div>
+        {/* Who has answered */}
+        <div className="flex flex-wrap gap-1.5 px-4 pointer-events-none">
+          {members.map((m) => (
+            <span key={m.userId} className={`px-2 py-0.5 rounded-full text-[11px] ${answeredIds.has(m.userId) ? 'bg-green-500/30 text-green-200' : 'bg-black/40 text-white/60'}`}>
+              {answeredIds.has(m.userId) ? '✓ ' : ''}{m.userName}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Image (restrictions apply, as in single play) */}
+      <div className="flex-1 flex items-center justify-center relative bg-black">
+        {game ? (
+          <ImageViewer src={game.imageUrl} previewSrc={game.mediumUrl} restrictions={game.restrictions} photos={game.photos} />
+        ) : (
+          <div className="w-full h-full bg-gray-800 animate-pulse" />
+        )}
+      </div>
+
+      {/* Submitted: wait for the round to lock */}
+      {myAnswer ? (
+        <div className="absolute bottom-0 left-0 right-0 z-20 p-4">
+          <div className="bg-gray-900/95 backdrop-blur-md rounded-2xl border border-white/10 p-4 text-center">
+            <div className="text-white font-bold">
+              {myAnswer.hidden ? '已提交' : `已提交 · ${myAnswer.score.toLocaleString()} 分`}
+            </div>
+            <div className="text-xs text-gray-400 mt-1">等待其他人作答（{answeredIds.size}/{members.length}）</div>
+          </div>
+        </div>
+      ) : !isMapOpen && (
+        <div className="absolute bottom-8 w-full flex justify-end px-6 z-20">
+          <button
+            onClick={() => setIsMapOpen(true)}
+            className="w-16 h-16 bg-orange-500 rounded-full text-white flex items-center justify-center shadow-xl border-4 border-white/20 hover:scale-110 transition"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="1 6 1 22 8 18 16 22 23 18 23 2 16 6 8 2 1 6"/><line x1="8" y1="2" x2="8" y2="18"/><line x1="16" y1="6" x2="16" y2="22"/></svg>
+          </button>
+        </div>
+      )}
+
+      {/* Backdrop (closes map) */}
+      {isMapOpen && (
+        <div className="fixed inset-0 z-[25] bg-black/20" onClick={() => setIsMapOpen(false)} onTouchStart={() => setIsMapOpen(false)} />
+      )}
+
+      {/* Map sheet */}
+      <div
+        className={`absolute bottom-0 w-full bg-gray-900 rounded-t-3xl transition-all duration-300 ease-out z-[30] shadow-2xl flex flex-col overflow-hidden ${isMapOpen && !myAnswer ? 'h-[80%]' : 'h-0'}`}
+        onClick={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={() => setIsMapOpen(false)}
+          className="absolute top-3 right-4 w-8 h-8 bg-black/60 rounded-full text-white z-[1100] flex items-center justify-center"
+        >
+          <IconClose />
+        </button>
+        <div className="flex-1 relative bg-gray-200">
+          <GameMap
+            resetCenterKey={room.index}
+            isOpen={isMapOpen}
+            interactive
+            onLocationSelect={setUserGuess}
+            selectedLocation={userGuess}
+            currentUserId={currentUser.id}
+          />
+          <div className="absolute bottom-8 w-full flex justify-center px-4 pointer-events-none z-[1000]">
+            <button
+              onClick={handleSubmitGuess}
+              disabled={!userGuess || isSubmitting}
+              className="pointer-events-auto w-full max-w-sm bg-orange-600 text-white font-bold py-3 rounded-xl shadow-lg disabled:bg-gray-600"
+            >
+              {isSubmitting ? '提交中...' : '确定选择'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MultiplayerRoom;
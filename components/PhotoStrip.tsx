@@ -0,0 +1,52 @@
+import React from 'react';
+
+interface Props {
+  photos: string[]; // data URLs, in publish order (the first is the cover)
+  activeIndex: number;
+  maxPhotos: number;
+  onSelect: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+  onAdd: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+// Thumbnail row for the create flow: pick which photo to edit, reorder, remove, add more
+const PhotoStrip: React.FC<Props> = ({ photos, activeIndex, maxPhotos, onSelect, onMove, onRemove, onAdd }) => {
+  const arrow = 'w-6 h-6 rounded-full bg-black/60 text-white text-xs flex items-center justify-center disabled:opacity-30';
+
+  return (
+    <div className="flex items-end gap-2 overflow-x-auto">
+      {photos.map((photo, i) => {
+        const isActive = i === activeIndex;
+        return (
+          <div key={i} className="flex flex-col items-center gap-1 flex-shrink-0">
+            <button
+              onClick={() => onSelect(i)}
+              className={`relative w-14 h-14 rounded-lg overflow-hidden border-2 ${isActive ? 'border-orange-500' : 'border-white/20'}`}
+            >
+              <img src={photo} alt={`照片 ${i + 1}`} className="w-full h-full object-cover" />
+              {i === 0 && (
+                <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] text-white text-center">封面</span>
+              )}
+            </button>
+            {isActive && photos.length > 1 && (
+              <div className="flex gap-1">
+                <button onClick={() => onMove(i, i - 1)} disabled={i === 0} className={arrow}>‹</button>
+                <button onClick={() => onRemove(i)} className={arrow}>✕</button>
+                <button onClick={() => onMove(i, i + 1)} disabled={i === photos.length - 1} className={arrow}>›</button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {photos.length < maxPhotos && (
+        <label className="w-14 h-14 flex-shrink-0 rounded-lg border-2 border-dashed border-white/30 text-white/60 flex items-center justify-center text-2xl cursor-pointer">
+          +
+          <input type="file" accept="image/*" multiple onChange={onAdd} className="hidden" />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default PhotoStrip;
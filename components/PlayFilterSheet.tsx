@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { DifficultyLevel, GameFilter, GameRegion } from '../types';
+import { DIFFICULTY_LABELS } from '../services/difficultyService';
+import { getGameRegions } from '../services/playFilterService';
+import { snapBounds } from '../services/geocodingService';
+import { getPopularTags } from '../services/tagService';
+import GameMap from './GameMap';
+
+interface Props {
+  value: GameFilter;
+  onSave: (filter: GameFilter) => void;
+  onClose: () => void;
+}
+
+const LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+const chip = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap border transition ${
+    active ? 'bg-orange-500 border-orange-500 text-white' : 'bg-black/40 border-white/20 text-gray-300'
+  }`;
+
+// Full-screen sheet for the random play filters: region, tag, difficulty and a box drawn on the map
+const PlayFilterSheet: React.FC<Props> = ({ value, onSave, onClose }) => {
+  const [filter, setFilter] = useState<GameFilter>(value);
+  const [regions, setRegions] = useState<GameRegion[]>([]);
+  const [tags, setTags] = useState<string[]>([]); // tags used on games
+  const [drawing, setDrawing] = useState(false);
+
+  useEffect(() => {
+    getGameRegions().then(setRegions);
+    getPopularTags().then((list) => setTags(list.filter((t) => t.games > 0).map((t) => t.tag)));
+  }, []);
+
+  // Countries ordered by how many games they have in total
+  const countryTotals = new Map<string, number>();
+  regions.forEach((r) => countryTotals.set(r.country, (countryTotals.get(r.country) || 0) + r.games));
+  const countries = Array.from(countryTotals.entries()).sort((a, b) => b[1] - a[1]);
+  const provinces = regions.filter((r) => r.country === filter.country && r.province);
+
+  const toggleLevel = (level: DifficultyLevel) => {
+    const current = filter.difficulty || [];
+    const next = current.includes(level) ? current.filter((l) => l !== level) : [...current, level];
+    setFilter({ ...filter, difficulty: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-gray-900 text-white flex flex-col">
+      <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+        <button onClick={onClose} className="p-2 -ml-2">
+          <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"/></svg>
+        </button>
+        <h1 className="font-bold text-lg flex-1 truncate">试玩筛选</h1>
+        <button onClick={() => setFilter({})} className="text-sm text-gray-400">重置</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5 pb-6">
+        {/* Region */}
+        <div>
+          <h2 className="text-sm font-bold text-gray-300 mb-2">地区</h2>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setFilter({ ...filter, country: undefined, province: undefined })} className={chip(!filter.country)}>
+              不限
+            </button>
+            {countries.map(([country, games]) => (
+              <button
+                key={country}
+                onClick={() => setFilter({ ...filter, country, province: undefined })}
+                className={chip(filter.country === country)}
+              >
+                {country} <span className="opacity-60">{games}</span>
+              </button>
+            ))}
+          </div>
+          {provinces.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2 pl-3 border-l-2 border-gray-700">
+              <button onClick={() => setFilter({ ...filter, province: undefined })} className={chip(!filter.province)}>
+                全部
+              </button>
+              {provinces.map((r) => (
+                <button
+                  key={r.province}
+                  onClick={() => setFilter({ ...filter, province: r.province })}
+                  className={chip(filter.province === r.province)}
+                >
+                  {r.province} <span className="opacity-60">{r.games}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {/* The saved choice may name a region no longer in the list; keep it visible */}
+          {filter.country && !countryTotals.has(filter.country) && (
+            <div className="text-[11px] text-gray-500 mt-2">已选：{filter.country}{filter.province ? ` · ${filter.province}` : ''}</div>
+          )}
+        </div>
+
+        {/* Tag */}
+        {(tags.length > 0 || filter.tag) && (
+          <div>
+            <h2 className="text-sm font-bold text-gray-300 mb-2">标签</h2>
+            <div className="flex flex-wrap gap-2">
+              <button onClick={() => setFilter({ ...filter, tag: undefined })} className={chip(!filter.tag)}>
+                不限
+              </button>
+              {(filter.tag && !tags.includes(filter.tag) ? [filter.tag, ...tags] : tags).map((tag) => (
+                <button key={tag} onClick={() => setFilter({ ...filter, tag })} className={chip(filter.tag === tag)}>
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Difficulty */}
+        <div>
+          <h2 className="text-sm font-bold text-gray-300 mb-2">难度</h2>
+          <div className="flex gap-2">
+            <button onClick={() => setFilter({ ...filter, difficulty: undefined })} className={chip(!filter.difficulty)}>
+              不限
+            </button>
+            {LEVELS.map((level) => (
+              <button key={level} onClick={() => toggleLevel(level)} className={chip(!!filter.difficulty?.includes(level))}>
+                {DIFFICULTY_LABELS[level]}
+              </button>
+            ))}
+          </div>
+          {filter.difficulty && <div className="text-[11px] text-gray-500 mt-2">还没有评出难度的新题不会出现</div>}
+        </div>
+
+        {/* Map box */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-sm font-bold text-gray-300">地图范围</h2>
+            <div className="flex gap-2">
+              {filter.bounds && (
+                <button onClick={() => setFilter({ ...filter, bounds: undefined })} className={chip(false)}>
+                  清除
+                </button>
+              )}
+              <button onClick={() => setDrawing(!drawing)} className={chip(drawing)}>
+                {drawing ? '完成框选' : '✏️ 框选'}
+              </button>
+            </div>
+          </div>
+          <div className="h-72 rounded-2xl overflow-hidden">
+            <GameMap
+              interactive={false}
+              isOpen
+              drawBounds={drawing}
+              bounds={filter.bounds}
+              onBoundsDraw={(bounds) => {
+                setFilter((f) => ({ ...f, bounds: snapBounds(bounds) }));
+                setDrawing(false);
+              }}
+            />
+          </div>
+          <div className="text-[11px] text-gray-500 mt-2">
+            {drawing ? '在地图上拖动画出一个方框' : '点"框选"后在地图上拖动，只出答案在框内的题（方框按 5° 网格取整）'}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-gray-800 flex-shrink-0">
+        <button
+          onClick={() => onSave(filter)}
+          className="w-full py-3 bg-gradient-to-r from-orange-500 to-amber-500 rounded-2xl font-bold active:scale-95 transition-transform"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlayFilterSheet;
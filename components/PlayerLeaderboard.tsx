@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { User, LeaderboardMetric, PlayerRanking } from '../types';
+import {
+  AVERAGE_MIN_GAMES,
+  LeaderboardPeriod,
+  getMyPlayerRanking,
+  getPlayerLeaderboardPage,
+} from '../services/leaderboardService';
+import { getPlayerLevels } from '../services/profileService';
+import LevelBadge from './LevelBadge';
+
+interface Props {
+  currentUser: User;
+  onBack: () => void;
+}
+
+const PERIODS: { id: LeaderboardPeriod; label: string }[] = [
+  { id: 'all', label: '总榜' },
+  { id: 'week', label: '近 7 天' },
+];
+
+const METRICS: { id: LeaderboardMetric; label: string }[] = [
+  { id: 'total', label: '总分' },
+  { id: 'average', label: '场均得分' },
+  { id: 'games', label: '答题数' },
+];
+
+const medals = ['🥇', '🥈', '🥉'];
+
+const metricValue = (row: PlayerRanking, metric: LeaderboardMetric): string =>
+  metric === 'average'
+    ? `${Math.round(row.averageScore).toLocaleString()} 分`
+    : metric === 'games'
+      ? `${row.gamesPlayed} 题`
+      : `${row.totalScore.toLocaleString()} 分`;
+
+const openProfile = (userId: string) => {
+  window.location.hash = `#profile/${userId}`;
+};
+
+// #leaderboard: every player ranked across all their guesses, all-time or over the last 7 days
+const PlayerLeaderboard: React.FC<Props> = ({ currentUser, onBack }) => {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('all');
+  const [metric, setMetric] = useState<LeaderboardMetric>('total');
+  const [rows, setRows] = useState<PlayerRanking[]>([]);
+  const [myRecord, setMyRecord] = useState<PlayerRanking | null>(null);
+  const [levels, setLevels] = useState<Record<string, number>>({});
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [now, setNow] = useState(Date.now()); // fixed per board so later pages use the same weekly window
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      const boardNow = Date.now();
+      const [first, mine] = await Promise.all([
+        getPlayerLeaderboardPage(period, metric, 0, boardNow),
+        getMyPlayerRanking(currentUser.id, period, metric, boardNow),
+      ]);
+      if (cancelled) return;
+      setNow(boardNow);
+      setRows(first.rows);
+      setHasMore(first.hasMore);
+      setPage(0);
+      setMyRecord(mine);
+      setLoading(false);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [period, metric, currentUser.id]);
+
+  const userIdsKey = [...rows.map((r) => r.userId), myRecord?.userId].filter(Boolean).join(',');
+  useEffect(() => {
+    if (!userIdsKey) return;
+    let cancelled = false;
+    getPlayerLevels(userIdsKey.split(',')).then((result) => { if (!cancelled) setLevels(result); });
+    return () => { cancelled = true; };
+  }, [userIdsKey]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    const next = await getPlayerLeaderboardPage(period, metric, page + 1, now);
+    setRows((prev) => [...prev, ...next.rows]);
+    setHasMore(next.hasMore);
+    setPage(page + 1);
+    setLoadingMore(false);
+  };
+
+  const myRowLoaded = !!myRecord && rows.some((r) => r.userId === myRecord.userId);
+
+  const renderRow = (row: PlayerRanking) => {
+    const isMe = row.userId === currentUser.id;
+    return (
+      <div
+        key={row.userId}
+        className={`flex items-center gap-3 px-4 py-3 rounded-xl ${
+          isMe ? 'bg-orange-500/20 border border-orange-500/40' : 'bg-gray-800'
+        }`}
+      >
+        <span className="w-8 text-center text-sm font-bold flex-shrink-0">
+          {row.rank <= 3 ? medals[row.rank - 1] : <span className="text-gray-400">{row.rank}</span>}
+        </span>
+        <img
+          src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${row.avatarSeed}&backgroundColor=b6e3f4`}
+          className="w-8 h-8 rounded-full bg-gray-700 flex-shrink-0"
+          alt=""
+        />
+        <button
+          onClick={() => openProfile(row.userId)}
+          className={`flex-1 min-w-0 text-left text-sm font-medium truncate ${isMe ? 'text-orange-300' : 'text-gray-200'}`}
+        >
+          {row.userName}
+          <LevelBadge level={levels[row.userId]} className="ml-1" />
+          {isMe && <span className="text-xs ml-1 text-orange-400">（你）</span>}
+        </button>
+        <span className={`font-bold text-sm whitespace-nowrap ${isMe ? 'text-orange-400' : 'text-gray-300'}`}>
+          {metricValue(row, metric)}
+        </span>
+      </div>
+    );
+  };
+
+  const tabClass = (active: boolean) =>
+    `flex-1 py-2 rounded-xl text-sm font-bold transition-colors ${active ? 'bg-orange-500 text-white' : 'text-gray-400'}`;
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+      active ? 'bg-white/10 border-white/30 text-white' : 'border-gray-700 text-gray-400'
+    }`;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+        <button onClick={onBack} className="p-2 -ml-2">
+          <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"/></svg>
+        </button>
+        <h1 className="font-bold text-lg flex-1 truncate">🏆 玩家排行榜</h1>
+      </div>
+
+      <div className="p-4 space-y-3 border-b border-gray-800">
+        <div className="flex bg-gray-800 rounded-2xl p-1">
+          {PERIODS.map((p) => (
+            <button key={p.id} onClick={() => setPeriod(p.id)} className={tabClass(period === p.id)}>
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {METRICS.map((m) => (
+            <button key={m.id} onClick={() => setMetric(m.id)} className={chipClass(metric === m.id)}>
+              {m.label}
+            </button>
+          ))}
+        </div>
+        {metric === 'average' && (
+          <div className="text-[11px] text-gray-500">
+            {period === 'week' ? '近 7 天' : '累计'}答满 {AVERAGE_MIN_GAMES[period]} 题才参与场均排名
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2 pb-28">
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <div className="w-8 h-8 border-4 border-orange-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-10 text-gray-500 text-sm">
+            {period === 'week' ? '最近 7 天还没有人上榜' : '还没有人上榜'}
+          </div>
+        ) : (
+          <>
+            {rows.map(renderRow)}
+            {hasMore && (
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="w-full py-3 text-sm text-gray-400 disabled:opacity-50"
+              >
+                {loadingMore ? '加载中...' : '加载更多'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Viewer's own rank, pinned while it isn't among the loaded rows */}
+      {!loading && (
+        <div className="fixed bottom-0 left-0 right-0 p-4 bg-gray-900 border-t border-gray-800">
+          {myRecord && !myRowLoaded ? (
+            renderRow(myRecord)
+          ) : !myRecord ? (
+            <div className="text-center text-gray-500 text-sm py-2">
+              {metric === 'average' ? '答题数还不够，暂未参与场均排名' : period === 'week' ? '最近 7 天还没有答题，快去玩一局吧' : '还没有答题记录，快去玩一局吧'}
+            </div>
+          ) : (
+            <div className="text-center text-gray-400 text-sm py-2">你排在第 {myRecord.rank} 名</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlayerLeaderboard;
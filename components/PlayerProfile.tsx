@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { User, Guess } from '../types';
+import { PlayerProfile as Profile, getPlayerProfile } from '../services/profileService';
+import { AchievementShelfItem, evaluateAchievements, getAchievementShelf } from '../services/achievementService';
+import LevelBadge from './LevelBadge';
+
+interface Props {
+  userId: string;
+  currentUser: User;
+  onBack: () => void;
+}
+
+const formatDist = (m: number | null) =>
+  m === null ? '—' : m < 1000 ? `${Math.round(m)}m` : `${(m / 1000).toFixed(1)}km`;
+
+// #profile[/<userId>]: level, XP and lifetime stats derived from the player's guesses
+const PlayerProfile: React.FC<Props> = ({ userId, currentUser, onBack }) => {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [shelf, setShelf] = useState<AchievementShelfItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const isMe = userId === currentUser.id;
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      // Own profile: pick up anything earned before achievements existed
+      if (isMe) await evaluateAchievements(userId);
+      const [p, s] = await Promise.all([getPlayerProfile(userId), getAchievementShelf(userId)]);
+      setProfile(p);
+      setShelf(s);
+      setLoading(false);
+    };
+    load();
+  }, [userId, isMe]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center text-white">
+        <div className="w-10 h-10 border-4 border-orange-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center gap-4 p-6 text-center">
+        <div className="text-gray-400">找不到这位玩家</div>
+        <button onClick={onBack} className="px-6 py-2 bg-gray-800 rounded-full text-sm">返回</button>
+      </div>
+    );
+  }
+
+  const { user, xp, levelInfo } = profile;
+  const progressPct = Math.min(100, Math.round((levelInfo.xpIntoLevel / levelInfo.xpForLevel) * 100));
+
+  // Own best guesses link to their review; other players' reviews would reveal answers
+  const guessStat = (label: string, guess: Guess | null, value: string) => (
+    <button
+      onClick={isMe && guess ? () => { window.location.hash = `#review/${guess.gameId}`; } : undefined}
+      disabled={!isMe || !guess}
+      className="bg-gray-800 rounded-2xl p-4 text-left disabled:cursor-default"
+    >
+      <div className="text-xs text-gray-400">{label}</div>
+      <div className="text-xl font-bold mt-1">{value}</div>
+      {isMe && guess && <div className="text-[11px] text-blue-400 mt-1">查看这一题 →</div>}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+        <button onClick={onBack} className="p-2 -ml-2">
+          <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"/></svg>
+        </button>
+        <h1 className="font-bold text-lg flex-1 truncate">{isMe ? '我的档案' : '玩家档案'}</h1>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Identity + level */}
+        <div className="bg-gradient-to-br from-sky-500/20 to-indigo-500/10 border border-sky-500/30 rounded-3xl p-5 text-center">
+          <img
+            src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${user.avatarSeed}&backgroundColor=b6e3f4`}
+            className="w-20 h-20 rounded-full border-2 border-sky-400/60 bg-gray-800 mx-auto"
+            alt="avatar"
+          />
+          <div className="mt-3 text-xl font-bold">
+            {user.name}
+            {isMe && <span className="text-xs ml-1 text-orange-400">（你）</span>}
+          </div>
+          <div className="mt-2 flex items-center justify-center gap-2">
+            <LevelBadge level={levelInfo.level} className="text-xs px-2 py-0.5" />
+            <span className="text-xs text-gray-400">累计 {xp.toLocaleString()} XP</span>
+          </div>
+          <div className="mt-4">
+            <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+              <div className="h-full bg-sky-400 rounded-full" style={{ width: `${progressPct}%` }} />
+            </div>
+            <div className="text-[11px] text-gray-500 mt-1">
+              距离 Lv.{levelInfo.level + 1} 还差 {(levelInfo.xpForLevel - levelInfo.xpIntoLevel).toLocaleString()} XP
+            </div>
+          </div>
+        </div>
+
+        {/* Streaks + volume */}
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-gray-800 rounded-2xl p-4 text-center">
+            <div className="text-2xl font-bold text-orange-400">🔥 {profile.currentStreak}</div>
+            <div className="text-xs text-gray-400 mt-1">连续答题天数</div>
+          </div>
+          <div className="bg-gray-800 rounded-2xl p-4 text-center">
+            <div className="text-2xl font-bold">{profile.bestStreak}</div>
+            <div className="text-xs text-gray-400 mt-1">最长连续</div>
+          </div>
+          <div className="bg-gray-800 rounded-2xl p-4 text-center">
+            <div className="text-2xl font-bold">{profile.gamesPlayed}</div>
+            <div className="text-xs text-gray-400 mt-1">答题数</div>
+          </div>
+        </div>
+
+        {/* Personal bests */}
+        <div className="grid grid-cols-2 gap-3">
+          {guessStat('单题最高分', profile.bestGuess, profile.bestGuess ? profile.bestGuess.score.toLocaleString() : '—')}
+          {guessStat('最准的一次', profile.closestGuess, formatDist(profile.closestGuess?.distance ?? null))}
+          <div className="bg-gray-800 rounded-2xl p-4 col-span-2">
+            <div className="text-xs text-gray-400">平均误差</div>
+            <div className="text-xl font-bold mt-1">{formatDist(profile.averageErrorM)}</div>
+            <div className="text-[11px] text-gray-500 mt-1">超时未落点的题目不计入</div>
+          </div>
+        </div>
+
+        {/* Badge shelf */}
+        <div className="bg-gray-800 rounded-2xl p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-bold text-gray-300">成就</h2>
+            <span className="text-xs text-gray-500">
+              {shelf.filter((item) => item.unlocked).length}/{shelf.length}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {shelf.map(({ achievement, unlocked }) => (
+              <div
+                key={achievement.id}
+                className={`flex items-center gap-2.5 rounded-xl p-2.5 ${
+                  unlocked ? 'bg-yellow-500/10 border border-yellow-500/30' : 'bg-gray-900/60 border border-gray-700/60'
+                }`}
+              >
+                <span className={`text-2xl ${unlocked ? '' : 'grayscale opacity-30'}`}>{achievement.icon}</span>
+                <div className="min-w-0">
+                  <div className={`text-xs font-bold truncate ${unlocked ? 'text-yellow-300' : 'text-gray-500'}`}>
+                    {achievement.title}
+                  </div>
+                  <div className="text-[10px] text-gray-500 leading-tight">{achievement.description}</div>
+                  {unlocked && (
+                    <div className="text-[10px] text-yellow-500/70 mt-0.5">
+                      {new Date(unlocked.unlockedAt).toLocaleDateString()} 解锁
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {profile.gamesPlayed === 0 && (
+          <div className="text-center text-gray-500 text-sm py-4">还没有答题记录</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerProfile;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { ViewRestrictions } from '../types';
+import { describeRestrictions } from '../services/restrictionService';
+
+interface Props {
+  restrictions?: ViewRestrictions;
+  className?: string;
+}
+
+// Small badges naming a challenge's viewing restrictions; renders nothing for free viewing
+const RestrictionBadges: React.FC<Props> = ({ restrictions, className = '' }) => {
+  const labels = describeRestrictions(restrictions);
+  if (labels.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {labels.map((label) => (
+        <span
+          key={label}
+          className="px-2 py-0.5 rounded-full text-[10px] font-medium bg-purple-500/20 border border-purple-400/40 text-purple-200 whitespace-nowrap"
+        >
+          🔒 {label}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default RestrictionBadges;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { ViewRestrictions } from '../types';
+import { RESTRICTION_OPTIONS, hasRestriction, toggleRestriction } from '../services/restrictionService';
+
+interface Props {
+  value?: ViewRestrictions; // unset = free viewing
+  onChange: (value: ViewRestrictions | undefined) => void;
+}
+
+// Row of toggle chips for challenge viewing restrictions; several may be combined
+const RestrictionPicker: React.FC<Props> = ({ value, onChange }) => {
+  const chip = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap border transition ${
+      active ? 'bg-orange-500 border-orange-500 text-white' : 'bg-black/40 border-white/20 text-gray-300'
+    }`;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto">
+      <button onClick={() => onChange(undefined)} className={chip(!value)}>
+        自由查看
+      </button>
+      {RESTRICTION_OPTIONS.map(({ key, label }) => (
+        <button key={key} onClick={() => onChange(toggleRestriction(value, key))} className={chip(hasRestriction(value, key))}>
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default RestrictionPicker;
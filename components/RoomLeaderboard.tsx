@@ -0,0 +1,53 @@
+import React from 'react';
+
+export interface RoomLeaderboardEntry {
+  userId: string;
+  userName: string;
+  score: number;
+  note?: string; // e.g. distance + time for a round, answered count for totals
+}
+
+interface Props {
+  entries: RoomLeaderboardEntry[]; // already ranked
+  currentUserId: string;
+  emptyText?: string;
+}
+
+const medals = ['🥇', '🥈', '🥉'];
+
+// Live ranking inside a multiplayer room (per round or running total)
+const RoomLeaderboard: React.FC<Props> = ({ entries, currentUserId, emptyText = '还没有人作答' }) => {
+  if (entries.length === 0) {
+    return <div className="text-center py-4 text-gray-500 text-sm">{emptyText}</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry, index) => {
+        const isMe = entry.userId === currentUserId;
+        return (
+          <div
+            key={entry.userId}
+            className={`flex items-center gap-3 px-4 py-2.5 rounded-xl ${
+              isMe ? 'bg-orange-500/20 border border-orange-500/40' : 'bg-gray-800'
+            }`}
+          >
+            <span className="w-6 text-center text-sm font-bold">
+              {index < 3 ? medals[index] : <span className="text-gray-400">{index + 1}</span>}
+            </span>
+            <span className={`flex-1 text-sm font-medium truncate ${isMe ? 'text-orange-300' : 'text-gray-200'}`}>
+              {entry.userName}
+              {isMe && <span className="text-xs ml-1 text-orange-400">（你）</span>}
+            </span>
+            {entry.note && <span className="text-xs text-gray-500">{entry.note}</span>}
+            <span className={`font-bold text-sm ${isMe ? 'text-orange-400' : 'text-gray-300'}`}>
+              {entry.score.toLocaleString()} 分
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RoomLeaderboard;
@@ -0,0 +1,49 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface Props {
+  deadline: number; // local Date.now() at which time is up
+  timeLimitSec: number;
+  onExpire: () => void;
+}
+
+// Countdown pill for timed rounds. Fires onExpire once when it reaches 0.
+// The deadline is derived from the backend clock (startRound), so a reload resumes, not restarts.
+const RoundTimer: React.FC<Props> = ({ deadline, timeLimitSec, onExpire }) => {
+  const [remainingMs, setRemainingMs] = useState(() => Math.max(0, deadline - Date.now()));
+  // Always call the latest handler: it reads the current pin from the parent's state
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    let fired = false;
+    const tick = () => {
+      const left = Math.max(0, deadline - Date.now());
+      setRemainingMs(left);
+      if (left === 0 && !fired) {
+        fired = true;
+        onExpireRef.current();
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const seconds = Math.ceil(remainingMs / 1000);
+  const urgent = seconds <= 10;
+  const fraction = Math.min(1, remainingMs / (timeLimitSec * 1000));
+
+  return (
+    <div className={`relative overflow-hidden rounded-full px-3 py-1 text-sm font-bold backdrop-blur border ${
+      urgent ? 'bg-red-600/70 border-red-400 text-white animate-pulse' : 'bg-black/50 border-white/20 text-white'
+    }`}>
+      <div
+        className={`absolute inset-y-0 left-0 ${urgent ? 'bg-red-400/30' : 'bg-orange-500/30'}`}
+        style={{ width: `${fraction * 100}%` }}
+      />
+      <span className="relative">⏱ {seconds}s</span>
+    </div>
+  );
+};
+
+export default RoundTimer;
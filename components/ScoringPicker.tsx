@@ -0,0 +1,41 @@
+import React from 'react';
+import { ScoringProfile } from '../types';
+import { DEFAULT_SCORING, SCORING_OPTIONS, describeScoring } from '../services/scoringService';
+
+interface Props {
+  value?: ScoringProfile; // unset = world, or inherit when inheritLabel is given
+  onChange: (value: ScoringProfile | undefined) => void;
+  options?: ScoringProfile[];
+  inheritLabel?: string; // adds a leading chip that clears the choice (e.g. collections following each game)
+}
+
+const sameProfile = (a?: ScoringProfile, b?: ScoringProfile) =>
+  a?.curve === b?.curve && (a?.curve !== 'linear' || a?.radiusKm === b?.radiusKm);
+
+// Row of chips for choosing a scoring curve (see services/scoringService.ts)
+const ScoringPicker: React.FC<Props> = ({ value, onChange, options = SCORING_OPTIONS, inheritLabel }) => {
+  const chip = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap border transition ${
+      active ? 'bg-orange-500 border-orange-500 text-white' : 'bg-black/40 border-white/20 text-gray-300'
+    }`;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto">
+      {inheritLabel && (
+        <button onClick={() => onChange(undefined)} className={chip(!value)}>
+          {inheritLabel}
+        </button>
+      )}
+      {options.map((option) => {
+        const active = inheritLabel ? sameProfile(value, option) : sameProfile(value || DEFAULT_SCORING, option);
+        return (
+          <button key={describeScoring(option)} onClick={() => onChange(option)} className={chip(active)}>
+            {describeScoring(option)}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ScoringPicker;
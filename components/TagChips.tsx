@@ -0,0 +1,31 @@
+import React from 'react';
+import { tagHash } from '../services/tagService';
+
+interface Props {
+  tags?: string[];
+  className?: string;
+}
+
+// "#tag" links for cards and headers; each opens that tag's page
+const TagChips: React.FC<Props> = ({ tags, className = '' }) => {
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          onClick={(e) => {
+            e.stopPropagation(); // cards are clickable too
+            window.location.hash = tagHash(tag);
+          }}
+          className="px-1.5 py-px rounded text-[10px] bg-sky-500/15 border border-sky-400/30 text-sky-200 whitespace-nowrap"
+        >
+          #{tag}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TagChips;
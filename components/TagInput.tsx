@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { MAX_TAGS, MAX_TAG_LENGTH, addTag, getPopularTags } from '../services/tagService';
+
+interface Props {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const SUGGESTION_COUNT = 8;
+
+// Tag editor for the create screens: typed tags become chips on Enter / space / comma,
+// and the most used tags are offered while the field has focus
+const TagInput: React.FC<Props> = ({ value, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [popular, setPopular] = useState<string[]>([]);
+
+  useEffect(() => {
+    getPopularTags(SUGGESTION_COUNT * 2).then((list) => setPopular(list.map((t) => t.tag)));
+  }, []);
+
+  const commit = () => {
+    if (draft.trim()) onChange(addTag(value, draft));
+    setDraft('');
+  };
+
+  const full = value.length >= MAX_TAGS;
+  const suggestions = popular.filter((t) => !value.includes(t) && t.includes(draft.trim().toLowerCase())).slice(0, SUGGESTION_COUNT);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1.5 bg-black/40 border border-white/20 rounded-2xl px-2 py-1.5">
+        {value.map((tag) => (
+          <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-sky-500/20 text-sky-200 text-xs">
+            #{tag}
+            <button onClick={() => onChange(value.filter((t) => t !== tag))} className="px-1 text-sky-300/70">×</button>
+          </span>
+        ))}
+        {!full && (
+          <input
+            type="text"
+            value={draft}
+            maxLength={MAX_TAG_LENGTH + 1}
+            placeholder={value.length === 0 ? `添加标签（最多 ${MAX_TAGS} 个）` : '添加'}
+            onChange={(e) => {
+              // Separators typed or pasted in commit what came before them
+              const parts = e.target.value.split(/[\s,，]/);
+              if (parts.length > 1) {
+                onChange(parts.slice(0, -1).reduce(addTag, value));
+                setDraft(parts[parts.length - 1]);
+              } else {
+                setDraft(e.target.value);
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') { e.preventDefault(); commit(); }
+              if (e.key === 'Backspace' && !draft && value.length > 0) onChange(value.slice(0, -1));
+            }}
+            onFocus={() => setFocused(true)}
+            onBlur={() => { commit(); setFocused(false); }}
+            className="flex-1 min-w-[6rem] bg-transparent text-xs text-white placeholder-gray-400 outline-none py-0.5"
+          />
+        )}
+      </div>
+      {focused && !full && suggestions.length > 0 && (
+        <div className="flex gap-1.5 overflow-x-auto mt-1.5">
+          {suggestions.map((tag) => (
+            <button
+              key={tag}
+              // mousedown so the pick lands before the input's blur
+              onMouseDown={(e) => { e.preventDefault(); onChange(addTag(value, tag)); setDraft(''); }}
+              className="px-2 py-0.5 rounded-full text-xs whitespace-nowrap bg-black/40 border border-white/20 text-gray-300"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { User, PlayableGame, TagCount } from '../types';
+import { getPopularTags, getTagPage, tagHash } from '../services/tagService';
+import { CollectionWithStats } from '../services/collectionService';
+import { getNextUnplayedGame } from '../services/storageService';
+import { selectImageUrl, DISPLAY_WIDTH } from '../services/imageService';
+import DifficultyBadge from './DifficultyBadge';
+
+interface Props {
+  currentUser: User;
+  tag: string | null; // null = the tag index
+  onBack: () => void;
+}
+
+const INDEX_LIMIT = 100;
+
+// #tags: every tag in use; #tag/<tag>: that tag's games and collections
+const TagPage: React.FC<Props> = ({ currentUser, tag, onBack }) => {
+  const [index, setIndex] = useState<TagCount[]>([]);
+  const [games, setGames] = useState<PlayableGame[]>([]);
+  const [collections, setCollections] = useState<CollectionWithStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [picking, setPicking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      if (tag) {
+        const page = await getTagPage(tag);
+        if (cancelled) return;
+        setGames(page.games);
+        setCollections(page.collections);
+      } else {
+        const list = await getPopularTags(INDEX_LIMIT);
+        if (cancelled) return;
+        setIndex(list);
+      }
+      setLoading(false);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [tag]);
+
+  const playRandom = async () => {
+    if (!tag) return;
+    setPicking(true);
+    const game = await getNextUnplayedGame(currentUser.id, { tag });
+    setPicking(false);
+    if (game) window.location.hash = `#play/${game.id}`;
+    else alert('这个标签下的题你都玩过了！');
+  };
+
+  const header = (
+    <div className="flex items-center gap-4 px-4 h-14 border-b border-gray-800 flex-shrink-0">
+      <button onClick={onBack} className="p-2 -ml-2">
+        <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"/></svg>
+      </button>
+      <h1 className="font-bold text-lg flex-1 truncate">{tag ? `#${tag}` : '🏷️ 全部标签'}</h1>
+      {tag && (
+        <button onClick={() => { window.location.hash = '#tags'; }} className="text-sm text-gray-400">全部标签</button>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+        {header}
+        <div className="flex-1 flex items-center justify-center">
+          <div className="w-10 h-10 border-4 border-orange-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!tag) {
+    const maxUses = Math.max(1, ...index.map((t) => t.games + t.collections));
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+        {header}
+        <div className="flex-1 overflow-y-auto p-4 pb-10">
+          {index.length === 0 ? (
+            <div className="text-center py-16 text-gray-500 text-sm">还没有人使用标签，出题时加上一个吧</div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {index.map((t) => {
+                const uses = t.games + t.collections;
+                return (
+                  <button
+                    key={t.tag}
+                    onClick={() => { window.location.hash = tagHash(t.tag); }}
+                    className={`px-3 py-1.5 rounded-full border border-sky-400/30 bg-sky-500/10 text-sky-200 ${
+                      uses / maxUses > 0.5 ? 'text-base font-bold' : uses / maxUses > 0.2 ? 'text-sm' : 'text-xs'
+                    }`}
+                  >
+                    #{t.tag} <span className="text-[10px] text-gray-400">{uses}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      {header}
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-10">
+        {games.length > 0 && (
+          <button
+            onClick={playRandom}
+            disabled={picking}
+            className="w-full py-3 bg-gradient-to-r from-orange-500 to-amber-500 rounded-2xl font-bold active:scale-95 transition-transform disabled:opacity-50"
+          >
+            {picking ? '加载中...' : `🎲 随机玩一道 #${tag}`}
+          </button>
+        )}
+
+        {/* Collections */}
+        {collections.length > 0 && (
+          <div className="bg-gray-800 rounded-2xl p-4">
+            <h2 className="text-sm font-bold text-gray-300 mb-1">集锦（{collections.length}）</h2>
+            <div className="divide-y divide-gray-700/60">
+              {collections.map((c) => (
+                <button
+                  key={c.id}
+                  onClick={() => { window.location.hash = `#collection/${c.id}`; }}
+                  className="w-full flex items-center gap-3 py-2.5 text-left"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-gray-200 truncate">{c.name}</div>
+                    <div className="text-[11px] text-gray-500 truncate">
+                      {c.authorName} · {c.itemCount} 道题 · {c.totalCompletions} 人完成
+                    </div>
+                  </div>
+                  <span className="text-gray-600 text-sm">→</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Games */}
+        <div className="bg-gray-800 rounded-2xl p-4">
+          <h2 className="text-sm font-bold text-gray-300 mb-3">题目（{games.length}）</h2>
+          {games.length === 0 ? (
+            <div className="text-center py-4 text-gray-500 text-sm">这个标签下还没有题目</div>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              {games.map((g) => (
+                <button
+                  key={g.id}
+                  onClick={() => { window.location.hash = `#play/${g.id}`; }}
+                  className="relative aspect-square rounded-xl overflow-hidden bg-gray-900"
+                >
+                  <img src={selectImageUrl(g, DISPLAY_WIDTH.grid)} alt="" className="w-full h-full object-cover" />
+                  <div className="absolute left-1 bottom-1 right-1 flex items-center justify-between gap-1">
+                    <span className="text-[10px] text-white/90 bg-black/50 rounded px-1 truncate">{g.authorName}</span>
+                    <DifficultyBadge difficulty={g.difficulty} />
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagPage;
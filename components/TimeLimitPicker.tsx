@@ -0,0 +1,30 @@
+import React from 'react';
+import { TIME_LIMIT_OPTIONS_SEC } from '../services/scoringService';
+
+interface Props {
+  value?: number; // seconds; unset = untimed
+  onChange: (value: number | undefined) => void;
+}
+
+// Row of chips for an optional per-question countdown
+const TimeLimitPicker: React.FC<Props> = ({ value, onChange }) => {
+  const chip = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap border transition ${
+      active ? 'bg-orange-500 border-orange-500 text-white' : 'bg-black/40 border-white/20 text-gray-300'
+    }`;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto">
+      <button onClick={() => onChange(undefined)} className={chip(!value)}>
+        不限时
+      </button>
+      {TIME_LIMIT_OPTIONS_SEC.map((sec) => (
+        <button key={sec} onClick={() => onChange(sec)} className={chip(value === sec)}>
+          ⏱ {sec}s
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TimeLimitPicker;
@@ -0,0 +1,163 @@
+import { getRepositories } from './repository';
+import { MAX_SCORE } from './scoringService';
+import { CollectionAttempt, Guess, UnlockedAchievement } from '../types';
+
+// --- Achievements ---
+// Rules are plain code over data the player already has (guesses, collection attempts, authored
+// collections); only the unlock itself is stored, so a badge stays earned even if a rule changes.
+// Evaluation runs after every submitted guess and finished collection (storageService /
+// collectionService) and is idempotent: it only ever adds what isn't unlocked yet.
+
+export interface AchievementStats {
+  guesses: Guess[];
+  attempts: CollectionAttempt[]; // the player's own finished collections
+  authoredCompletions: number; // finished attempts by others on collections the player created
+}
+
+type StatSource = keyof AchievementStats;
+
+export interface Achievement {
+  id: string;
+  icon: string;
+  title: string;
+  description: string;
+  source: StatSource; // the only data the check needs, so evaluation loads no more than that
+  check: (stats: AchievementStats) => boolean;
+}
+
+const NEAR_M = 1000;
+// Full marks under the default (world) scoring. Judged by distance because the stored score
+// includes the time bonus, which can lift a weaker guess past MAX_SCORE.
+const PERFECT_M = 50;
+
+const countNear = (guesses: Guess[]) => guesses.filter((g) => g.distance !== null && g.distance < NEAR_M).length;
+
+const countCollections = (attempts: CollectionAttempt[]) => new Set(attempts.map((a) => a.collectionId)).size;
+
+// Shelf order; ids are stored, so never rename one
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first_guess',
+    icon: '📍',
+    title: '初来乍到',
+    description: '完成第一次答题',
+    source: 'guesses',
+    check: ({ guesses }) => guesses.length >= 1,
+  },
+  {
+    id: 'perfect_score',
+    icon: '🎯',
+    title: '一击必中',
+    description: `单题误差小于 ${PERFECT_M} 米（${MAX_SCORE} 分满分）`,
+    source: 'guesses',
+    check: ({ guesses }) => guesses.some((g) => g.distance !== null && g.distance < PERFECT_M),
+  },
+  {
+    id: 'ten_within_1km',
+    icon: '🔭',
+    title: '火眼金睛',
+    description: '累计 10 次误差小于 1 公里',
+    source: 'guesses',
+    check: ({ guesses }) => countNear(guesses) >= 10,
+  },
+  {
+    id: 'hundred_guesses',
+    icon: '🧭',
+    title: '身经百战',
+    description: '累计答题 100 次',
+    source: 'guesses',
+    check: ({ guesses }) => guesses.length >= 100,
+  },
+  {
+    id: 'first_collection',
+    icon: '📚',
+    title: '首次通关',
+    description: '完成第一个集锦',
+    source: 'attempts',
+    check: ({ attempts }) => countCollections(attempts) >= 1,
+  },
+  {
+    id: 'five_collections',
+    icon: '🏅',
+    title: '集锦收割机',
+    description: '完成 5 个不同的集锦',
+    source: 'attempts',
+    check: ({ attempts }) => countCollections(attempts) >= 5,
+  },
+  {
+    id: 'popular_creator',
+    icon: '🌟',
+    title: '人气出题人',
+    description: '你创建的集锦被其他玩家完成 100 次',
+    source: 'authoredCompletions',
+    check: ({ authoredCompletions }) => authoredCompletions >= 100,
+  },
+];
+
+const loadStat = async (userId: string, source: StatSource): Promise<Partial<AchievementStats>> => {
+  const { games, collections } = getRepositories();
+  switch (source) {
+    case 'guesses':
+      return { guesses: await games.listGuessesByUser(userId) };
+    case 'attempts':
+      return { attempts: await collections.listAttempts({ userId }) };
+    case 'authoredCompletions': {
+      const authored = await collections.listCollections({ authorId: userId });
+      if (authored.length === 0) return { authoredCompletions: 0 };
+      const attempts = await collections.listAttempts({ collectionIds: authored.map((c) => c.id) });
+      return { authoredCompletions: attempts.filter((a) => a.userId !== userId).length };
+    }
+  }
+};
+
+// --- Unlock notifications ---
+// App shows a toast for the current player; anything else (e.g. a creator unlocked by
+// someone else finishing their collection) just appears on that player's shelf.
+
+type UnlockListener = (userId: string, unlocked: Achievement[]) => void;
+
+const unlockListeners = new Set<UnlockListener>();
+
+export const onAchievementsUnlocked = (listener: UnlockListener): (() => void) => {
+  unlockListeners.add(listener);
+  return () => { unlockListeners.delete(listener); };
+};
+
+// Checks every rule the player hasn't unlocked yet and stores the new ones. Returns those.
+export const evaluateAchievements = async (userId: string): Promise<Achievement[]> => {
+  try {
+    const { achievements } = getRepositories();
+    const owned = new Set((await achievements.listAchievements(userId)).map((a) => a.achievementId));
+    const pending = ACHIEVEMENTS.filter((a) => !owned.has(a.id));
+    if (pending.length === 0) return [];
+
+    const sources = Array.from(new Set(pending.map((a) => a.source)));
+    const stats = Object.assign({}, ...(await Promise.all(sources.map((s) => loadStat(userId, s))))) as AchievementStats;
+    const unlocked = pending.filter((a) => a.check(stats));
+    if (unlocked.length === 0) return [];
+
+    const now = Date.now();
+    const saved = await achievements.insertAchievements(
+      unlocked.map((a) => ({ userId, achievementId: a.id, unlockedAt: now }))
+    );
+    if (!saved) return [];
+
+    unlockListeners.forEach((l) => l(userId, unlocked));
+    return unlocked;
+  } catch (e) {
+    console.error('Error evaluating achievements:', e);
+    return [];
+  }
+};
+
+// Shelf entry: every achievement, with the unlock time for earned ones
+export interface AchievementShelfItem {
+  achievement: Achievement;
+  unlocked: UnlockedAchievement | null;
+}
+
+export const getAchievementShelf = async (userId: string): Promise<AchievementShelfItem[]> => {
+  const rows = await getRepositories().achievements.listAchievements(userId);
+  const byId = new Map(rows.map((r) => [r.achievementId, r]));
+  return ACHIEVEMENTS.map((achievement) => ({ achievement, unlocked: byId.get(achievement.id) || null }));
+};
@@ -0,0 +1,129 @@
+import { getRepositories, AuthSession } from './repository';
+import { User } from '../types';
+import {
+  createProfile, generateSecret, getCurrentUser, getStoredUserId, getUserSecret, setStoredUserId,
+} from './storageService';
+import {
+  importLocalCollectionProgress, listLocalCollectionProgress, reassignLocalCollectionProgress,
+} from './collectionService';
+import { reassignPlayFilter } from './playFilterService';
+
+// --- Session ---
+
+export const getAuthSession = (): Promise<AuthSession | null> => getRepositories().auth.getSession();
+
+export const onAuthSessionChange = (listener: (session: AuthSession | null) => void): (() => void) =>
+  getRepositories().auth.onSessionChange(listener);
+
+export const sendSignInLink = (email: string): Promise<boolean> =>
+  getRepositories().auth.sendMagicLink(email.trim());
+
+// After signing out the browser starts over as a new anonymous player;
+// the account's history stays on its profile and comes back on the next sign-in.
+export const signOut = async (): Promise<void> => {
+  await getRepositories().auth.signOut();
+  setStoredUserId(null);
+};
+
+// --- Profile Resolution ---
+
+// Folds an anonymous profile's guesses, attempts, creations, duels and local progress / settings into another profile.
+// The server side is all-or-nothing; local data only moves once it has gone through.
+// toSecret proves the target is ours; null when it is the signed-in account's profile.
+const mergeProfileInto = async (fromUserId: string, toUserId: string, toSecret: string | null = null): Promise<boolean> => {
+  if (!(await getRepositories().games.mergeProfile(fromUserId, toUserId, getUserSecret(fromUserId), toSecret))) return false;
+  reassignLocalCollectionProgress(fromUserId, toUserId);
+  reassignPlayFilter(fromUserId, toUserId);
+  return true;
+};
+
+// App entry point: the user this browser plays as, taking the signed-in account into account.
+//  - signed out: the anonymous profile from localStorage (unchanged behavior)
+//  - signed in, account has no profile yet: the anonymous profile is upgraded in place (same id, nothing moves)
+//  - signed in, account already has a profile: the anonymous one is merged into it
+//    (if the merge fails the browser stays on the anonymous profile and tries again next load)
+export const resolveCurrentUser = async (): Promise<User> => {
+  const session = await getAuthSession();
+  if (!session) return getCurrentUser();
+
+  const { games } = getRepositories();
+  const storedId = getStoredUserId();
+  const local = storedId ? await games.getProfile(storedId) : null;
+
+  if (local?.authUserId === session.authUserId) return local;
+
+  const accountProfile = await games.findProfileByAuthId(session.authUserId);
+
+  if (!accountProfile) {
+    if (local && !local.authUserId) {
+      const linked = await games.linkProfileToAuth(local.id, getUserSecret(local.id));
+      return linked ? { ...local, authUserId: session.authUserId } : local;
+    }
+    // No local profile, or it belongs to a different account: start a fresh one for this account
+    return createProfile(session.authUserId);
+  }
+
+  if (local && !local.authUserId && !(await mergeProfileInto(local.id, accountProfile.id))) {
+    return local;
+  }
+  setStoredUserId(accountProfile.id);
+  return accountProfile;
+};
+
+// --- Device Linking ---
+// Moves this browser's profile to another device without an account: the old device shows a
+// short code, the new one enters it within the TTL. Collection progress only lives in
+// localStorage, so a snapshot of it travels with the code.
+
+const LINK_CODE_TTL_MS = 10 * 60 * 1000;
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O, 1/I
+const LINK_CODE_LENGTH = 6;
+
+const randomLinkCode = (): string =>
+  Array.from({ length: LINK_CODE_LENGTH }, () =>
+    LINK_CODE_ALPHABET[Math.floor(Math.random() * LINK_CODE_ALPHABET.length)]
+  ).join('');
+
+export const normalizeLinkCode = (input: string): string => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const createDeviceLinkCode = async (user: User): Promise<{ code: string; expiresAt: number } | null> => {
+  const { deviceLinks } = getRepositories();
+  const expiresAt = Date.now() + LINK_CODE_TTL_MS;
+  const progress = listLocalCollectionProgress(user.id);
+
+  // Retry on the rare code collision
+  for (let i = 0; i < 3; i++) {
+    const code = randomLinkCode();
+    if (await deviceLinks.insertLink({ code, userId: user.id, progress, expiresAt }, getUserSecret(user.id))) {
+      return { code, expiresAt };
+    }
+  }
+  return null;
+};
+
+// Binds this browser to the code's profile. The profile being replaced is merged into it when
+// it is anonymous (same rules as signing in); an account-bound one is simply left behind.
+// Refused while signed in: the next resolveCurrentUser would fold the code's profile into the
+// account without asking. Signed-in devices move by signing in on the other device instead.
+export const redeemDeviceLinkCode = async (input: string): Promise<User | null> => {
+  const { games, deviceLinks, auth } = getRepositories();
+  if (await auth.getSession()) return null;
+
+  // This browser gets its own secret for the code's profile
+  const secret = generateSecret();
+  const link = await deviceLinks.consumeLink(normalizeLinkCode(input), Date.now(), secret);
+  if (!link) return null;
+
+  const target = await games.getProfile(link.userId);
+  if (!target) return null;
+
+  const storedId = getStoredUserId();
+  if (storedId && storedId !== target.id) {
+    const local = await games.getProfile(storedId);
+    if (local && !local.authUserId && !(await mergeProfileInto(local.id, target.id, secret))) return null;
+  }
+
+  importLocalCollectionProgress(link.progress, target.id);
+  setStoredUserId(target.id, secret);
+  return target;
+};
@@ -1,6 +1,10 @@
-import { supabase } from './supabaseClient';
-import { Collection, CollectionAttempt, CollectionProgress } from '../types';
-import { generateId } from './storageService';
+import { getRepositories } from './repository';
+import {
+  Collection, CollectionAttempt, CollectionProgress, CollectionSort, ScoringProfile, ViewRestrictions,
+} from '../types';
+import { generateId, getUserSecret } from './storageService';
+import { selectImageUrl, DISPLAY_WIDTH } from './imageService';
+import { evaluateAchievements } from './achievementService';
 
 // --- LocalStorage Progress Helpers ---
 
@@ -20,77 +24,82 @@ export const saveCollectionProgress = (progress: CollectionProgress): void => {
   localStorage.setItem(collProgressKey(progress.collectionId, progress.userId), JSON.stringify(progress));
 };
 
+// Every progress entry stored in this browser for a user (keys: coll_progress_<collectionId>_<userId>)
+export const listLocalCollectionProgress = (userId: string): CollectionProgress[] => {
+  const suffix = `_${userId}`;
+  const result: CollectionProgress[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith('coll_progress_') || !key.endsWith(suffix)) continue;
+    try {
+      const progress: CollectionProgress = JSON.parse(localStorage.getItem(key) || 'null');
+      if (progress && progress.userId === userId) result.push(progress);
+    } catch {
+      // Ignore corrupt entries
+    }
+  }
+  return result;
+};
+
+// Adopt progress entries brought over from another device (same "further along wins" rule)
+export const importLocalCollectionProgress = (entries: CollectionProgress[], userId: string): void => {
+  for (const progress of entries) {
+    const existing = getCollectionProgress(progress.collectionId, userId);
+    if (!existing || progress.completedItems.length > existing.completedItems.length) {
+      saveCollectionProgress({ ...progress, userId });
+    }
+  }
+};
+
+// Re-key local progress when a profile is folded into another one.
+// An existing entry for the target user wins unless the moved one is further along.
+export const reassignLocalCollectionProgress = (fromUserId: string, toUserId: string): void => {
+  const entries = listLocalCollectionProgress(fromUserId);
+  importLocalCollectionProgress(entries, toUserId);
+  entries.forEach((p) => localStorage.removeItem(collProgressKey(p.collectionId, fromUserId)));
+};
+
 // --- Collection CRUD ---
 
 export const createCollection = async (
   name: string,
   gameIds: string[],
   authorId: string,
-  authorName: string
+  authorName: string,
+  scoring?: ScoringProfile,
+  timeLimitSec?: number,
+  restrictions?: ViewRestrictions,
+  tags?: string[]
 ): Promise<Collection | null> => {
-  const id = generateId();
-  const createdAt = Date.now();
-
-  const { error: collErr } = await supabase.from('collections').insert({
-    id,
-    name,
-    author_id: authorId,
-    author_name: authorName,
-    item_count: gameIds.length,
-    created_at: createdAt,
-  });
-
-  if (collErr) {
-    console.error('Error creating collection:', collErr);
-    return null;
-  }
-
-  const items = gameIds.map((gameId, index) => ({
+  const collection: Collection = {
     id: generateId(),
-    collection_id: id,
-    game_id: gameId,
-    order_index: index,
-  }));
-
-  const { error: itemsErr } = await supabase.from('collection_items').insert(items);
-  if (itemsErr) {
-    console.error('Error creating collection items:', itemsErr);
-    return null;
-  }
+    name,
+    authorId,
+    authorName,
+    createdAt: Date.now(),
+    itemCount: gameIds.length,
+    scoring,
+    timeLimitSec,
+    restrictions,
+    tags: tags && tags.length > 0 ? tags : undefined,
+  };
 
-  return { id, name, authorId, authorName, createdAt, itemCount: gameIds.length };
+  const ok = await getRepositories().collections.insertCollection(collection, gameIds);
+  return ok ? collection : null;
 };
 
 export const getCollection = async (
   collectionId: string
 ): Promise<{ collection: Collection; gameIds: string[] } | null> => {
-  const { data: collData, error: collErr } = await supabase
-    .from('collections')
-    .select('*')
-    .eq('id', collectionId)
-    .single();
-
-  if (collErr || !collData) return null;
-
-  const { data: itemsData, error: itemsErr } = await supabase
-    .from('collection_items')
-    .select('game_id')
-    .eq('collection_id', collectionId)
-    .order('order_index', { ascending: true });
-
-  if (itemsErr || !itemsData) return null;
-
-  return {
-    collection: {
-      id: collData.id,
-      name: collData.name,
-      authorId: collData.author_id,
-      authorName: collData.author_name,
-      createdAt: collData.created_at,
-      itemCount: collData.item_count,
-    },
-    gameIds: itemsData.map((i) => i.game_id),
-  };
+  const { collections } = getRepositories();
+
+  const collection = await collections.getCollection(collectionId);
+  if (!collection) return null;
+
+  const gameIds = await collections.listCollectionGameIds(collectionId);
+  if (!gameIds) return null;
+
+  return { collection, gameIds };
 };
 
 // --- Collection Lists ---
@@ -109,20 +118,15 @@ const attachStats = async (collections: CollectionWithStats[]): Promise<void> =>
   const ids = collections.map((c) => c.id);
   if (ids.length === 0) return;
 
-  const { data } = await supabase
-    .from('collection_attempts')
-    .select('collection_id, user_id, total_score')
-    .in('collection_id', ids);
-
-  if (!data) return;
+  const data = await getRepositories().collections.listAttempts({ collectionIds: ids });
 
   // Deduplicate: per (collection_id, user_id), keep best score
   const userBest = new Map<string, number>(); // key: `${collectionId}|${userId}`
   for (const row of data) {
-    const key = `${row.collection_id}|${row.user_id}`;
+    const key = `${row.collectionId}|${row.userId}`;
     const prev = userBest.get(key);
-    if (prev === undefined || row.total_score > prev) {
-      userBest.set(key, row.total_score);
+    if (prev === undefined || row.totalScore > prev) {
+      userBest.set(key, row.totalScore);
     }
   }
 
@@ -141,22 +145,9 @@ const attachStats = async (collections: CollectionWithStats[]): Promise<void> =>
   }
 };
 
-export const getMyCollections = async (userId: string): Promise<CollectionWithStats[]> => {
-  const { data, error } = await supabase
-    .from('collections')
-    .select('*')
-    .eq('author_id', userId)
-    .order('created_at', { ascending: false });
-
-  if (error || !data) return [];
-
-  const collections: CollectionWithStats[] = data.map((row) => ({
-    id: row.id,
-    name: row.name,
-    authorId: row.author_id,
-    authorName: row.author_name,
-    createdAt: row.created_at,
-    itemCount: row.item_count,
+const withStats = async (list: Collection[]): Promise<CollectionWithStats[]> => {
+  const collections: CollectionWithStats[] = list.map((c) => ({
+    ...c,
     totalCompletions: 0,
     avgTotalScore: 0,
   }));
@@ -165,28 +156,26 @@ export const getMyCollections = async (userId: string): Promise<CollectionWithSt
   return collections;
 };
 
-export const getMyPlayedCollections = async (userId: string): Promise<CollectionWithMyScore[]> => {
-  const { data: attempts, error } = await supabase
-    .from('collection_attempts')
-    .select('collection_id, total_score, completed_at')
-    .eq('user_id', userId)
-    .order('completed_at', { ascending: false });
+export const getMyCollections = async (userId: string): Promise<CollectionWithStats[]> => {
+  const list = await getRepositories().collections.listCollections({ authorId: userId });
+  return withStats(list);
+};
 
-  if (error || !attempts || attempts.length === 0) return [];
+export const getMyPlayedCollections = async (userId: string): Promise<CollectionWithMyScore[]> => {
+  const { collections } = getRepositories();
+  const attempts = await collections.listAttempts({ userId });
+  if (attempts.length === 0) return [];
 
-  // Deduplicate by collection_id: keep best score (tie-break: latest completed_at)
-  const bestByCollection = new Map<string, { total_score: number; completed_at: number }>();
+  // Deduplicate by collection_id: keep best score (attempts arrive best-first)
+  const bestByCollection = new Map<string, { totalScore: number; completedAt: number }>();
   for (const a of attempts) {
-    const prev = bestByCollection.get(a.collection_id);
-    if (!prev || a.total_score > prev.total_score) {
-      bestByCollection.set(a.collection_id, { total_score: a.total_score, completed_at: a.completed_at });
+    if (!bestByCollection.has(a.collectionId)) {
+      bestByCollection.set(a.collectionId, { totalScore: a.totalScore, completedAt: a.completedAt });
     }
   }
 
   const ids = Array.from(bestByCollection.keys());
-  const { data: collData } = await supabase.from('collections').select('*').in('id', ids);
-  if (!collData) return [];
-
+  const collData = await collections.listCollections({ ids });
   const collMap = new Map(collData.map((c) => [c.id, c]));
 
   return ids
@@ -195,84 +184,44 @@ export const getMyPlayedCollections = async (userId: string): Promise<Collection
       const best = bestByCollection.get(collId);
       if (!coll || !best) return null;
       return {
-        id: coll.id,
-        name: coll.name,
-        authorId: coll.author_id,
-        authorName: coll.author_name,
-        createdAt: coll.created_at,
-        itemCount: coll.item_count,
-        myScore: best.total_score,
-        completedAt: best.completed_at,
+        ...coll,
+        myScore: best.totalScore,
+        completedAt: best.completedAt,
       } as CollectionWithMyScore;
     })
-    .filter(Boolean) as CollectionWithMyScore[];
+    .filter(Boolean)
+    .sort((a, b) => b!.completedAt - a!.completedAt) as CollectionWithMyScore[];
 };
 
 export const getCollectionCoverImage = async (collectionId: string): Promise<string | null> => {
-  const { data: items } = await supabase
-    .from('collection_items')
-    .select('game_id')
-    .eq('collection_id', collectionId)
-    .order('order_index', { ascending: true })
-    .limit(1);
-
+  const { games, collections } = getRepositories();
+  const items = await collections.listCollectionGameIds(collectionId, 1);
   if (!items || items.length === 0) return null;
 
-  const { data: game } = await supabase
-    .from('games')
-    .select('image_data')
-    .eq('id', items[0].game_id)
-    .single();
-
-  return game?.image_data || null;
+  const game = await games.getGame(items[0]);
+  return game ? selectImageUrl(game, DISPLAY_WIDTH.row) : null;
 };
 
 export const getFeaturedCollections = async (): Promise<CollectionWithStats[]> => {
-  const { data, error } = await supabase
-    .from('collections')
-    .select('*')
-    .eq('is_featured', true)
-    .order('featured_order', { ascending: true });
-
-  if (error || !data) return [];
-
-  const collections: CollectionWithStats[] = data.map((row) => ({
-    id: row.id,
-    name: row.name,
-    authorId: row.author_id,
-    authorName: row.author_name,
-    createdAt: row.created_at,
-    itemCount: row.item_count,
-    totalCompletions: 0,
-    avgTotalScore: 0,
-  }));
-
-  await attachStats(collections);
-  return collections;
+  const list = await getRepositories().collections.listCollections({ featured: true });
+  return withStats(list);
 };
 
-export const getAllCollections = async (page = 0, pageSize = 20): Promise<CollectionWithStats[]> => {
-  const { data, error } = await supabase
-    .from('collections')
-    .select('*')
-    .order('created_at', { ascending: false })
-    .range(page * pageSize, (page + 1) * pageSize - 1);
-
-  if (error || !data) return [];
-
-  const collections: CollectionWithStats[] = data.map((row) => ({
-    id: row.id,
-    name: row.name,
-    authorId: row.author_id,
-    authorName: row.author_name,
-    createdAt: row.created_at,
-    itemCount: row.item_count,
-    totalCompletions: 0,
-    avgTotalScore: 0,
-  }));
+export interface PlazaOptions {
+  search?: string;
+  tag?: string;
+  sort?: CollectionSort; // default newest
+}
 
-  await attachStats(collections);
-  return collections;
+// Plaza: every author's collections, without the generated daily sets.
+// A page shorter than pageSize is the last one.
+export const getAllCollections = async (
+  page = 0,
+  pageSize = 20,
+  { search, tag, sort = 'newest' }: PlazaOptions = {}
+): Promise<CollectionWithStats[]> => {
+  const list = await getRepositories().collections.listPlazaCollections({ search, tag, sort, page, pageSize });
+  return withStats(list);
 };
 
 // --- Attempts & Leaderboard ---
@@ -280,37 +229,18 @@ export const getAllCollections = async (page = 0, pageSize = 20): Promise<Collec
 export const submitCollectionAttempt = async (
   collectionId: string,
   userId: string,
-  userName: string,
-  totalScore: number
+  userName: string
 ): Promise<void> => {
-  // Check for existing record
-  const { data: existing } = await supabase
-    .from('collection_attempts')
-    .select('id, total_score')
-    .eq('collection_id', collectionId)
-    .eq('user_id', userId)
-    .maybeSingle();
-
-  if (existing) {
-    // Update only if the new score is higher (fixes stale 0-score records from old bugs)
-    if (totalScore > existing.total_score) {
-      await supabase
-        .from('collection_attempts')
-        .update({ total_score: totalScore, completed_at: Date.now() })
-        .eq('id', existing.id);
-    }
-    return;
-  }
+  const { collections } = getRepositories();
 
-  const { error } = await supabase.from('collection_attempts').insert({
-    id: generateId(),
-    collection_id: collectionId,
-    user_id: userId,
-    user_name: userName,
-    total_score: totalScore,
-    completed_at: Date.now(),
-  });
-  if (error) console.error('Error submitting collection attempt:', error);
+  // The backend sums the score and time from the player's guesses; a higher total replaces the old one
+  const inserted = await collections.submitAttempt(generateId(), collectionId, userId, userName, getUserSecret(userId));
+  if (!inserted) return;
+
+  // A new completion can unlock achievements for the player and for the collection's creator
+  void evaluateAchievements(userId);
+  const collection = await collections.getCollection(collectionId);
+  if (collection && collection.authorId !== userId) void evaluateAchievements(collection.authorId);
 };
 
 export const getCollectionLeaderboard = async (
@@ -318,24 +248,10 @@ export const getCollectionLeaderboard = async (
   currentUserId: string
 ): Promise<{ topTen: CollectionAttempt[]; myRecord: CollectionAttempt | null }> => {
   // Fetch all rows so we can deduplicate client-side (handles historical duplicate data)
-  const { data } = await supabase
-    .from('collection_attempts')
-    .select('*')
-    .eq('collection_id', collectionId)
-    .order('total_score', { ascending: false })
-    .order('completed_at', { ascending: true });
-
-  const allRows: CollectionAttempt[] = (data || []).map((row) => ({
-    id: row.id,
-    collectionId: row.collection_id,
-    userId: row.user_id,
-    userName: row.user_name,
-    totalScore: row.total_score,
-    completedAt: row.completed_at,
-  }));
+  const allRows = await getRepositories().collections.listAttempts({ collectionId });
 
   // Deduplicate: one entry per userId, keep best score (data already sorted: highest score first,
-  // then earliest completed_at — so the first occurrence per user is their best record)
+  // then fastest total time, then earliest completed_at — so the first occurrence per user is their best record)
   const seen = new Set<string>();
   const deduped: CollectionAttempt[] = [];
   for (const row of allRows) {
@@ -360,17 +276,15 @@ export interface CollectionStats {
 }
 
 export const getCollectionStats = async (collectionId: string): Promise<CollectionStats> => {
-  const { data: attempts } = await supabase
-    .from('collection_attempts')
-    .select('user_id, total_score')
-    .eq('collection_id', collectionId);
+  const { games, collections } = getRepositories();
+  const attempts = await collections.listAttempts({ collectionId });
 
   // Deduplicate by userId: keep best score per user
   const bestByUser = new Map<string, number>();
-  for (const row of attempts || []) {
-    const prev = bestByUser.get(row.user_id);
-    if (prev === undefined || row.total_score > prev) {
-      bestByUser.set(row.user_id, row.total_score);
+  for (const row of attempts) {
+    const prev = bestByUser.get(row.userId);
+    if (prev === undefined || row.totalScore > prev) {
+      bestByUser.set(row.userId, row.totalScore);
     }
   }
   const uniqueScores = Array.from(bestByUser.values());
@@ -380,32 +294,21 @@ export const getCollectionStats = async (collectionId: string): Promise<Collecti
       ? Math.round(uniqueScores.reduce((s, v) => s + v, 0) / totalCompletions)
       : 0;
 
-  const { data: items } = await supabase
-    .from('collection_items')
-    .select('game_id')
-    .eq('collection_id', collectionId)
-    .order('order_index', { ascending: true });
-
-  const gameIds = items?.map((i) => i.game_id) || [];
+  const gameIds = (await collections.listCollectionGameIds(collectionId)) || [];
   let perGameAvgScore: { gameId: string; avgScore: number }[] = [];
 
   if (gameIds.length > 0) {
-    const { data: guesses } = await supabase
-      .from('guesses')
-      .select('game_id, score')
-      .in('game_id', gameIds);
-
-    if (guesses) {
-      const scoreMap = new Map<string, { total: number; count: number }>();
-      for (const g of guesses) {
-        const s = scoreMap.get(g.game_id) || { total: 0, count: 0 };
-        scoreMap.set(g.game_id, { total: s.total + g.score, count: s.count + 1 });
-      }
-      perGameAvgScore = gameIds.map((gameId) => {
-        const s = scoreMap.get(gameId);
-        return { gameId, avgScore: s ? Math.round(s.total / s.count) : 0 };
-      });
+    const guesses = await games.listGuessesForGames(gameIds);
+
+    const scoreMap = new Map<string, { total: number; count: number }>();
+    for (const g of guesses) {
+      const s = scoreMap.get(g.gameId) || { total: 0, count: 0 };
+      scoreMap.set(g.gameId, { total: s.total + g.score, count: s.count + 1 });
     }
+    perGameAvgScore = gameIds.map((gameId) => {
+      const s = scoreMap.get(gameId);
+      return { gameId, avgScore: s ? Math.round(s.total / s.count) : 0 };
+    });
   }
 
   return { totalCompletions, avgTotalScore, perGameAvgScore };
@@ -0,0 +1,97 @@
+import { getRepositories } from './repository';
+import { getUserCreatedGames } from './storageService';
+import { dailyDayKey, dailyDayStart } from './dailyService';
+import { Collection, CreatorRanking, GameData } from '../types';
+
+// --- Creator Dashboard ---
+// Everything is derived from other players' guesses on the creator's games and their attempts
+// on the creator's collections; the creator's own plays are left out so they can't pad the numbers.
+// The counting runs in the backend (getCreatorStats); this module only joins it to the games
+// and collections and ranks them.
+
+export const DASHBOARD_DAYS = 14; // plays-over-time window
+export const MIN_PLAYS_FOR_RANKING = 3; // hardest / easiest need a few plays to mean anything
+const HARDEST_EASIEST_COUNT = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ChallengeStat {
+  game: GameData;
+  plays: number;
+  avgScore: number | null; // null until someone has played it
+  avgErrorM: number | null; // over guesses that placed a pin
+}
+
+export interface CollectionStat {
+  collection: Collection;
+  completions: number; // unique players
+  avgTotalScore: number;
+}
+
+export interface CreatorDashboard {
+  totalPlays: number;
+  uniquePlayers: number;
+  totalLikes: number;
+  totalCompletions: number;
+  playsByDay: { day: string; plays: number }[]; // oldest first, DASHBOARD_DAYS entries ending today
+  challenges: ChallengeStat[]; // most played first
+  hardest: ChallengeStat[];
+  easiest: ChallengeStat[];
+  collections: CollectionStat[]; // most completed first
+}
+
+export const getCreatorDashboard = async (userId: string, now = Date.now()): Promise<CreatorDashboard> => {
+  const { games, collections } = getRepositories();
+  const days = Array.from({ length: DASHBOARD_DAYS }, (_, i) => dailyDayKey(now - (DASHBOARD_DAYS - 1 - i) * DAY_MS));
+  const [myGames, myCollections, stats] = await Promise.all([
+    getUserCreatedGames(userId),
+    collections.listCollections({ authorId: userId }),
+    games.getCreatorStats(userId, dailyDayStart(days[0])),
+  ]);
+
+  const perGame = new Map((stats?.games || []).map((g) => [g.gameId, g]));
+  const challenges: ChallengeStat[] = myGames
+    .map((game) => {
+      const stat = perGame.get(game.id);
+      return {
+        game,
+        plays: stat?.plays || 0,
+        avgScore: stat?.avgScore != null ? Math.round(stat.avgScore) : null,
+        avgErrorM: stat?.avgErrorM ?? null,
+      };
+    })
+    .sort((a, b) => b.plays - a.plays || b.game.createdAt - a.game.createdAt);
+
+  const ranked = challenges
+    .filter((c) => c.plays >= MIN_PLAYS_FOR_RANKING)
+    .sort((a, b) => a.avgScore! - b.avgScore!);
+  const hardest = ranked.slice(0, HARDEST_EASIEST_COUNT);
+  // With only a few ranked challenges, don't list the same one as both hardest and easiest
+  const easiest = ranked.slice(hardest.length).slice(-HARDEST_EASIEST_COUNT).reverse();
+
+  const countByDay = new Map((stats?.playsByDay || []).map((d) => [d.day, d.plays]));
+
+  const perCollection = new Map((stats?.collections || []).map((c) => [c.collectionId, c]));
+  const collectionStats: CollectionStat[] = myCollections
+    .map((collection) => ({
+      collection,
+      completions: perCollection.get(collection.id)?.completions || 0,
+      avgTotalScore: perCollection.get(collection.id)?.avgTotalScore || 0,
+    }))
+    .sort((a, b) => b.completions - a.completions);
+
+  return {
+    totalPlays: challenges.reduce((s, c) => s + c.plays, 0),
+    uniquePlayers: stats?.uniquePlayers || 0,
+    totalLikes: myGames.reduce((s, g) => s + (g.likes || 0), 0),
+    totalCompletions: collectionStats.reduce((s, c) => s + c.completions, 0),
+    playsByDay: days.map((day) => ({ day, plays: countByDay.get(day) || 0 })),
+    challenges,
+    hardest,
+    easiest,
+    collections: collectionStats,
+  };
+};
+
+// "Most-played creators": ranked by other players' guesses on their games
+export const getTopCreators = async (limit = 20): Promise<CreatorRanking[]> =>
+  getRepositories().games.listTopCreators(limit);
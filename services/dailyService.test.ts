@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { computeStreak, dailyCollectionId, dailyDayKey, getDailyChallenge } from './dailyService';
+import { getRepositories, setRepositories } from './repository';
+import { createMemoryRepositories } from './memoryRepository';
+import { GameData } from '../types';
+
+describe('dailyDayKey', () => {
+  it('rolls over at midnight China time', () => {
+    expect(dailyDayKey(Date.parse('2026-10-18T15:59:59Z'))).toBe('2026-10-18');
+    expect(dailyDayKey(Date.parse('2026-10-18T16:00:00Z'))).toBe('2026-10-19');
+  });
+});
+
+describe('computeStreak', () => {
+  it('counts back from today', () => {
+    expect(computeStreak(['2026-10-17', '2026-10-18', '2026-10-19'], '2026-10-19')).toEqual({ current: 3, best: 3 });
+  });
+
+  it('keeps the streak from yesterday while today is still open', () => {
+    expect(computeStreak(['2026-10-17', '2026-10-18'], '2026-10-19')).toEqual({ current: 2, best: 2 });
+  });
+
+  it('breaks on a missed day but remembers the best run', () => {
+    const days = ['2026-10-10', '2026-10-11', '2026-10-12', '2026-10-13', '2026-10-17'];
+    expect(computeStreak(days, '2026-10-19')).toEqual({ current: 0, best: 4 });
+  });
+
+  it('runs across month ends and ignores duplicates', () => {
+    expect(computeStreak(['2026-09-30', '2026-10-01', '2026-10-01'], '2026-10-01')).toEqual({ current: 2, best: 2 });
+  });
+
+  it('is empty without days', () => {
+    expect(computeStreak([], '2026-10-19')).toEqual({ current: 0, best: 0 });
+  });
+});
+
+describe('getDailyChallenge', () => {
+  const now = Date.parse('2026-10-19T04:00:00Z');
+  const game = (id: string, createdAt: number): GameData => ({
+    id, createdAt, imageUrl: '', authorId: 'author', authorName: 'author', location: { lat: 0, lng: 0 },
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    setRepositories(createMemoryRepositories({
+      games: [...Array.from({ length: 7 }, (_, i) => game(`old${i}`, 1000 + i)), game('fresh', now - 1000)],
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("creates today's set from games published before the day began", async () => {
+    const daily = await getDailyChallenge();
+    expect(daily?.collection.id).toBe(dailyCollectionId('2026-10-19'));
+    expect(daily?.collection.isDaily).toBe(true);
+    expect(daily?.gameIds).toHaveLength(5);
+    expect(daily?.gameIds).not.toContain('fresh');
+    expect((await getDailyChallenge())?.gameIds).toEqual(daily?.gameIds);
+  });
+
+  it('never creates other days, and clients cannot plant one', async () => {
+    expect(await getDailyChallenge('2026-10-20')).toBeNull();
+    expect(await getDailyChallenge('2026-10-18')).toBeNull();
+
+    const planted = await getRepositories().collections.insertCollection(
+      { id: dailyCollectionId('2026-10-20'), name: 'x', authorId: 'x', authorName: 'x', createdAt: now, itemCount: 1, isDaily: true },
+      ['old0']
+    );
+    expect(planted).toBe(false);
+  });
+});
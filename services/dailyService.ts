@@ -0,0 +1,97 @@
+import { getRepositories } from './repository';
+import { getCollection } from './collectionService';
+import { Collection } from '../types';
+
+// --- Daily Challenge ---
+// Every day has one shared set of games, stored as an ordinary collection with the id
+// `daily-YYYY-MM-DD`, so playing, progress, attempts and the leaderboard are the collection ones.
+// Only the server picks and stores the set (ensure_daily_challenge, TECH_SPECS §18); clients
+// can't insert daily collections, so nobody can plant a set for a day ahead of time.
+
+const DAILY_ID_PREFIX = 'daily-';
+// Days roll over at midnight China time for everyone, wherever their device clock is set
+const DAILY_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// YYYY-MM-DD of the daily that is live at `time`
+export const dailyDayKey = (time = Date.now()): string =>
+  new Date(time + DAILY_UTC_OFFSET_MS).toISOString().slice(0, 10);
+
+// Epoch ms of `day`'s midnight, China time
+export const dailyDayStart = (day: string): number => Date.parse(`${day}T00:00:00Z`) - DAILY_UTC_OFFSET_MS;
+
+const shiftDay = (day: string, days: number): string => dailyDayKey(dailyDayStart(day) + days * DAY_MS);
+
+export const isValidDailyDay = (day: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(day) && !isNaN(dailyDayStart(day));
+
+export const dailyCollectionId = (day: string): string => `${DAILY_ID_PREFIX}${day}`;
+
+export const isDailyCollectionId = (collectionId: string): boolean => collectionId.startsWith(DAILY_ID_PREFIX);
+
+export const dailyDayOf = (collectionId: string): string => collectionId.slice(DAILY_ID_PREFIX.length);
+
+export const formatDailyDay = (day: string): string => {
+  const [, month, date] = day.split('-');
+  return `${Number(month)}月${Number(date)}日`;
+};
+
+// The daily for `day` (default today). Past days are only read, never created after the fact.
+// null if that day has no daily, or the game pool is still empty.
+export const getDailyChallenge = async (
+  day = dailyDayKey()
+): Promise<{ collection: Collection; gameIds: string[] } | null> => {
+  const existing = await getCollection(dailyCollectionId(day));
+  if (existing && existing.gameIds.length > 0) return existing;
+  if (day !== dailyDayKey()) return null;
+
+  if (!(await getRepositories().collections.ensureDailyCollection(day))) return null;
+  const created = await getCollection(dailyCollectionId(day));
+  return created && created.gameIds.length > 0 ? created : null;
+};
+
+// --- Streaks ---
+
+export interface DailyStreak {
+  current: number; // consecutive days up to today (or yesterday, while today is still open)
+  best: number;
+  playedToday: boolean;
+}
+
+// Days the user finished that day's daily on the day itself
+const listDailyDaysPlayed = async (userId: string): Promise<string[]> => {
+  const attempts = await getRepositories().collections.listAttempts({ userId });
+  const days = new Set<string>();
+  attempts.forEach((a) => {
+    if (!isDailyCollectionId(a.collectionId)) return;
+    const day = dailyDayOf(a.collectionId);
+    if (dailyDayKey(a.completedAt) === day) days.add(day);
+  });
+  return Array.from(days);
+};
+
+// Consecutive-day runs over a set of YYYY-MM-DD keys. The current run counts back from today,
+// or from yesterday while today has nothing yet, so a streak isn't lost before the day is over.
+export const computeStreak = (days: string[], today = dailyDayKey()): { current: number; best: number } => {
+  const played = new Set(days);
+  const sorted = Array.from(played).sort();
+
+  let current = 0;
+  for (let day = played.has(today) ? today : shiftDay(today, -1); played.has(day); day = shiftDay(day, -1)) {
+    current++;
+  }
+
+  let best = 0;
+  let run = 0;
+  sorted.forEach((day, i) => {
+    run = i > 0 && shiftDay(sorted[i - 1], 1) === day ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+
+  return { current, best };
+};
+
+export const getDailyStreak = async (userId: string, now = Date.now()): Promise<DailyStreak> => {
+  const days = await listDailyDaysPlayed(userId);
+  const today = dailyDayKey(now);
+  return { ...computeStreak(days, today), playedToday: days.includes(today) };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { computeDifficulty, difficultyLevel } from './difficultyService';
+
+const plays = (n: number, distance: number | null, score: number) => Array.from({ length: n }, () => ({ distance, score }));
+
+describe('computeDifficulty', () => {
+  it('stays unrated below the minimum number of plays', () => {
+    expect(computeDifficulty(plays(2, 10, 5000))).toBeUndefined();
+  });
+
+  it('rates close, full-score games easy and far, zero-score games hard', () => {
+    expect(difficultyLevel(computeDifficulty(plays(30, 10, 5000)))).toBe('easy');
+    expect(difficultyLevel(computeDifficulty(plays(30, 8000e3, 0)))).toBe('hard');
+  });
+
+  it('pulls few plays toward the middle', () => {
+    const few = computeDifficulty(plays(3, 10, 5000))!;
+    const many = computeDifficulty(plays(30, 10, 5000))!;
+    expect(few).toBeGreaterThan(many);
+    expect(few).toBeLessThan(50);
+  });
+
+  it('treats time bonus scores as solved and timeouts as far off', () => {
+    expect(computeDifficulty(plays(10, 10, 6000))).toBe(computeDifficulty(plays(10, 10, 5000)));
+    expect(computeDifficulty(plays(10, null, 0))).toBe(computeDifficulty(plays(10, 20000e3, 0)));
+  });
+});
+
+describe('difficultyLevel', () => {
+  it('splits at 35 and 65', () => {
+    expect(difficultyLevel(undefined)).toBeNull();
+    expect(difficultyLevel(34)).toBe('easy');
+    expect(difficultyLevel(35)).toBe('medium');
+    expect(difficultyLevel(65)).toBe('hard');
+  });
+});
@@ -0,0 +1,52 @@
+import { DifficultyLevel, Guess } from '../types';
+import { MAX_SCORE } from './scoringService';
+
+// Difficulty of a game, learned from how it has actually been played. The authoritative copy runs
+// in the database (`game_difficulty`, recomputed by a trigger on every new guess, TECH_SPECS §23);
+// this one backs the memory repository. Keep the two in sync.
+//
+// 0 (trivial) .. 100 (nobody gets close), built from three signals:
+//  - median distance, on a log scale so 10 km vs 100 km matters as much as 100 vs 1000 km
+//  - median score, which already reflects the game's scoring scale (a city game at 2 km is hard)
+//  - score spread: a wide spread means only players who know the place get it
+// then pulled toward the middle while there are few plays, so one lucky guess can't make a game "easy".
+
+export const DIFFICULTY_MIN_PLAYS = 3; // unrated below this
+const PRIOR_PLAYS = 5; // weight of the neutral prior
+const PRIOR = 50;
+const TIMEOUT_DISTANCE_M = 20000e3; // a timed-out guess counts as being as far off as possible
+const DISTANCE_SCALE_KM = 5000; // median at or beyond this reads as maximally hard
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export const computeDifficulty = (guesses: Pick<Guess, 'distance' | 'score'>[]): number | undefined => {
+  const plays = guesses.length;
+  if (plays < DIFFICULTY_MIN_PLAYS) return undefined;
+
+  const medianKm = median(guesses.map((g) => g.distance ?? TIMEOUT_DISTANCE_M)) / 1000;
+  const distanceTerm = Math.min(1, Math.log10(1 + medianKm) / Math.log10(1 + DISTANCE_SCALE_KM));
+
+  // Time bonuses can push a score past MAX_SCORE; cap so they read as "solved"
+  const scores = guesses.map((g) => Math.min(g.score, MAX_SCORE));
+  const scoreTerm = 1 - median(scores) / MAX_SCORE;
+
+  const mean = scores.reduce((s, v) => s + v, 0) / plays;
+  const stdDev = Math.sqrt(scores.reduce((s, v) => s + (v - mean) ** 2, 0) / plays);
+  const spreadTerm = Math.min(1, stdDev / (MAX_SCORE / 2));
+
+  const raw = 100 * (0.4 * distanceTerm + 0.45 * scoreTerm + 0.15 * spreadTerm);
+  return Math.round((raw * plays + PRIOR * PRIOR_PLAYS) / (plays + PRIOR_PLAYS));
+};
+
+export const difficultyLevel = (difficulty?: number): DifficultyLevel | null =>
+  difficulty === undefined ? null : difficulty < 35 ? 'easy' : difficulty < 65 ? 'medium' : 'hard';
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  easy: '简单',
+  medium: '中等',
+  hard: '困难',
+};
@@ -0,0 +1,133 @@
+import { getRepositories } from './repository';
+import { getCollection } from './collectionService';
+import { generateId, getUserSecret } from './storageService';
+import { Duel, DuelKind, GameAnswer, Guess, PlayableGame, User } from '../types';
+
+// --- Duels ---
+// A duel only records who plays whom on which challenge. Each side's rounds are their ordinary
+// guesses on those games (scored by submitGuess as usual), so a round answered before the duel
+// existed counts too; the result page reads both players' guesses and compares them.
+
+export const duelShareUrl = (id: string): string => `${window.location.origin}/#duel/${id}`;
+
+// Where a player answers the rounds: the existing single-challenge / collection links
+export const duelPlayHash = (duel: Duel): string =>
+  duel.kind === 'game' ? `#play/${duel.targetId}` : `#collection/${duel.targetId}`;
+
+export const isDuelPlayer = (duel: Duel, userId: string): boolean =>
+  duel.challengerId === userId || duel.opponentId === userId;
+
+export const createDuel = async (kind: DuelKind, targetId: string, challenger: User): Promise<Duel | null> => {
+  const duel: Duel = {
+    id: generateId(),
+    kind,
+    targetId,
+    challengerId: challenger.id,
+    challengerName: challenger.name,
+    status: 'open',
+    createdAt: Date.now(),
+  };
+  return (await getRepositories().duels.insertDuel(duel)) ? duel : null;
+};
+
+// --- Result ---
+
+export interface DuelRound {
+  gameId: string;
+  game: PlayableGame | null;
+  answer: GameAnswer | null; // only once the viewer has answered this round (or made the game)
+  challenger: Guess | null;
+  opponent: Guess | null;
+  winnerId: string | null; // null while a side is missing, or on an exact tie
+}
+
+export interface DuelResult {
+  duel: Duel;
+  title: string;
+  rounds: DuelRound[];
+  challengerTotal: number;
+  opponentTotal: number;
+  winnerId: string | null; // set once completed; null = still running or a draw
+}
+
+const elapsedOrLast = (ms?: number) => (ms === undefined ? Number.MAX_SAFE_INTEGER : ms);
+
+// Higher score wins; equal scores go to the faster player (same rule as the leaderboards)
+const pickWinner = (
+  a: { userId?: string; score: number; elapsedMs?: number },
+  b: { userId?: string; score: number; elapsedMs?: number }
+): string | null => {
+  if (a.score !== b.score) return (a.score > b.score ? a.userId : b.userId) || null;
+  const ta = elapsedOrLast(a.elapsedMs);
+  const tb = elapsedOrLast(b.elapsedMs);
+  if (ta === tb) return null;
+  return (ta < tb ? a.userId : b.userId) || null;
+};
+
+const sumElapsed = (guesses: (Guess | null)[]): number | undefined =>
+  guesses.every((g) => g?.elapsedMs !== undefined)
+    ? guesses.reduce((acc, g) => acc + (g?.elapsedMs || 0), 0)
+    : undefined;
+
+// Loads a duel as seen by `viewer`. The first other player to open an open duel takes the
+// opponent seat; once both sides have answered every round the duel is marked completed.
+export const loadDuel = async (id: string, viewer: User): Promise<DuelResult | null> => {
+  const { duels, games } = getRepositories();
+
+  let duel = await duels.getDuel(id);
+  if (!duel) return null;
+
+  if (duel.status === 'open' && duel.challengerId !== viewer.id) {
+    // Someone else may have taken the seat first: fall back to what is stored now
+    duel = (await duels.acceptDuel(id, viewer.id, viewer.name, Date.now())) || (await duels.getDuel(id)) || duel;
+  }
+
+  let title = '单题对决';
+  let gameIds = [duel.targetId];
+  if (duel.kind === 'collection') {
+    const data = await getCollection(duel.targetId);
+    if (!data) return null;
+    title = data.collection.name;
+    gameIds = data.gameIds;
+  }
+
+  const [guesses, answers, playable] = await Promise.all([
+    games.listGuessesForGames(gameIds),
+    games.revealAnswers(getUserSecret(viewer.id), gameIds),
+    Promise.all(gameIds.map((gameId) => games.getGame(gameId))),
+  ]);
+
+  const guessOf = (gameId: string, userId?: string): Guess | null =>
+    (userId && guesses.find((g) => g.gameId === gameId && g.userId === userId)) || null;
+
+  const rounds: DuelRound[] = gameIds.map((gameId, i) => {
+    const challenger = guessOf(gameId, duel.challengerId);
+    const opponent = guessOf(gameId, duel.opponentId);
+    return {
+      gameId,
+      game: playable[i],
+      answer: answers[gameId] || null,
+      challenger,
+      opponent,
+      winnerId: challenger && opponent ? pickWinner(challenger, opponent) : null,
+    };
+  });
+
+  const challengerTotal = rounds.reduce((acc, r) => acc + (r.challenger?.score || 0), 0);
+  const opponentTotal = rounds.reduce((acc, r) => acc + (r.opponent?.score || 0), 0);
+
+  const finished = !!duel.opponentId && rounds.every((r) => r.challenger && r.opponent);
+  if (finished && duel.status === 'active') {
+    const completedAt = Date.now();
+    if (await duels.completeDuel(duel.id, completedAt)) duel = { ...duel, status: 'completed', completedAt };
+  }
+
+  const winnerId = duel.status === 'completed'
+    ? pickWinner(
+        { userId: duel.challengerId, score: challengerTotal, elapsedMs: sumElapsed(rounds.map((r) => r.challenger)) },
+        { userId: duel.opponentId, score: opponentTotal, elapsedMs: sumElapsed(rounds.map((r) => r.opponent)) }
+      )
+    : null;
+
+  return { duel, title, rounds, challengerTotal, opponentTotal, winnerId };
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { snapBounds } from './geocodingService';
+
+describe('snapBounds', () => {
+  it('widens a box outward to the 5° grid', () => {
+    expect(snapBounds({ south: 30.1, west: 120.1, north: 33.2, east: 121.9 })).toEqual({ south: 30, west: 120, north: 35, east: 125 });
+  });
+
+  it('never returns less than one grid cell', () => {
+    expect(snapBounds({ south: 30, west: 120, north: 30, east: 120 })).toEqual({ south: 30, west: 120, north: 35, east: 125 });
+    expect(snapBounds({ south: 90, west: 180, north: 90, east: 180 })).toEqual({ south: 85, west: 180, north: 90, east: -175 });
+  });
+
+  it('keeps boxes across the antimeridian, or opens them to every longitude once they close', () => {
+    expect(snapBounds({ south: -10, west: 170.5, north: 10, east: -170.5 })).toEqual({ south: -10, west: 170, north: 10, east: -170 });
+    expect(snapBounds({ south: 0, west: 2, north: 5, east: 1 })).toEqual({ south: 0, west: -180, north: 5, east: 180 });
+  });
+});
@@ -1,5 +1,5 @@
 
-import { LatLng } from "../types";
+import { GeoBounds, LatLng } from "../types";
 
 const NOMINATIM_BASE = 'https://nominatim.openstreetmap.org';
 
@@ -24,6 +24,27 @@ export const searchAddress = async (query: string): Promise<SearchResult[]> => {
   }
 };
 
+export interface PlaceRegion {
+  country?: string;
+  province?: string;
+}
+
+// Country and first-level division (province / state) of a point, for region filters
+export const getRegionFromCoords = async (lat: number, lng: number): Promise<PlaceRegion> => {
+  try {
+    const response = await fetch(`${NOMINATIM_BASE}/reverse?format=json&lat=${lat}&lon=${lng}&zoom=8&addressdetails=1&accept-language=zh-CN`);
+    const data = await response.json();
+    const addr = data.address || {};
+    return {
+      country: addr.country || undefined,
+      province: addr.state || addr.province || addr.region || undefined,
+    };
+  } catch (error) {
+    console.error("Reverse geocoding error:", error);
+    return {};
+  }
+};
+
 export const getAddressFromCoords = async (lat: number, lng: number): Promise<string> => {
   try {
     const response = await fetch(`${NOMINATIM_BASE}/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1&accept-language=zh-CN`);
@@ -53,3 +74,32 @@ export const getAddressFromCoords = async (lat: number, lng: number): Promise<st
     return "未知地点";
   }
 };
+
+// --- Play filter boxes ---
+// Answers are hidden, so a box the player draws is widened outward to a BOUNDS_GRID_DEG grid:
+// a box can't be shrunk around one game to locate it, only to the grid cell it falls in.
+// list_unplayed_games snaps whatever it receives the same way (TECH_SPECS §26.5); keep the two in sync.
+export const BOUNDS_GRID_DEG = 5;
+
+export const snapBounds = (b: GeoBounds): GeoBounds => {
+  const down = (v: number) => Math.floor(v / BOUNDS_GRID_DEG) * BOUNDS_GRID_DEG;
+  const up = (v: number) => Math.ceil(v / BOUNDS_GRID_DEG) * BOUNDS_GRID_DEG;
+
+  let south = Math.max(-90, down(Math.min(b.south, b.north)));
+  let north = Math.min(90, up(Math.max(b.south, b.north)));
+  if (north === south) {
+    if (north < 90) north += BOUNDS_GRID_DEG;
+    else south -= BOUNDS_GRID_DEG;
+  }
+
+  const crosses = b.west > b.east; // across the antimeridian
+  let west = Math.max(-180, down(b.west));
+  let east = Math.min(180, up(b.east));
+  if (west === east) east = east < 180 ? east + BOUNDS_GRID_DEG : -180 + BOUNDS_GRID_DEG;
+  // Widening a box that already wraps almost all the way round can close the gap
+  if (crosses && west <= east) {
+    west = -180;
+    east = 180;
+  }
+  return { south, west, north, east };
+};
@@ -0,0 +1,150 @@
+import { getRepositories } from './repository';
+import { GameData, GamePhoto } from '../types';
+
+// --- Renditions ---
+// Every published image is stored in three sizes. `full` is what the creator edits (mosaic)
+// and what players zoom into; the smaller ones are derived from it at publish time.
+
+export type Rendition = 'thumb' | 'medium' | 'full';
+
+export const RENDITIONS: Record<Rendition, { maxWidth: number; quality: number }> = {
+  thumb: { maxWidth: 320, quality: 0.7 },   // list rows, grids, covers
+  medium: { maxWidth: 640, quality: 0.65 }, // cards, preview while the full image loads
+  full: { maxWidth: 1024, quality: 0.6 },   // play / review viewer (~100KB target)
+};
+
+export type RenditionSet = Record<Rendition, string>; // data URLs, before upload
+
+export interface GameImageUrls {
+  imageUrl: string;
+  mediumUrl: string;
+  thumbnailUrl: string;
+}
+
+type GameImageSet = Pick<GameData, 'imageUrl' | 'mediumUrl' | 'thumbnailUrl'>;
+
+// Downscale any image source (data URL or object URL) to maxWidth as a JPEG data URL
+export const resizeImage = (src: string, maxWidth: number, quality: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = img.width > maxWidth ? maxWidth / img.width : 1;
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = src;
+  });
+};
+
+// Upload step: shrink the camera original to the `full` rendition for editing
+export const compressImage = async (file: File): Promise<string> => {
+  const src = URL.createObjectURL(file);
+  try {
+    return await resizeImage(src, RENDITIONS.full.maxWidth, RENDITIONS.full.quality);
+  } catch {
+    return src; // Fallback: keep the original
+  }
+};
+
+// Publish step: derive the smaller renditions from the (possibly mosaic-edited) full image
+export const buildRenditions = async (full: string): Promise<RenditionSet> => {
+  const [medium, thumb] = await Promise.all([
+    resizeImage(full, RENDITIONS.medium.maxWidth, RENDITIONS.medium.quality),
+    resizeImage(full, RENDITIONS.thumb.maxWidth, RENDITIONS.thumb.quality),
+  ]);
+  return { full, medium, thumb };
+};
+
+// Uploads all renditions. Returns null if any upload fails.
+// Photo 0 keeps the original `games/<gameId>/` paths; later photos go under `games/<gameId>/<index>/`.
+export const uploadGameImages = async (
+  gameId: string,
+  renditions: RenditionSet,
+  photoIndex = 0
+): Promise<GameImageUrls | null> => {
+  const { images } = getRepositories();
+  const dir = photoIndex === 0 ? `games/${gameId}` : `games/${gameId}/${photoIndex}`;
+  const [imageUrl, mediumUrl, thumbnailUrl] = await Promise.all([
+    images.upload(`${dir}/full.jpg`, renditions.full),
+    images.upload(`${dir}/medium.jpg`, renditions.medium),
+    images.upload(`${dir}/thumb.jpg`, renditions.thumb),
+  ]);
+  if (!imageUrl || !mediumUrl || !thumbnailUrl) return null;
+  return { imageUrl, mediumUrl, thumbnailUrl };
+};
+
+// --- Multi-photo ---
+
+export const MAX_PHOTOS = 4;
+
+// A game's photos in display order; single-photo games come back as a one-item list
+export const gamePhotos = (game: GameImageSet & { photos?: GamePhoto[] }): GamePhoto[] =>
+  game.photos && game.photos.length > 0
+    ? game.photos
+    : [{ imageUrl: game.imageUrl, mediumUrl: game.mediumUrl, thumbnailUrl: game.thumbnailUrl }];
+
+// --- Selector ---
+// Picks the smallest rendition that still covers the box at the device's pixel ratio.
+// Rows published before renditions existed fall back to the next larger one.
+
+export const selectImageUrl = (game: GameImageSet, displayWidth: number): string => {
+  const needed = displayWidth * (window.devicePixelRatio || 1);
+  if (game.thumbnailUrl && RENDITIONS.thumb.maxWidth >= needed) return game.thumbnailUrl;
+  if (game.mediumUrl && RENDITIONS.medium.maxWidth >= needed) return game.mediumUrl;
+  return game.imageUrl;
+};
+
+// Box widths (CSS px) of the list components, kept here so the selector calls read the same everywhere
+export const DISPLAY_WIDTH = {
+  row: 48,     // CollectionHome question rows, collection card covers
+  grid: 120,   // CollectionCreator 3-column picker, tag page grid
+  card: 200,   // 2-column game cards (home, history, created list)
+} as const;
+
+// --- Legacy Migration ---
+// Moves Base64 rows (games.image_data) into object storage, one batch at a time.
+// Runs in the browser because renditions are rendered with canvas; triggered via #admin/migrate-images.
+
+export interface MigrationResult {
+  migrated: number;
+  failed: string[]; // game ids
+}
+
+export const migrateLegacyGameImages = async (batchSize = 10): Promise<MigrationResult> => {
+  const { games } = getRepositories();
+  const result: MigrationResult = { migrated: 0, failed: [] };
+
+  while (true) {
+    const rows = (await games.listLegacyImageGames(batchSize + result.failed.length)).filter(
+      (r) => !result.failed.includes(r.id)
+    );
+    if (rows.length === 0) break;
+
+    let progressed = false;
+    for (const row of rows) {
+      try {
+        const urls = await uploadGameImages(row.id, await buildRenditions(row.imageData));
+        if (urls && !urls.imageUrl.startsWith('data:') && (await games.setGameImageUrls(row.id, urls))) {
+          result.migrated += 1;
+          progressed = true;
+          continue;
+        }
+      } catch (e) {
+        console.error(`Error migrating image for game ${row.id}:`, e);
+      }
+      result.failed.push(row.id);
+    }
+    if (!progressed) break;
+  }
+
+  return result;
+};
@@ -0,0 +1,46 @@
+import { getRepositories } from './repository';
+import { LeaderboardMetric, PlayerRanking } from '../types';
+
+// --- Player Leaderboards ---
+// Global boards across every guess, as opposed to the per-collection ones in collectionService.
+// "week" is a rolling window (the last 7 days), not a calendar week, so it never starts empty.
+
+export type LeaderboardPeriod = 'all' | 'week';
+
+export const LEADERBOARD_PAGE_SIZE = 20;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A single lucky guess shouldn't top the average board
+export const AVERAGE_MIN_GAMES: Record<LeaderboardPeriod, number> = { all: 20, week: 5 };
+
+const rankingQuery = (period: LeaderboardPeriod, metric: LeaderboardMetric, now: number) => ({
+  metric,
+  since: period === 'week' ? now - WEEK_MS : undefined,
+  minGames: metric === 'average' ? AVERAGE_MIN_GAMES[period] : 1,
+});
+
+export const getPlayerLeaderboardPage = async (
+  period: LeaderboardPeriod,
+  metric: LeaderboardMetric,
+  page: number,
+  now = Date.now()
+): Promise<{ rows: PlayerRanking[]; hasMore: boolean }> => {
+  const rows = await getRepositories().games.listPlayerRankings({
+    ...rankingQuery(period, metric, now),
+    page,
+    pageSize: LEADERBOARD_PAGE_SIZE,
+  });
+  // A full page may be followed by an empty one; that costs one extra request at most
+  return { rows, hasMore: rows.length === LEADERBOARD_PAGE_SIZE };
+};
+
+// The viewer's own row for the pinned "my rank" bar; null if they aren't ranked on this board
+export const getMyPlayerRanking = async (
+  userId: string,
+  period: LeaderboardPeriod,
+  metric: LeaderboardMetric,
+  now = Date.now()
+): Promise<PlayerRanking | null> => {
+  const rows = await getRepositories().games.listPlayerRankings({ ...rankingQuery(period, metric, now), userId });
+  return rows[0] || null;
+};
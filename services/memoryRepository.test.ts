@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryRepositories } from './memoryRepository';
+import { getRepositories, Repositories, setRepositories } from './repository';
+import { Collection, CollectionAttempt, GameData } from '../types';
+
+const game = (id: string, extra: Partial<GameData> = {}): GameData => ({
+  id, createdAt: 1, imageUrl: '', authorId: 'author', authorName: 'author', location: { lat: 0, lng: 0 }, ...extra,
+});
+
+const guess = (gameId: string, userId = 'p1', collectionId?: string, location: { lat: number; lng: number } | null = { lat: 0, lng: 0 }) => ({
+  id: `${gameId}-${userId}`, gameId, userId, userName: userId, location, collectionId,
+});
+
+// A profile with its device secret registered as `${id}-secret`
+const addPlayer = async (repos: Repositories, id: string) => {
+  await repos.games.insertProfile({ id, name: id, avatarSeed: id });
+  await repos.games.registerProfileSecret(id, `${id}-secret`);
+};
+
+const collection = (id: string, createdAt: number, extra: Partial<Collection> = {}): Collection => ({
+  id, name: `集锦 ${id}`, authorId: 'author', authorName: 'author', createdAt, itemCount: 1, ...extra,
+});
+
+describe('memory backend', () => {
+  it('is what getRepositories serves after setRepositories', () => {
+    const repos = createMemoryRepositories();
+    setRepositories(repos);
+    expect(getRepositories()).toBe(repos);
+  });
+
+  it('hands out copies, so callers cannot change stored rows', async () => {
+    const repos = createMemoryRepositories({ collections: [{ collection: collection('c1', 1), gameIds: ['g1'] }] });
+    const read = await repos.collections.getCollection('c1');
+    read!.name = 'changed';
+    expect((await repos.collections.getCollection('c1'))?.name).toBe('集锦 c1');
+    expect(await repos.collections.getCollection('missing')).toBeNull();
+  });
+
+  it('rejects a duplicate id and keeps the first row', async () => {
+    const repos = createMemoryRepositories();
+    expect(await repos.collections.insertCollection(collection('c1', 1), ['g1'])).toBe(true);
+    expect(await repos.collections.insertCollection({ ...collection('c1', 2), name: 'other' }, ['g2'])).toBe(false);
+    expect(await repos.collections.listCollectionGameIds('c1')).toEqual(['g1']);
+  });
+
+  it('lists collections newest first, a page at a time', async () => {
+    const repos = createMemoryRepositories({
+      collections: [1, 3, 2].map((t) => ({ collection: collection(`c${t}`, t), gameIds: [] })),
+    });
+    const ids = async (page?: number) =>
+      (await repos.collections.listCollections(page === undefined ? {} : { page, pageSize: 2 })).map((c) => c.id);
+    expect(await ids()).toEqual(['c3', 'c2', 'c1']);
+    expect(await ids(1)).toEqual(['c1']);
+  });
+});
+
+describe('submitGuess timing', () => {
+  let repos: Repositories;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1_000_000);
+    repos = createMemoryRepositories({
+      games: [game('untimed'), game('timed', { timeLimitSec: 10 }), game('inCollection')],
+      collections: [{
+        collection: { id: 'c1', name: 'c', authorId: 'author', authorName: 'author', createdAt: 1, itemCount: 1, timeLimitSec: 20 },
+        gameIds: ['inCollection'],
+      }],
+    });
+    await addPlayer(repos, 'p1');
+    await addPlayer(repos, 'p2');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const submitAfter = async (gameId: string, ms: number, collectionId?: string) => {
+    await repos.games.startRound(gameId, 'p1', 'p1-secret', collectionId);
+    vi.advanceTimersByTime(ms);
+    return repos.games.submitGuess(guess(gameId, 'p1', collectionId), 'p1-secret');
+  };
+
+  it('keeps the distance score on untimed games', async () => {
+    const result = await submitAfter('untimed', 60_000);
+    expect(result).toMatchObject({ distance: 0, score: 5000, elapsedMs: 60_000 });
+  });
+
+  it('adds up to 20% for the time left', async () => {
+    expect((await submitAfter('timed', 0))?.score).toBe(6000);
+  });
+
+  it('scales the bonus with the time left', async () => {
+    expect((await submitAfter('timed', 5_000))?.score).toBe(5500);
+  });
+
+  it('keeps the base score within the grace period and scores later guesses as timeouts', async () => {
+    expect((await submitAfter('timed', 14_000))?.score).toBe(5000);
+    const late = createMemoryRepositories({ games: [game('timed', { timeLimitSec: 10 })] });
+    await addPlayer(late, 'p1');
+    await late.games.startRound('timed', 'p1', 'p1-secret');
+    vi.advanceTimersByTime(15_001);
+    expect((await late.games.submitGuess(guess('timed'), 'p1-secret'))?.score).toBe(0);
+  });
+
+  it('returns an existing guess as-is', async () => {
+    const first = await submitAfter('timed', 5_000);
+    vi.advanceTimersByTime(60_000);
+    expect(await repos.games.submitGuess(guess('timed'), 'p1-secret')).toEqual(first);
+  });
+
+  it('scores a timed guess without a recorded start as a timeout', async () => {
+    const result = await repos.games.submitGuess(guess('timed'), 'p1-secret');
+    expect(result).toMatchObject({ score: 0, distance: 0 });
+    expect(result?.elapsedMs).toBeUndefined();
+  });
+
+  it('accepts a missing pin only on timed rounds', async () => {
+    expect(await repos.games.submitGuess(guess('untimed', 'p1', undefined, null), 'p1-secret')).toBeNull();
+    await repos.games.startRound('timed', 'p1', 'p1-secret');
+    expect(await repos.games.submitGuess(guess('timed', 'p1', undefined, null), 'p1-secret')).toMatchObject({ score: 0, distance: null });
+  });
+
+  it("applies a collection's limit only to its own games", async () => {
+    expect((await submitAfter('inCollection', 10_000, 'c1'))?.score).toBe(5500);
+    expect((await repos.games.startRound('untimed', 'p2', 'p2-secret', 'c1'))?.timeLimitSec).toBeUndefined();
+  });
+
+  it('refuses to start or answer a round as someone else', async () => {
+    expect(await repos.games.startRound('timed', 'p2', 'p1-secret')).toBeNull();
+    expect(await repos.games.submitGuess(guess('timed', 'p2'), 'p1-secret')).toBeNull();
+    expect(await repos.games.submitGuess(guess('timed', 'p2'), null)).toBeNull();
+  });
+});
+
+describe('listPlazaCollections', () => {
+  const attempt = (collectionId: string, userId: string, totalScore: number): CollectionAttempt => ({
+    id: `${collectionId}-${userId}-${totalScore}`, collectionId, userId, userName: userId, totalScore, completedAt: 1,
+  });
+
+  const repos = createMemoryRepositories({
+    games: [game('g1', { likes: 1 }), game('g2', { likes: 9 })],
+    collections: [
+      { collection: collection('old', 1, { tags: ['tokyo'] }), gameIds: ['g1'] },
+      { collection: collection('new', 3), gameIds: ['g2'] },
+      { collection: collection('mid', 2, { tags: ['tokyo'] }), gameIds: ['g1'] },
+      { collection: collection('daily-2026-10-19', 4, { isDaily: true }), gameIds: ['g1'] },
+    ],
+    attempts: [
+      attempt('old', 'a', 1000), attempt('old', 'a', 4000), attempt('old', 'b', 2000),
+      attempt('mid', 'a', 500),
+    ],
+  });
+
+  const ids = async (query: Partial<Parameters<typeof repos.collections.listPlazaCollections>[0]>) =>
+    (await repos.collections.listPlazaCollections({ sort: 'newest', page: 0, pageSize: 10, ...query })).map((c) => c.id);
+
+  it('lists newest first and leaves out daily challenges', async () => {
+    expect(await ids({})).toEqual(['new', 'mid', 'old']);
+  });
+
+  it('ranks popular by distinct players, rating by average likes, hardest by average best score', async () => {
+    expect(await ids({ sort: 'popular' })).toEqual(['old', 'mid', 'new']);
+    expect(await ids({ sort: 'rating' })).toEqual(['new', 'mid', 'old']);
+    // Collections nobody has finished go last
+    expect(await ids({ sort: 'hardest' })).toEqual(['mid', 'old', 'new']);
+  });
+
+  it('filters by tag and search, and pages', async () => {
+    expect(await ids({ tag: 'tokyo' })).toEqual(['mid', 'old']);
+    expect(await ids({ search: '集锦 N' })).toEqual(['new']);
+    expect(await ids({ page: 1, pageSize: 2 })).toEqual(['old']);
+  });
+});
+
+describe('profile ownership', () => {
+  let repos: Repositories;
+
+  beforeEach(async () => {
+    repos = createMemoryRepositories();
+    await addPlayer(repos, 'anon');
+    await addPlayer(repos, 'mine');
+  });
+
+  it('links a profile to the signed-in account only with its own secret', async () => {
+    expect(await repos.games.linkProfileToAuth('mine', 'mine-secret')).toBe(false);
+    await repos.auth.sendMagicLink('me@example.com');
+    expect(await repos.games.linkProfileToAuth('mine', 'anon-secret')).toBe(false);
+    expect(await repos.games.linkProfileToAuth('mine', 'mine-secret')).toBe(true);
+    expect(await repos.games.linkProfileToAuth('anon', 'anon-secret')).toBe(false);
+    expect((await repos.games.findProfileByAuthId('local-me@example.com'))?.id).toBe('mine');
+  });
+
+  it('merges an anonymous profile only when the caller holds both secrets', async () => {
+    await repos.games.insertGame(game('g1', { authorId: 'anon' }));
+    expect(await repos.games.mergeProfile('anon', 'mine', null, 'mine-secret')).toBe(false);
+    expect(await repos.games.mergeProfile('anon', 'mine', 'mine-secret', 'mine-secret')).toBe(false);
+    expect(await repos.games.mergeProfile('anon', 'mine', 'anon-secret', null)).toBe(false);
+    expect(await repos.games.mergeProfile('anon', 'mine', 'anon-secret', 'mine-secret')).toBe(true);
+    expect((await repos.games.getGame('g1'))?.authorId).toBe('mine');
+  });
+
+  it("reserves a new game's images for the first claimant until the game is published", async () => {
+    expect(await repos.games.claimGameImages('g1', 'mine', 'anon-secret')).toBe(false);
+    expect(await repos.games.claimGameImages('g1', 'mine', 'mine-secret')).toBe(true);
+    expect(await repos.games.claimGameImages('g1', 'anon', 'anon-secret')).toBe(false);
+    await repos.games.insertGame(game('g1', { authorId: 'mine' }));
+    expect(await repos.games.claimGameImages('g1', 'mine', 'mine-secret')).toBe(false);
+  });
+});
+
+describe('submitAttempt', () => {
+  let repos: Repositories;
+
+  beforeEach(async () => {
+    repos = createMemoryRepositories({
+      games: [game('g1'), game('g2')],
+      collections: [{ collection: collection('c1', 1, { itemCount: 2 }), gameIds: ['g1', 'g2'] }],
+    });
+    await addPlayer(repos, 'p1');
+    await addPlayer(repos, 'p2');
+  });
+
+  const play = (gameId: string, location = { lat: 0, lng: 0 }) =>
+    repos.games.submitGuess(guess(gameId, 'p1', 'c1', location), 'p1-secret');
+
+  it("sums the totals from the player's own guesses", async () => {
+    await play('g1');
+    expect(await repos.collections.submitAttempt('a1', 'c1', 'p1', 'p1', 'p1-secret')).toBe(false);
+    await play('g2', { lat: 10, lng: 10 });
+    expect(await repos.collections.submitAttempt('a1', 'c1', 'p1', 'p1', 'p1-secret')).toBe(true);
+    const [attempt] = await repos.collections.listAttempts({ collectionId: 'c1' });
+    const scores = (await repos.games.listGuessesForGames(['g1', 'g2'])).map((g) => g.score);
+    expect(attempt).toMatchObject({ userId: 'p1', totalScore: scores[0] + scores[1] });
+    expect(attempt.totalElapsedMs).toBeUndefined();
+  });
+
+  it('refuses to record a run for someone else', async () => {
+    await play('g1');
+    await play('g2');
+    expect(await repos.collections.submitAttempt('a1', 'c1', 'p1', 'p1', 'p2-secret')).toBe(false);
+    expect(await repos.collections.listAttempts({ collectionId: 'c1' })).toEqual([]);
+  });
+});
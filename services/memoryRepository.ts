@@ -0,0 +1,869 @@
+import {
+  Collection, CollectionAttempt, CreatorRanking, Duel, GameAnswer, GameData, GameFilter, GameRegion, Guess,
+  PlayableGame, PlayerRanking, SkillRating, TagCount, UnlockedAchievement, User,
+} from '../types';
+import {
+  AchievementRepository, AuthRepository, AuthSession, CollectionRepository, DeviceLink, DeviceLinkRepository, DuelRepository,
+  GameMeta, GameRepository, ImageRepository, RealtimeRepository, Repositories, RoomChannel, RoomMember,
+} from './repository';
+import {
+  MAX_SCORE, applyTimeBonus, calculateDistance, calculateScore, isValidLocation, resolveScoring, resolveTimeLimit,
+} from './scoringService';
+import { computeDifficulty, difficultyLevel } from './difficultyService';
+import { snapBounds } from './geocodingService';
+import { RATING_START, ratingDelta } from './ratingService';
+
+// In-memory backend: same contract as the Supabase implementation, no network.
+// Used for local development (VITE_DATA_BACKEND=memory) and for tests via setRepositories().
+// Everything lives in this closure, so a page reload starts from the seed again.
+// Images are the exception: they go to the dev server's local filesystem stand-in
+// (see localImageStore in vite.config.ts) so URLs look like real object storage.
+
+export interface MemorySeed {
+  profiles?: User[];
+  games?: (GameData & { isBeginnerFriendly?: boolean; rating?: number; ratedPlays?: number })[];
+  guesses?: Guess[];
+  collections?: { collection: Collection; gameIds: string[]; featuredOrder?: number }[];
+  attempts?: CollectionAttempt[];
+  duels?: Duel[];
+  achievements?: UnlockedAchievement[];
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Missing elapsed times (untimed legacy rows) sort after any measured one
+const elapsedOrLast = (ms?: number) => (ms === undefined ? Number.MAX_SAFE_INTEGER : ms);
+
+const byScoreThenTime = (a: CollectionAttempt, b: CollectionAttempt) =>
+  b.totalScore - a.totalScore ||
+  elapsedOrLast(a.totalElapsedMs) - elapsedOrLast(b.totalElapsedMs) ||
+  a.completedAt - b.completedAt;
+
+type SeedGame = NonNullable<MemorySeed['games']>[number];
+
+const toGameMeta = (g: SeedGame): GameMeta => ({
+  id: g.id,
+  createdAt: g.createdAt,
+  isBeginnerFriendly: !!g.isBeginnerFriendly,
+  difficulty: g.difficulty,
+  rating: g.rating ?? RATING_START,
+  ratedPlays: g.ratedPlays ?? 0,
+});
+
+// Same rules as list_unplayed_games (TECH_SPECS §25, §26), including the grid snap of boxes
+const matchesFilter = (g: SeedGame, filter: GameFilter): boolean => {
+  const { country, province, bounds: rawBounds, difficulty, authorId, tag } = filter;
+  if (authorId && g.authorId !== authorId) return false;
+  if (tag && !(g.tags || []).includes(tag)) return false;
+  // Games published before regions were recorded fall back to their location name
+  if (country && !(g.country ? g.country === country : (g.locationName || '').includes(country))) return false;
+  if (province && !(g.province ? g.province === province : (g.locationName || '').includes(province))) return false;
+  if (difficulty && difficulty.length > 0 && !difficulty.includes(difficultyLevel(g.difficulty)!)) return false;
+  if (rawBounds) {
+    const bounds = snapBounds(rawBounds);
+    const { lat, lng } = g.location;
+    if (lat < bounds.south || lat > bounds.north) return false;
+    const inLng = bounds.west <= bounds.east
+      ? lng >= bounds.west && lng <= bounds.east
+      : lng >= bounds.west || lng <= bounds.east; // crosses the antimeridian
+    if (!inLng) return false;
+  }
+  return true;
+};
+
+// Mirrors ensure_daily_challenge (TECH_SPECS §18); FNV-1a stands in for the md5 ordering
+const DAILY_SIZE = 5;
+const dailyDayStart = (day: string): number => Date.parse(`${day}T00:00:00+08:00`);
+const dailyDayKey = (time = Date.now()): string => new Date(time + 8 * 60 * 60 * 1000).toISOString().slice(0, 10);
+const fnv1a = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const createMemoryRepositories = (seed: MemorySeed = {}): Repositories => {
+  const profiles = new Map<string, User>();
+  const games = new Map<string, GameData & { isBeginnerFriendly?: boolean; rating?: number; ratedPlays?: number }>();
+  const playerRatings = new Map<string, SkillRating>(); // stands in for profiles.rating / rated_games
+  const guesses: Guess[] = clone(seed.guesses || []);
+  const collections = new Map<string, Collection>();
+  const collectionItems = new Map<string, string[]>(); // collectionId -> ordered gameIds
+  const featuredOrder = new Map<string, number>();
+  const attempts: CollectionAttempt[] = clone(seed.attempts || []);
+  const roundStarts = new Map<string, number>(); // `${gameId}:${userId}` -> started at
+  const imageClaims = new Map<string, string>(); // gameId -> author (stands in for game_image_claims)
+  const duels = new Map<string, Duel>();
+  const achievements: UnlockedAchievement[] = clone(seed.achievements || []);
+  const profileSecrets = new Map<string, string>(); // secret -> profile id (stands in for profile_secrets)
+
+  seed.profiles?.forEach((p) => profiles.set(p.id, clone(p)));
+  seed.games?.forEach((g) => games.set(g.id, clone(g)));
+  seed.collections?.forEach(({ collection, gameIds, featuredOrder: order }) => {
+    collections.set(collection.id, clone(collection));
+    collectionItems.set(collection.id, [...gameIds]);
+    if (order !== undefined) featuredOrder.set(collection.id, order);
+  });
+  seed.duels?.forEach((d) => duels.set(d.id, clone(d)));
+
+  // Mirrors caller_profile_id: the secret's profile, else the signed-in account's
+  const callerId = (secret: string | null): string | null =>
+    (secret && profileSecrets.get(secret)) ||
+    (session && Array.from(profiles.values()).find((p) => p.authUserId === session!.authUserId)?.id) ||
+    null;
+
+  // The collection whose scoring / time limit applies, if the game really belongs to it
+  const collectionFor = (collectionId: string | undefined, gameId: string) =>
+    collectionId && collectionItems.get(collectionId)?.includes(gameId) ? collections.get(collectionId) : null;
+
+  const gameRepository: GameRepository = {
+    async getProfile(id) {
+      const p = profiles.get(id);
+      return p ? clone(p) : null;
+    },
+
+    async insertProfile(user) {
+      if (profiles.has(user.id)) return false;
+      const { authUserId, ...anonymous } = user; // like the column grants: accounts only via linkProfileToAuth
+      profiles.set(user.id, clone(anonymous));
+      return true;
+    },
+
+    async upsertProfile(user) {
+      profiles.set(user.id, clone({ ...profiles.get(user.id), ...user }));
+      return true;
+    },
+
+    async findProfileByAuthId(authUserId) {
+      const p = Array.from(profiles.values()).find((x) => x.authUserId === authUserId);
+      return p ? clone(p) : null;
+    },
+
+    async linkProfileToAuth(profileId, secret) {
+      // Mirrors link_profile_to_auth: the session's account, the profile's own secret, one profile per account
+      const p = profiles.get(profileId);
+      if (!session || !p || p.authUserId || !secret || profileSecrets.get(secret) !== profileId) return false;
+      if (Array.from(profiles.values()).some((x) => x.authUserId === session!.authUserId)) return false;
+      p.authUserId = session.authUserId;
+      return true;
+    },
+
+    async mergeProfile(fromUserId, toUserId, fromSecret, toSecret) {
+      // Mirrors merge_profile; only anonymous profiles are folded into another one, and only by their owner
+      const from = profiles.get(fromUserId);
+      if (!from || from.authUserId || fromUserId === toUserId || !profiles.has(toUserId)) return false;
+      if (!fromSecret || profileSecrets.get(fromSecret) !== fromUserId || callerId(toSecret) !== toUserId) return false;
+      const removeWhere = <T>(rows: T[], drop: (row: T) => boolean) => {
+        for (let i = rows.length - 1; i >= 0; i--) if (drop(rows[i])) rows.splice(i, 1);
+      };
+
+      // A game both have played keeps the target's guess (its rating / difficulty updates already ran)
+      const playedByTarget = new Set(guesses.filter((g) => g.userId === toUserId).map((g) => g.gameId));
+      removeWhere(guesses, (g) => g.userId === fromUserId && playedByTarget.has(g.gameId));
+      guesses.forEach((g) => { if (g.userId === fromUserId) g.userId = toUserId; });
+      games.forEach((g) => { if (g.authorId === fromUserId) g.authorId = toUserId; });
+      Array.from(roundStarts.keys()).forEach((key) => {
+        const [gameId, userId] = key.split(':');
+        if (userId !== fromUserId) return;
+        const target = `${gameId}:${toUserId}`;
+        if (!roundStarts.has(target)) roundStarts.set(target, roundStarts.get(key)!);
+        roundStarts.delete(key);
+      });
+
+      // One attempt per collection: the better one wins, the target's on a full tie
+      const best = new Map<string, CollectionAttempt>();
+      attempts
+        .filter((a) => a.userId === toUserId || a.userId === fromUserId)
+        .sort((a, b) => byScoreThenTime(a, b) || (a.userId === toUserId ? -1 : 1))
+        .forEach((a) => { if (!best.has(a.collectionId)) best.set(a.collectionId, a); });
+      removeWhere(attempts, (a) => (a.userId === toUserId || a.userId === fromUserId) && best.get(a.collectionId) !== a);
+      attempts.forEach((a) => { if (a.userId === fromUserId) a.userId = toUserId; });
+      collections.forEach((c) => { if (c.authorId === fromUserId) c.authorId = toUserId; });
+
+      duels.forEach((d) => {
+        if (d.challengerId === fromUserId) d.challengerId = toUserId;
+        if (d.opponentId === fromUserId) d.opponentId = toUserId;
+      });
+
+      // An achievement both have unlocked keeps the earlier unlock
+      achievements.forEach((a) => {
+        if (a.userId !== fromUserId) return;
+        const own = achievements.find((x) => x.userId === toUserId && x.achievementId === a.achievementId);
+        if (own) own.unlockedAt = Math.min(own.unlockedAt, a.unlockedAt);
+        else a.userId = toUserId;
+      });
+      removeWhere(achievements, (a) => a.userId === fromUserId);
+      return true;
+    },
+
+    async claimGameImages(gameId, userId, secret) {
+      if (games.has(gameId) || callerId(secret) !== userId) return false;
+      if (!imageClaims.has(gameId)) imageClaims.set(gameId, userId);
+      return imageClaims.get(gameId) === userId;
+    },
+
+    async insertGame(game) {
+      if (games.has(game.id)) return false;
+      games.set(game.id, clone({ ...game, likes: game.likes || 0 }));
+      return true;
+    },
+
+    async getGame(id) {
+      const g = games.get(id);
+      if (!g) return null;
+      const { isBeginnerFriendly, rating, ratedPlays, location, locationName, country, province, ...game } = clone(g);
+      return game;
+    },
+
+    async registerProfileSecret(userId, secret) {
+      const p = profiles.get(userId);
+      if (!p || p.authUserId || Array.from(profileSecrets.values()).includes(userId)) return false;
+      profileSecrets.set(secret, userId);
+      return true;
+    },
+
+    async revealAnswers(secret, gameIds) {
+      const userId = callerId(secret);
+      const answers: Record<string, GameAnswer> = {};
+      if (!userId) return answers;
+      gameIds.forEach((id) => {
+        const g = games.get(id);
+        if (!g) return;
+        const allowed = g.authorId === userId || guesses.some((x) => x.gameId === id && x.userId === userId);
+        if (allowed) answers[id] = clone({ location: g.location, locationName: g.locationName });
+      });
+      return answers;
+    },
+
+    async listRecentGameMeta(limit) {
+      return Array.from(games.values())
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, limit)
+        .map(toGameMeta);
+    },
+
+    async listUnplayedGameMeta(userId, filter, limit) {
+      // Mirrors list_unplayed_games: anti-join on guesses, filters, random sample
+      const all = Array.from(games.values());
+      // Only regions listGameRegions offers, so free text can't probe hidden location names
+      if (filter.country && !all.some((g) => g.country === filter.country)) return [];
+      if (filter.province && !all.some((g) => g.country === filter.country && g.province === filter.province)) return [];
+      const played = new Set(guesses.filter((x) => x.userId === userId).map((x) => x.gameId));
+      const pool = all.filter((g) => !played.has(g.id) && matchesFilter(g, filter));
+      return pool
+        .map((g) => ({ g, r: Math.random() }))
+        .sort((a, b) => a.r - b.r)
+        .slice(0, limit)
+        .map(({ g }) => toGameMeta(g));
+    },
+
+    async listGameRegions() {
+      const counts = new Map<string, GameRegion>();
+      games.forEach((g) => {
+        if (!g.country) return;
+        const key = `${g.country}|${g.province || ''}`;
+        const entry = counts.get(key) || { country: g.country, province: g.province, games: 0 };
+        entry.games += 1;
+        counts.set(key, entry);
+      });
+      return Array.from(counts.values()).sort((a, b) => b.games - a.games);
+    },
+
+    async listGamesByTag(tag, limit) {
+      const list = Array.from(games.values())
+        .filter((g) => (g.tags || []).includes(tag))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, limit);
+      return Promise.all(list.map((g) => gameRepository.getGame(g.id))) as Promise<PlayableGame[]>;
+    },
+
+    async listTagCounts(limit) {
+      const counts = new Map<string, TagCount>();
+      const count = (tag: string, field: 'games' | 'collections') => {
+        const entry = counts.get(tag) || { tag, games: 0, collections: 0 };
+        entry[field] += 1;
+        counts.set(tag, entry);
+      };
+      games.forEach((g) => (g.tags || []).forEach((t) => count(t, 'games')));
+      collections.forEach((c) => (c.tags || []).forEach((t) => count(t, 'collections')));
+      return Array.from(counts.values())
+        .sort((a, b) => b.games + b.collections - (a.games + a.collections) || a.tag.localeCompare(b.tag))
+        .slice(0, limit);
+    },
+
+    async listGamesByAuthor(authorId) {
+      const list = Array.from(games.values())
+        .filter((g) => g.authorId === authorId)
+        .sort((a, b) => b.createdAt - a.createdAt);
+      return Promise.all(list.map((g) => gameRepository.getGame(g.id))) as Promise<PlayableGame[]>;
+    },
+
+    async setGameImageUrls(id, urls) {
+      const g = games.get(id);
+      if (!g) return false;
+      Object.assign(g, urls);
+      return true;
+    },
+
+    async listLegacyImageGames(limit) {
+      return Array.from(games.values())
+        .filter((g) => g.imageUrl.startsWith('data:'))
+        .slice(0, limit)
+        .map((g) => ({ id: g.id, imageData: g.imageUrl }));
+    },
+
+    async getGameLikes(id) {
+      const g = games.get(id);
+      return g ? g.likes || 0 : null;
+    },
+
+    async setGameLikes(id, likes) {
+      const g = games.get(id);
+      if (!g) return false;
+      g.likes = likes;
+      return true;
+    },
+
+    // Local stand-in for the start_round RPC
+    async startRound(gameId, userId, secret, collectionId) {
+      const game = games.get(gameId);
+      if (!game || callerId(secret) !== userId) return null;
+      const key = `${gameId}:${userId}`;
+      if (!roundStarts.has(key)) roundStarts.set(key, Date.now());
+      return {
+        elapsedMs: Date.now() - roundStarts.get(key)!,
+        timeLimitSec: resolveTimeLimit(game, collectionFor(collectionId, gameId)),
+      };
+    },
+
+    // Local stand-in for the submit_guess RPC: same validation and scoring
+    async submitGuess(submission, secret) {
+      const game = games.get(submission.gameId);
+      if (!game || callerId(secret) !== submission.userId) return null;
+
+      const existing = guesses.find((g) => g.gameId === submission.gameId && g.userId === submission.userId);
+      if (existing) return clone(existing);
+
+      const { collectionId, ...fields } = submission;
+      const collection = collectionFor(collectionId, game.id);
+      const timeLimitSec = resolveTimeLimit(game, collection);
+      // No pin is only acceptable when a timed round ran out
+      if (submission.location ? !isValidLocation(submission.location) : !timeLimitSec) return null;
+
+      const startedAt = roundStarts.get(`${game.id}:${submission.userId}`);
+      const elapsedMs = startedAt !== undefined ? Date.now() - startedAt : undefined;
+      // A timed round that was never started (startRound skipped) is scored as a timeout
+      const distance = submission.location ? calculateDistance(game.location, submission.location) : null;
+      const baseScore = distance === null ? 0 : calculateScore(distance, resolveScoring(game, collection));
+
+      const guess: Guess = {
+        ...clone(fields),
+        distance,
+        score: timeLimitSec && elapsedMs === undefined ? 0 : applyTimeBonus(baseScore, elapsedMs ?? 0, timeLimitSec),
+        timestamp: Date.now(),
+        elapsedMs,
+      };
+      guesses.push(guess);
+      // Stands in for the database triggers that run after every guess
+      game.difficulty = computeDifficulty(guesses.filter((g) => g.gameId === game.id));
+      if (game.authorId !== guess.userId) {
+        const player = playerRatings.get(guess.userId) || { rating: RATING_START, plays: 0 };
+        const delta = ratingDelta(player.rating, game.rating ?? RATING_START, guess.score);
+        playerRatings.set(guess.userId, { rating: player.rating + delta, plays: player.plays + 1 });
+        game.rating = (game.rating ?? RATING_START) - delta;
+        game.ratedPlays = (game.ratedPlays ?? 0) + 1;
+      }
+      return clone(guess);
+    },
+
+    async listGuessesForGame(gameId) {
+      return clone(
+        guesses
+          .filter((g) => g.gameId === gameId)
+          .sort((a, b) => b.score - a.score || elapsedOrLast(a.elapsedMs) - elapsedOrLast(b.elapsedMs))
+      );
+    },
+
+    async listGuessesForGames(gameIds) {
+      const ids = new Set(gameIds);
+      return clone(guesses.filter((g) => ids.has(g.gameId)));
+    },
+
+    async listGuessesByUser(userId, gameIds) {
+      const ids = gameIds ? new Set(gameIds) : null;
+      return clone(
+        guesses
+          .filter((g) => g.userId === userId && (!ids || ids.has(g.gameId)))
+          .sort((a, b) => b.timestamp - a.timestamp)
+      );
+    },
+
+    async hasGuess(gameId, userId) {
+      return guesses.some((g) => g.gameId === gameId && g.userId === userId);
+    },
+
+    async getPlayerRating(userId) {
+      if (!profiles.has(userId)) return null;
+      return clone(playerRatings.get(userId) || { rating: RATING_START, plays: 0 });
+    },
+
+    async listPlayerXp(userIds) {
+      const result: Record<string, number> = {};
+      guesses.forEach((g) => {
+        if (userIds.includes(g.userId)) result[g.userId] = (result[g.userId] || 0) + g.score;
+      });
+      return result;
+    },
+
+    async listPlayerRankings({ metric, since = 0, minGames = 1, userId, page = 0, pageSize = 20 }) {
+      const totals = new Map<string, { totalScore: number; gamesPlayed: number }>();
+      guesses.forEach((g) => {
+        if (g.timestamp < since) return;
+        const t = totals.get(g.userId) || { totalScore: 0, gamesPlayed: 0 };
+        totals.set(g.userId, { totalScore: t.totalScore + g.score, gamesPlayed: t.gamesPlayed + 1 });
+      });
+
+      const value = (r: Omit<PlayerRanking, 'rank'>) =>
+        metric === 'average' ? r.averageScore : metric === 'games' ? r.gamesPlayed : r.totalScore;
+      const ranked: PlayerRanking[] = Array.from(totals.entries())
+        .filter(([id, t]) => t.gamesPlayed >= minGames && profiles.has(id))
+        .map(([id, t]) => ({
+          userId: id,
+          userName: profiles.get(id)!.name,
+          avatarSeed: profiles.get(id)!.avatarSeed,
+          ...t,
+          averageScore: t.totalScore / t.gamesPlayed,
+        }))
+        .sort((a, b) => value(b) - value(a) || b.totalScore - a.totalScore || (a.userId < b.userId ? -1 : 1))
+        .map((r, i) => ({ ...r, rank: i + 1 }));
+
+      const rows = userId ? ranked.filter((r) => r.userId === userId) : ranked;
+      return rows.slice(page * pageSize, (page + 1) * pageSize);
+    },
+
+    async listTopCreators(limit) {
+      const byAuthor = new Map<string, { plays: number; gameIds: Set<string> }>();
+      guesses.forEach((g) => {
+        const game = games.get(g.gameId);
+        if (!game || game.authorId === g.userId) return; // self-plays don't count
+        const entry = byAuthor.get(game.authorId) || { plays: 0, gameIds: new Set<string>() };
+        entry.plays++;
+        entry.gameIds.add(g.gameId);
+        byAuthor.set(game.authorId, entry);
+      });
+      return Array.from(byAuthor.entries())
+        .filter(([id]) => profiles.has(id))
+        .map(([id, e]) => ({
+          userId: id,
+          userName: profiles.get(id)!.name,
+          avatarSeed: profiles.get(id)!.avatarSeed,
+          plays: e.plays,
+          gamesCount: e.gameIds.size,
+        }))
+        .sort((a, b) => b.plays - a.plays || (a.userId < b.userId ? -1 : 1))
+        .slice(0, limit)
+        .map((r, i) => ({ ...r, rank: i + 1 }));
+    },
+
+    async getCreatorStats(userId, since) {
+      // Mirrors the creator_* functions of §22.3
+      const mine = Array.from(games.values()).filter((g) => g.authorId === userId);
+      const plays = guesses.filter((g) => g.userId !== userId && games.get(g.gameId)?.authorId === userId);
+
+      const byDay = new Map<string, number>();
+      plays.forEach((g) => {
+        if (g.timestamp < since) return;
+        const day = dailyDayKey(g.timestamp);
+        byDay.set(day, (byDay.get(day) || 0) + 1);
+      });
+
+      return {
+        uniquePlayers: new Set(plays.map((g) => g.userId)).size,
+        playsByDay: Array.from(byDay.entries()).sort().map(([day, count]) => ({ day, plays: count })),
+        games: mine.map((game) => {
+          const own = plays.filter((g) => g.gameId === game.id);
+          const pinned = own.filter((g) => g.distance !== null);
+          return {
+            gameId: game.id,
+            plays: own.length,
+            avgScore: own.length ? own.reduce((s, g) => s + g.score, 0) / own.length : null,
+            avgErrorM: pinned.length ? pinned.reduce((s, g) => s + g.distance!, 0) / pinned.length : null,
+          };
+        }),
+        collections: Array.from(collections.values())
+          .filter((c) => c.authorId === userId)
+          .map((c) => {
+            const best = new Map<string, number>();
+            attempts.forEach((a) => {
+              if (a.collectionId !== c.id || a.userId === userId) return;
+              best.set(a.userId, Math.max(best.get(a.userId) ?? 0, a.totalScore));
+            });
+            const scores = Array.from(best.values());
+            return {
+              collectionId: c.id,
+              completions: scores.length,
+              avgTotalScore: scores.length ? Math.round(scores.reduce((s, v) => s + v, 0) / scores.length) : 0,
+            };
+          }),
+      };
+    },
+  };
+
+  const collectionRepository: CollectionRepository = {
+    async insertCollection(collection, gameIds) {
+      // Dailies only come from ensureDailyCollection, like the insert policy in §18.3
+      if (collections.has(collection.id) || collection.isDaily || collection.id.startsWith('daily-')) return false;
+      collections.set(collection.id, clone(collection));
+      collectionItems.set(collection.id, [...gameIds]);
+      return true;
+    },
+
+    async getCollection(id) {
+      const c = collections.get(id);
+      return c ? clone(c) : null;
+    },
+
+    async listCollectionGameIds(collectionId, limit) {
+      const ids = collectionItems.get(collectionId);
+      if (!ids) return null;
+      return limit !== undefined ? ids.slice(0, limit) : [...ids];
+    },
+
+    async listCollections({ authorId, ids, featured, daily, page, pageSize }) {
+      let list = Array.from(collections.values());
+      if (authorId) list = list.filter((c) => c.authorId === authorId);
+      if (ids) list = list.filter((c) => ids.includes(c.id));
+      if (daily !== undefined) list = list.filter((c) => !!c.isDaily === daily);
+      if (featured) {
+        list = list
+          .filter((c) => featuredOrder.has(c.id))
+          .sort((a, b) => featuredOrder.get(a.id)! - featuredOrder.get(b.id)!);
+      } else {
+        list.sort((a, b) => b.createdAt - a.createdAt);
+      }
+      if (page !== undefined && pageSize !== undefined) {
+        list = list.slice(page * pageSize, (page + 1) * pageSize);
+      }
+      return clone(list);
+    },
+
+    async listPlazaCollections({ search, tag, sort, page, pageSize }) {
+      // Mirrors plaza_collections
+      const needle = search?.trim().toLowerCase();
+      const list = Array.from(collections.values()).filter(
+        (c) =>
+          !c.isDaily &&
+          (!tag || (c.tags || []).includes(tag)) &&
+          (!needle || c.name.toLowerCase().includes(needle) || c.authorName.toLowerCase().includes(needle))
+      );
+
+      const stats = new Map(
+        list.map((c) => {
+          const best = new Map<string, number>();
+          attempts.forEach((a) => {
+            if (a.collectionId === c.id) best.set(a.userId, Math.max(best.get(a.userId) ?? 0, a.totalScore));
+          });
+          const scores = Array.from(best.values());
+          const gameIds = collectionItems.get(c.id) || [];
+          const likes = gameIds.reduce((s, id) => s + (games.get(id)?.likes || 0), 0);
+          return [c.id, {
+            players: scores.length,
+            // Share of the maximum possible total; null until someone has finished it
+            share: scores.length ? scores.reduce((s, v) => s + v, 0) / scores.length / (MAX_SCORE * c.itemCount) : null,
+            avgLikes: gameIds.length ? likes / gameIds.length : 0,
+          }];
+        })
+      );
+
+      const rank = (c: Collection): number => {
+        const s = stats.get(c.id)!;
+        if (sort === 'popular') return -s.players;
+        if (sort === 'rating') return -s.avgLikes;
+        if (sort === 'hardest') return s.share ?? Number.POSITIVE_INFINITY;
+        return 0;
+      };
+      list.sort((a, b) => rank(a) - rank(b) || b.createdAt - a.createdAt || a.id.localeCompare(b.id));
+      return clone(list.slice(page * pageSize, (page + 1) * pageSize));
+    },
+
+    async ensureDailyCollection(day) {
+      const id = `daily-${day}`;
+      if (collections.has(id)) return true;
+      if (day !== dailyDayKey()) return false;
+      const start = dailyDayStart(day);
+      const gameIds = Array.from(games.values())
+        .filter((g) => g.createdAt < start)
+        .map((g) => ({ id: g.id, rank: fnv1a(`${day}:${g.id}`) }))
+        .sort((a, b) => a.rank - b.rank || (a.id < b.id ? -1 : 1))
+        .slice(0, DAILY_SIZE)
+        .map((g) => g.id);
+      if (gameIds.length === 0) return false;
+      const [, month, date] = day.split('-');
+      collections.set(id, {
+        id,
+        name: `每日挑战 ${Number(month)}月${Number(date)}日`,
+        authorId: 'daily',
+        authorName: '每日挑战',
+        createdAt: start,
+        itemCount: gameIds.length,
+        isDaily: true,
+      });
+      collectionItems.set(id, gameIds);
+      return true;
+    },
+
+    async listAttempts({ collectionId, collectionIds, userId }) {
+      return clone(
+        attempts
+          .filter(
+            (a) =>
+              (!collectionId || a.collectionId === collectionId) &&
+              (!collectionIds || collectionIds.includes(a.collectionId)) &&
+              (!userId || a.userId === userId)
+          )
+          .sort(byScoreThenTime)
+      );
+    },
+
+    // Mirrors submit_collection_attempt: every game must have the player's guess
+    async submitAttempt(id, collectionId, userId, userName, secret) {
+      const gameIds = collectionItems.get(collectionId);
+      if (!gameIds || callerId(secret) !== userId) return false;
+      const played = gameIds.map((gameId) => guesses.find((g) => g.gameId === gameId && g.userId === userId));
+      if (played.some((g) => !g)) return false;
+      const totalScore = played.reduce((sum, g) => sum + g!.score, 0);
+      // Undefined if any question has no measured time
+      const totalElapsedMs = played.every((g) => g!.elapsedMs !== undefined)
+        ? played.reduce((sum, g) => sum + g!.elapsedMs!, 0)
+        : undefined;
+
+      const existing = attempts.find((a) => a.collectionId === collectionId && a.userId === userId);
+      if (existing) {
+        if (totalScore > existing.totalScore) Object.assign(existing, { totalScore, completedAt: Date.now(), totalElapsedMs });
+        return false;
+      }
+      attempts.push({ id, collectionId, userId, userName, totalScore, completedAt: Date.now(), totalElapsedMs });
+      return true;
+    },
+  };
+
+  // Local auth stand-in: "sending" the magic link signs in right away.
+  // The auth user id is derived from the email so the same address maps to the same account.
+  let session: AuthSession | null = null;
+  const sessionListeners = new Set<(s: AuthSession | null) => void>();
+  const setSession = (next: AuthSession | null) => {
+    session = next;
+    sessionListeners.forEach((l) => l(next));
+  };
+
+  const authRepository: AuthRepository = {
+    async getSession() {
+      return session ? { ...session } : null;
+    },
+
+    async sendMagicLink(email) {
+      const normalized = email.trim().toLowerCase();
+      setSession({ authUserId: `local-${normalized}`, email: normalized });
+      return true;
+    },
+
+    async signOut() {
+      setSession(null);
+    },
+
+    onSessionChange(listener) {
+      sessionListeners.add(listener);
+      return () => sessionListeners.delete(listener);
+    },
+  };
+
+  const deviceLinks = new Map<string, DeviceLink>();
+
+  const deviceLinkRepository: DeviceLinkRepository = {
+    async insertLink(link, secret) {
+      if (deviceLinks.has(link.code) || callerId(secret) !== link.userId) return false;
+      deviceLinks.set(link.code, clone(link));
+      return true;
+    },
+
+    async consumeLink(code, now, secret) {
+      const link = deviceLinks.get(code);
+      if (!link) return null;
+      deviceLinks.delete(code); // single use
+      if (link.expiresAt <= now) return null;
+      profileSecrets.set(secret, link.userId);
+      return link;
+    },
+  };
+
+  const duelRepository: DuelRepository = {
+    async insertDuel(duel) {
+      if (duels.has(duel.id)) return false;
+      duels.set(duel.id, clone(duel));
+      return true;
+    },
+
+    async getDuel(id) {
+      const d = duels.get(id);
+      return d ? clone(d) : null;
+    },
+
+    async acceptDuel(id, opponentId, opponentName, acceptedAt) {
+      const d = duels.get(id);
+      if (!d || d.status !== 'open' || d.challengerId === opponentId) return null;
+      Object.assign(d, { opponentId, opponentName, status: 'active', acceptedAt });
+      return clone(d);
+    },
+
+    async completeDuel(id, completedAt) {
+      const d = duels.get(id);
+      if (!d) return false;
+      if (d.status === 'active') Object.assign(d, { status: 'completed', completedAt });
+      return true;
+    },
+  };
+
+  const hasAchievement = (userId: string, achievementId: string) =>
+    achievements.some((a) => a.userId === userId && a.achievementId === achievementId);
+
+  const achievementRepository: AchievementRepository = {
+    async listAchievements(userId) {
+      return clone(achievements.filter((a) => a.userId === userId).sort((a, b) => a.unlockedAt - b.unlockedAt));
+    },
+
+    async insertAchievements(rows) {
+      rows.forEach((row) => {
+        if (!hasAchievement(row.userId, row.achievementId)) achievements.push(clone(row));
+      });
+      return true;
+    },
+  };
+
+  return {
+    games: gameRepository,
+    collections: collectionRepository,
+    images: localImageRepository,
+    auth: authRepository,
+    deviceLinks: deviceLinkRepository,
+    realtime: localRealtimeRepository,
+    duels: duelRepository,
+    achievements: achievementRepository,
+  };
+};
+
+// --- Local Image Store ---
+
+// Must match the middleware path in vite.config.ts
+const LOCAL_IMAGE_ENDPOINT = '/__local_images';
+
+const localImageRepository: ImageRepository = {
+  async upload(path, dataUrl) {
+    try {
+      const blob = await (await fetch(dataUrl)).blob();
+      const res = await fetch(`${LOCAL_IMAGE_ENDPOINT}/${path}`, { method: 'PUT', body: blob });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return `${LOCAL_IMAGE_ENDPOINT}/${path}`;
+    } catch (e) {
+      // No dev server (e.g. tests): keep the data URL itself, it renders the same way
+      console.warn('Local image store unavailable, keeping data URL:', e);
+      return dataUrl;
+    }
+  },
+};
+
+// --- Realtime Stand-in ---
+// Rooms relay through the dev server's WebSocket (see localRoomRelay in vite.config.ts), so
+// several tabs can play together. Each tab still has its own in-memory data, so rooms only make
+// sense when the tabs share a seed. Without a dev server (tests), peers in the same JS context
+// talk through an in-process bus instead.
+
+const ROOM_RELAY_EVENT = 'geo:room';
+
+interface LocalPeer {
+  member: RoomMember;
+  deliver: (event: string, payload: any) => void;
+  setMembers: (members: RoomMember[]) => void;
+}
+
+const inProcessRooms = new Map<string, Set<LocalPeer>>();
+
+// One entry per user, like Supabase presence keyed by userId
+const uniqueMembers = (members: RoomMember[]): RoomMember[] =>
+  Array.from(new Map(members.map((m) => [m.userId, m])).values());
+
+const localRealtimeRepository: RealtimeRepository = {
+  async joinRoom(code, me) {
+    const hot = (import.meta as any).hot;
+    const messageListeners = new Set<(event: string, payload: any) => void>();
+    const memberListeners = new Set<(members: RoomMember[]) => void>();
+    let members: RoomMember[] = [];
+
+    const peer: LocalPeer = {
+      member: clone(me),
+      deliver: (event, payload) => messageListeners.forEach((l) => l(event, payload)),
+      setMembers: (next) => {
+        members = next;
+        memberListeners.forEach((l) => l(members));
+      },
+    };
+
+    let send: (event: string, payload: any) => void;
+    let disconnect: () => void;
+
+    if (hot) {
+      const onRelay = (data: any) => {
+        if (data?.code !== code) return;
+        if (data.type === 'message') peer.deliver(data.event, data.payload);
+        else if (data.type === 'members') peer.setMembers(data.members);
+      };
+      hot.on(ROOM_RELAY_EVENT, onRelay);
+      hot.send(ROOM_RELAY_EVENT, { type: 'join', code, member: peer.member });
+      send = (event, payload) => hot.send(ROOM_RELAY_EVENT, { type: 'send', code, event, payload });
+      disconnect = () => {
+        hot.send(ROOM_RELAY_EVENT, { type: 'leave', code });
+        hot.off?.(ROOM_RELAY_EVENT, onRelay);
+      };
+    } else {
+      const peers = inProcessRooms.get(code) || new Set<LocalPeer>();
+      inProcessRooms.set(code, peers);
+      const syncMembers = () => {
+        const list = uniqueMembers(Array.from(peers).map((p) => p.member));
+        peers.forEach((p) => p.setMembers(list));
+      };
+      peers.add(peer);
+      syncMembers();
+      // Async delivery, like a real socket
+      send = (event, payload) =>
+        peers.forEach((p) => { if (p !== peer) queueMicrotask(() => p.deliver(event, clone(payload))); });
+      disconnect = () => {
+        peers.delete(peer);
+        if (peers.size === 0) inProcessRooms.delete(code);
+        else syncMembers();
+      };
+    }
+
+    const channel: RoomChannel = {
+      async send(event, payload) {
+        send(event, payload);
+        return true;
+      },
+      onMessage(listener) {
+        messageListeners.add(listener);
+        return () => { messageListeners.delete(listener); };
+      },
+      onMembers(listener) {
+        memberListeners.add(listener);
+        listener(members);
+        return () => { memberListeners.delete(listener); };
+      },
+      async leave() {
+        messageListeners.clear();
+        memberListeners.clear();
+        disconnect();
+      },
+    };
+    return channel;
+  },
+};
@@ -0,0 +1,52 @@
+import { getRepositories } from './repository';
+import { DIFFICULTY_LABELS } from './difficultyService';
+import { snapBounds } from './geocodingService';
+import { GameFilter, GameRegion } from '../types';
+
+// --- Random Play Filters ---
+// What the home screen's "试玩一局" button draws from. The choice is kept per user in this
+// browser and handed to getNextUnplayedGame, which passes it on to list_unplayed_games.
+
+const playFilterKey = (userId: string) => `geoguesser_play_filter_${userId}`;
+
+export const getPlayFilter = (userId: string): GameFilter => {
+  try {
+    const raw = localStorage.getItem(playFilterKey(userId));
+    const filter: GameFilter = raw ? JSON.parse(raw) : {};
+    // Boxes saved before they were snapped to the grid show as the backend will apply them
+    return filter.bounds ? { ...filter, bounds: snapBounds(filter.bounds) } : filter;
+  } catch {
+    return {};
+  }
+};
+
+export const savePlayFilter = (userId: string, filter: GameFilter): void => {
+  if (isFilterEmpty(filter)) localStorage.removeItem(playFilterKey(userId));
+  else localStorage.setItem(playFilterKey(userId), JSON.stringify(filter));
+};
+
+// When a profile is folded into another one, the target's own choice wins
+export const reassignPlayFilter = (fromUserId: string, toUserId: string): void => {
+  const moved = localStorage.getItem(playFilterKey(fromUserId));
+  if (moved === null) return;
+  if (localStorage.getItem(playFilterKey(toUserId)) === null) localStorage.setItem(playFilterKey(toUserId), moved);
+  localStorage.removeItem(playFilterKey(fromUserId));
+};
+
+export const isFilterEmpty = (filter: GameFilter): boolean =>
+  !filter.country && !filter.bounds && !filter.tag && !filter.authorId &&
+  !(filter.difficulty && filter.difficulty.length > 0);
+
+// Short label for the home screen chip, e.g. "中国 · 四川省 · 简单"
+export const describePlayFilter = (filter: GameFilter): string => {
+  const parts: string[] = [];
+  if (filter.country) parts.push(filter.province ? `${filter.country} · ${filter.province}` : filter.country);
+  if (filter.tag) parts.push(`#${filter.tag}`);
+  if (filter.bounds) parts.push('自选范围');
+  if (filter.difficulty && filter.difficulty.length > 0) {
+    parts.push(filter.difficulty.map((d) => DIFFICULTY_LABELS[d]).join('/'));
+  }
+  return parts.length > 0 ? parts.join(' · ') : '全部题目';
+};
+
+export const getGameRegions = async (): Promise<GameRegion[]> => getRepositories().games.listGameRegions();
@@ -0,0 +1,71 @@
+import { getRepositories } from './repository';
+import { computeStreak, dailyDayKey } from './dailyService';
+import { Guess, User } from '../types';
+
+// --- Player Profiles ---
+// Nothing here is stored: XP, level, streaks and bests are all derived from the player's guesses,
+// so they follow the player through account merges and device links automatically.
+
+// Level L starts at LEVEL_BASE_XP * L(L-1)/2 XP: each level needs one base step more than the last
+export const LEVEL_BASE_XP = 5000;
+
+export interface LevelInfo {
+  level: number;
+  xpIntoLevel: number;
+  xpForLevel: number; // size of the current level, for a progress bar
+}
+
+const levelStartXp = (level: number): number => (LEVEL_BASE_XP * level * (level - 1)) / 2;
+
+export const levelForXp = (xp: number): LevelInfo => {
+  let level = 1;
+  while (levelStartXp(level + 1) <= xp) level++;
+  return {
+    level,
+    xpIntoLevel: xp - levelStartXp(level),
+    xpForLevel: levelStartXp(level + 1) - levelStartXp(level),
+  };
+};
+
+export interface PlayerProfile {
+  user: User;
+  xp: number;
+  levelInfo: LevelInfo;
+  gamesPlayed: number;
+  currentStreak: number; // consecutive days with at least one guess
+  bestStreak: number;
+  bestGuess: Guess | null; // highest score
+  closestGuess: Guess | null; // smallest distance
+  averageErrorM: number | null; // mean distance over guesses that placed a pin
+}
+
+export const getPlayerProfile = async (userId: string): Promise<PlayerProfile | null> => {
+  const { games } = getRepositories();
+  const [user, guesses] = await Promise.all([games.getProfile(userId), games.listGuessesByUser(userId)]);
+  if (!user) return null;
+
+  const xp = guesses.reduce((sum, g) => sum + g.score, 0);
+  const pinned = guesses.filter((g) => g.distance !== null);
+  const { current, best } = computeStreak(guesses.map((g) => dailyDayKey(g.timestamp)));
+
+  return {
+    user,
+    xp,
+    levelInfo: levelForXp(xp),
+    gamesPlayed: guesses.length,
+    currentStreak: current,
+    bestStreak: best,
+    bestGuess: guesses.reduce<Guess | null>((top, g) => (!top || g.score > top.score ? g : top), null),
+    closestGuess: pinned.reduce<Guess | null>((top, g) => (!top || g.distance! < top.distance! ? g : top), null),
+    averageErrorM: pinned.length ? pinned.reduce((sum, g) => sum + g.distance!, 0) / pinned.length : null,
+  };
+};
+
+// Levels for the names on a leaderboard / review map, in one query. Players with no guesses are level 1.
+export const getPlayerLevels = async (userIds: string[]): Promise<Record<string, number>> => {
+  const unique = Array.from(new Set(userIds));
+  const xp = await getRepositories().games.listPlayerXp(unique);
+  const levels: Record<string, number> = {};
+  unique.forEach((id) => { levels[id] = levelForXp(xp[id] || 0).level; });
+  return levels;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { expectedShare, pickMatchedGameId, ratingDelta, MATCH_MIN_PLAYER_GAMES } from './ratingService';
+
+describe('ratingDelta', () => {
+  it('is zero when the score matches the expectation', () => {
+    expect(expectedShare(1500, 1500)).toBe(0.5);
+    expect(ratingDelta(1500, 1500, 2500)).toBe(0);
+  });
+
+  it('rewards beating a harder game more than an easier one', () => {
+    expect(ratingDelta(1500, 1700, 5000)).toBeGreaterThan(ratingDelta(1500, 1300, 5000));
+    expect(ratingDelta(1500, 1500, 0)).toBe(-16);
+  });
+
+  it('caps time bonus scores at full marks', () => {
+    expect(ratingDelta(1500, 1500, 6000)).toBe(ratingDelta(1500, 1500, 5000));
+  });
+});
+
+describe('pickMatchedGameId', () => {
+  const rated = (id: string, rating: number) => ({ id, createdAt: 0, rating, ratedPlays: 10 });
+
+  it('needs enough plays from the player and rated games', () => {
+    expect(pickMatchedGameId(null, [rated('g', 1500)])).toBeNull();
+    expect(pickMatchedGameId({ rating: 1500, plays: MATCH_MIN_PLAYER_GAMES - 1 }, [rated('g', 1500)])).toBeNull();
+    expect(pickMatchedGameId({ rating: 1500, plays: 20 }, [{ id: 'g', createdAt: 0 }])).toBeNull();
+  });
+
+  it('serves one of the games closest to just below the player', () => {
+    const near = [1400, 1420, 1430, 1440, 1460].map((r) => rated(`near${r}`, r));
+    const far = [1000, 1200, 1800, 2000, 2500].map((r) => rated(`far${r}`, r));
+    for (let i = 0; i < 20; i++) {
+      expect(pickMatchedGameId({ rating: 1500, plays: 20 }, [...far, ...near])).toMatch(/^near/);
+    }
+  });
+});
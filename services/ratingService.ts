@@ -0,0 +1,39 @@
+import { GameMeta } from './repository';
+import { MAX_SCORE } from './scoringService';
+import { SkillRating } from '../types';
+
+// Elo-style skill ratings for players and games, used to match the random challenge to the player.
+// Every guess is a "match" between a player and a game: the score share (0..1) is the player's
+// result, and whatever the player gains the game loses. The authoritative update runs in the
+// database (`apply_guess_rating` trigger, TECH_SPECS §24); this copy backs the memory repository.
+
+export const RATING_START = 1500;
+const RATING_K = 32;
+
+export const MATCH_MIN_PLAYER_GAMES = 5; // below this the player's rating is still mostly noise
+export const MATCH_MIN_GAME_PLAYS = 3; // same for a game
+const MATCH_POOL_SIZE = 5; // pick randomly among the closest few so the button doesn't repeat itself
+// Aim a little below the player's rating: an expected score around 60% is challenging but winnable
+const MATCH_TARGET_OFFSET = -70;
+
+// Expected score share for a player against a game
+export const expectedShare = (playerRating: number, gameRating: number): number =>
+  1 / (1 + Math.pow(10, (gameRating - playerRating) / 400));
+
+// How much the player's rating moves for one guess (the game moves by the negative)
+export const ratingDelta = (playerRating: number, gameRating: number, score: number): number =>
+  RATING_K * (Math.min(score, MAX_SCORE) / MAX_SCORE - expectedShare(playerRating, gameRating));
+
+// The game to serve next from `candidates`, or null when there isn't enough data to match on
+export const pickMatchedGameId = (player: SkillRating | null, candidates: GameMeta[]): string | null => {
+  if (!player || player.plays < MATCH_MIN_PLAYER_GAMES) return null;
+
+  const rated = candidates.filter((g) => g.rating !== undefined && (g.ratedPlays || 0) >= MATCH_MIN_GAME_PLAYS);
+  if (rated.length === 0) return null;
+
+  const target = player.rating + MATCH_TARGET_OFFSET;
+  const closest = rated
+    .sort((a, b) => Math.abs(a.rating! - target) - Math.abs(b.rating! - target))
+    .slice(0, MATCH_POOL_SIZE);
+  return closest[Math.floor(Math.random() * closest.length)].id;
+};
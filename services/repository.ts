@@ -0,0 +1,255 @@
+import {
+  Collection, CollectionAttempt, CollectionProgress, CollectionSort, CreatorRanking, Duel, GameAnswer, GameData, Guess,
+  GameFilter, GameRegion, LeaderboardMetric, PlayableGame, PlayerRanking, SkillRating, TagCount, UnlockedAchievement,
+  User,
+} from '../types';
+import { createSupabaseRepositories } from './supabaseRepository';
+import { createMemoryRepositories } from './memoryRepository';
+
+// --- Persistence Contracts ---
+// storageService / collectionService hold the business logic (dedupe, stats, fallbacks);
+// repositories only move domain objects in and out of a backend.
+// Failures are logged by the implementation and surface as null / false / [].
+
+export interface GameMeta {
+  id: string;
+  createdAt: number;
+  isBeginnerFriendly?: boolean; // manual flag, still used for games without a difficulty yet
+  difficulty?: number;
+  rating?: number; // Elo-style game rating (ratingService)
+  ratedPlays?: number;
+}
+
+// Aggregates behind the creator dashboard (TECH_SPECS §22), computed by the backend over every
+// guess and attempt. The creator's own plays and completions are left out.
+export interface CreatorStats {
+  uniquePlayers: number;
+  playsByDay: { day: string; plays: number }[]; // YYYY-MM-DD, China time, from `since`; days without plays are absent
+  games: { gameId: string; plays: number; avgScore: number | null; avgErrorM: number | null }[];
+  collections: { collectionId: string; completions: number; avgTotalScore: number }[]; // best attempt per player
+}
+
+export interface LegacyImageRow {
+  id: string;
+  imageData: string; // Base64 data URL still stored in games.image_data
+}
+
+// What the client sends for a guess: coordinates only (null = timed out without a pin).
+// Distance, score, elapsed time and timestamp are filled in by the backend.
+// collectionId selects that collection's scoring profile and time limit.
+export type GuessSubmission = Pick<Guess, 'id' | 'gameId' | 'userId' | 'userName' | 'userAvatarSeed' | 'location'> & {
+  collectionId?: string;
+};
+
+// Backend clock for one player on one question. The first startRound call fixes the start;
+// later calls (reload, resume) report how much time has already gone.
+export interface RoundClock {
+  elapsedMs: number;
+  timeLimitSec?: number; // effective limit (collection overrides game); unset = untimed
+}
+
+export interface PlayerRankingQuery {
+  metric: LeaderboardMetric;
+  since?: number; // only guesses from this time on (weekly board); unset = all time
+  minGames?: number; // players with fewer guesses in the window are left out
+  userId?: string; // just this player's row (empty if they aren't ranked)
+  page?: number;
+  pageSize?: number;
+}
+
+export interface GameRepository {
+  // Profiles
+  getProfile(id: string): Promise<User | null>;
+  insertProfile(user: User): Promise<boolean>; // always anonymous: accounts are bound with linkProfileToAuth
+  upsertProfile(user: User): Promise<boolean>;
+  findProfileByAuthId(authUserId: string): Promise<User | null>;
+  // Binds an anonymous profile to the signed-in account. The backend takes the account from the
+  // session and needs the profile's secret, so nobody can claim a profile they don't play as.
+  linkProfileToAuth(profileId: string, secret: string | null): Promise<boolean>;
+  // Moves an anonymous profile's guesses, attempts, creations, duels and achievements onto another
+  // profile in one transaction; where both have played the same game / collection only one row is kept.
+  // The caller must own both: fromSecret is the anonymous profile's secret, toSecret the target's
+  // (null = the signed-in account's profile).
+  mergeProfile(fromUserId: string, toUserId: string, fromSecret: string | null, toSecret: string | null): Promise<boolean>;
+  // Registers this browser's secret for an anonymous profile that has none yet (new, or created before
+  // secrets existed). The server works out who is calling from it, or from the signed-in account.
+  registerProfileSecret(userId: string, secret: string): Promise<boolean>;
+
+  // Games
+  // Reserves `games/<gameId>/` in image storage for userId (secret as for startRound) until the game
+  // row exists; storage only accepts new objects under a reserved, unpublished game (TECH_SPECS §8.4).
+  claimGameImages(gameId: string, userId: string, secret: string | null): Promise<boolean>;
+  insertGame(game: GameData): Promise<boolean>;
+  getGame(id: string): Promise<PlayableGame | null>; // never includes the answer
+  // Answers the caller may see (games they authored or have a guess for); others are simply absent.
+  // The caller is whoever `secret` belongs to, else the signed-in account's profile.
+  revealAnswers(secret: string | null, gameIds: string[]): Promise<Record<string, GameAnswer>>;
+  listRecentGameMeta(limit: number): Promise<GameMeta[]>;
+  // Random sample (up to `limit`) of the games the user has no guess for, across the whole pool
+  listUnplayedGameMeta(userId: string, filter: GameFilter, limit: number): Promise<GameMeta[]>;
+  listGameRegions(): Promise<GameRegion[]>; // most games first
+  listGamesByTag(tag: string, limit: number): Promise<PlayableGame[]>; // newest first
+  listTagCounts(limit: number): Promise<TagCount[]>; // games + collections, most used first
+  listGamesByAuthor(authorId: string): Promise<PlayableGame[]>; // newest first
+  setGameImageUrls(id: string, urls: Pick<GameData, 'imageUrl' | 'mediumUrl' | 'thumbnailUrl'>): Promise<boolean>; // clears image_data
+  listLegacyImageGames(limit: number): Promise<LegacyImageRow[]>;
+  getGameLikes(id: string): Promise<number | null>;
+  setGameLikes(id: string, likes: number): Promise<boolean>;
+
+  // Guesses
+  // Both play as the caller: secret must be userId's (or null while signed in to its account)
+  startRound(gameId: string, userId: string, secret: string | null, collectionId?: string): Promise<RoundClock | null>;
+  // Scored guess; an existing guess for the same game/user is returned as-is.
+  // A new guess also refreshes the game's difficulty and moves both skill ratings.
+  submitGuess(submission: GuessSubmission, secret: string | null): Promise<Guess | null>;
+  listGuessesForGame(gameId: string): Promise<Guess[]>; // highest score first, faster first on ties
+  listGuessesForGames(gameIds: string[]): Promise<Guess[]>;
+  listGuessesByUser(userId: string, gameIds?: string[]): Promise<Guess[]>; // newest first
+  hasGuess(gameId: string, userId: string): Promise<boolean>;
+  getPlayerRating(userId: string): Promise<SkillRating | null>;
+  listPlayerXp(userIds: string[]): Promise<Record<string, number>>; // summed Guess.score; players without guesses are absent
+  listPlayerRankings(query: PlayerRankingQuery): Promise<PlayerRanking[]>; // by rank
+  listTopCreators(limit: number): Promise<CreatorRanking[]>; // most plays first
+  getCreatorStats(userId: string, since: number): Promise<CreatorStats | null>;
+}
+
+export interface CollectionQuery {
+  authorId?: string;
+  ids?: string[];
+  featured?: boolean; // ordered by featured_order instead of created_at
+  daily?: boolean; // true = only daily challenge sets, false = leave them out
+  page?: number;
+  pageSize?: number;
+}
+
+// The plaza list. Daily sets are always left out; sorts other than "newest" rank on play data
+// (players = unique players with an attempt, scores = each player's best attempt).
+export interface PlazaQuery {
+  search?: string; // case-insensitive substring of the collection or author name
+  tag?: string;
+  sort: CollectionSort;
+  page: number;
+  pageSize: number;
+}
+
+export interface AttemptQuery {
+  collectionId?: string;
+  collectionIds?: string[];
+  userId?: string;
+}
+
+export interface CollectionRepository {
+  insertCollection(collection: Collection, gameIds: string[]): Promise<boolean>;
+  getCollection(id: string): Promise<Collection | null>;
+  listCollectionGameIds(collectionId: string, limit?: number): Promise<string[] | null>; // by order_index
+  listCollections(query: CollectionQuery): Promise<Collection[]>; // newest first unless featured
+  listPlazaCollections(query: PlazaQuery): Promise<Collection[]>;
+  // Only the server picks and stores a daily (TECH_SPECS §18): creates `day`'s set if `day` is today
+  // on the server clock. true once the daily exists.
+  ensureDailyCollection(day: string): Promise<boolean>;
+
+  // Attempts come back sorted by total_score DESC, total_elapsed_ms ASC (missing last), completed_at ASC
+  listAttempts(query: AttemptQuery): Promise<CollectionAttempt[]>;
+  // Records a finished run for the caller (secret as for startRound). The totals are summed on the
+  // server from userId's guesses on the collection's games; a higher total replaces an earlier attempt.
+  // true only for the player's first completion of the collection.
+  submitAttempt(id: string, collectionId: string, userId: string, userName: string, secret: string | null): Promise<boolean>;
+}
+
+// Object storage for game images. Paths look like `games/<gameId>/full.jpg`
+// (extra photos of a multi-photo game: `games/<gameId>/<index>/full.jpg`).
+export interface ImageRepository {
+  upload(path: string, dataUrl: string): Promise<string | null>; // public URL
+}
+
+export interface AuthSession {
+  authUserId: string;
+  email: string;
+}
+
+// Account sign-in. Supabase Auth (email magic link) in production; the memory backend
+// signs in immediately so flows can be exercised without an inbox.
+export interface AuthRepository {
+  getSession(): Promise<AuthSession | null>;
+  sendMagicLink(email: string): Promise<boolean>;
+  signOut(): Promise<void>;
+  onSessionChange(listener: (session: AuthSession | null) => void): () => void; // returns unsubscribe
+}
+
+// One-time code that moves a profile (plus its localStorage collection progress) to another browser
+export interface DeviceLink {
+  code: string;
+  userId: string;
+  progress: CollectionProgress[];
+  expiresAt: number;
+}
+
+export interface DeviceLinkRepository {
+  insertLink(link: DeviceLink, secret: string | null): Promise<boolean>; // only for the caller's own profile
+  // null if unknown, expired or already used; otherwise `secret` is registered for the code's profile
+  consumeLink(code: string, now: number, secret: string): Promise<DeviceLink | null>;
+}
+
+// Who is connected to a room right now
+export interface RoomMember {
+  userId: string;
+  userName: string;
+  avatarSeed?: string;
+}
+
+// A joined live room: fire-and-forget broadcasts plus presence. Messages are not persisted;
+// peers that join late ask for the current state themselves (see roomService).
+export interface RoomChannel {
+  send(event: string, payload: any): Promise<boolean>; // other members only, not echoed back
+  onMessage(listener: (event: string, payload: any) => void): () => void; // returns unsubscribe
+  onMembers(listener: (members: RoomMember[]) => void): () => void; // full list on every change
+  leave(): Promise<void>;
+}
+
+// Supabase Realtime (broadcast + presence) in production; the memory backend relays over the
+// dev server's WebSocket, or in-process when there is no dev server (tests).
+export interface RealtimeRepository {
+  joinRoom(code: string, me: RoomMember): Promise<RoomChannel | null>;
+}
+
+export interface DuelRepository {
+  insertDuel(duel: Duel): Promise<boolean>;
+  getDuel(id: string): Promise<Duel | null>;
+  // Only succeeds while the duel is still open and the opponent isn't the challenger; null otherwise
+  acceptDuel(id: string, opponentId: string, opponentName: string, acceptedAt: number): Promise<Duel | null>;
+  completeDuel(id: string, completedAt: number): Promise<boolean>;
+}
+
+export interface AchievementRepository {
+  listAchievements(userId: string): Promise<UnlockedAchievement[]>; // oldest first
+  insertAchievements(rows: UnlockedAchievement[]): Promise<boolean>; // rows the user already has are ignored
+}
+
+export interface Repositories {
+  games: GameRepository;
+  collections: CollectionRepository;
+  images: ImageRepository;
+  auth: AuthRepository;
+  deviceLinks: DeviceLinkRepository;
+  realtime: RealtimeRepository;
+  duels: DuelRepository;
+  achievements: AchievementRepository;
+}
+
+// --- Backend Selection ---
+// VITE_DATA_BACKEND=memory runs the whole app without a Supabase project (local dev, tests).
+
+let active: Repositories | null = null;
+
+export const getRepositories = (): Repositories => {
+  if (!active) {
+    const backend = (import.meta as any).env?.VITE_DATA_BACKEND;
+    active = backend === 'memory' ? createMemoryRepositories() : createSupabaseRepositories();
+  }
+  return active;
+};
+
+// Swap the backend at runtime (tests, previews). Call before the first service call.
+export const setRepositories = (repos: Repositories): void => {
+  active = repos;
+};
@@ -0,0 +1,66 @@
+import { ViewRestrictions } from '../types';
+
+// Viewing restrictions a creator can put on a challenge. ImageViewer enforces them while
+// playing only; review screens always get the free viewer. Enforcement is client-side.
+
+export const MAX_ZOOM = 4;
+export const LIMITED_ZOOM = 2; // cap used by the "limited zoom" mode
+
+type RestrictionKey = 'noZoom' | 'noPan' | 'limitedZoom' | 'blurUntilTap';
+
+export const RESTRICTION_OPTIONS: { key: RestrictionKey; label: string }[] = [
+  { key: 'noZoom', label: '禁止缩放' },
+  { key: 'noPan', label: '禁止拖动' },
+  { key: 'limitedZoom', label: `最多放大 ${LIMITED_ZOOM}×` },
+  { key: 'blurUntilTap', label: '点击后显示' },
+];
+
+export const hasRestriction = (restrictions: ViewRestrictions | undefined, key: RestrictionKey): boolean =>
+  key === 'limitedZoom' ? !!restrictions?.maxZoom : !!restrictions?.[key];
+
+// Drops redundant flags; undefined when nothing is restricted (stored as NULL)
+export const normalizeRestrictions = (restrictions?: ViewRestrictions): ViewRestrictions | undefined => {
+  if (!restrictions) return undefined;
+  const normalized: ViewRestrictions = {};
+  if (restrictions.noZoom) normalized.noZoom = true;
+  if (restrictions.noPan && !restrictions.noZoom) normalized.noPan = true; // nothing to pan at 1×
+  if (restrictions.maxZoom && !restrictions.noZoom) {
+    normalized.maxZoom = Math.min(Math.max(1, restrictions.maxZoom), MAX_ZOOM);
+  }
+  if (restrictions.blurUntilTap) normalized.blurUntilTap = true;
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+};
+
+// Picker toggle: flips one mode. noZoom and limitedZoom are mutually exclusive
+export const toggleRestriction = (restrictions: ViewRestrictions | undefined, key: RestrictionKey): ViewRestrictions | undefined => {
+  const next: ViewRestrictions = { ...restrictions };
+  const on = !hasRestriction(restrictions, key);
+  if (key === 'limitedZoom') {
+    next.maxZoom = on ? LIMITED_ZOOM : undefined;
+    if (on) next.noZoom = false;
+  } else {
+    next[key] = on;
+    if (key === 'noZoom' && on) next.maxZoom = undefined;
+  }
+  return normalizeRestrictions(next);
+};
+
+// Badge labels, e.g. ['禁止缩放', '点击后显示']; empty for free viewing
+export const describeRestrictions = (restrictions?: ViewRestrictions): string[] => {
+  const normalized = normalizeRestrictions(restrictions);
+  if (!normalized) return [];
+  return RESTRICTION_OPTIONS
+    .filter(({ key }) => hasRestriction(normalized, key))
+    .map(({ key, label }) => (key === 'limitedZoom' ? `最多放大 ${normalized.maxZoom}×` : label));
+};
+
+// Effective restrictions: the collection's set (if any) replaces the game's, like scoring and time limits
+export const resolveRestrictions = (
+  game?: { restrictions?: ViewRestrictions } | null,
+  collection?: { restrictions?: ViewRestrictions } | null
+): ViewRestrictions | undefined =>
+  normalizeRestrictions(collection?.restrictions) || normalizeRestrictions(game?.restrictions);
+
+// Highest scale ImageViewer may reach
+export const maxScaleFor = (restrictions?: ViewRestrictions): number =>
+  restrictions?.noZoom ? 1 : restrictions?.maxZoom || MAX_ZOOM;
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addRoomAnswer, advanceRoom, lockRoomRound, redactRoomState, roomStandings, roomTimeLimit, roundRemainingMs,
+  shouldLockRound, startRoomQuestion, withoutHiddenAnswers, ROOM_LOCK_GRACE_MS,
+} from './roomService';
+import { RoomAnswer, RoomState } from '../types';
+
+const lobby = (timeLimits: (number | null)[] = [30, null]): RoomState => ({
+  code: 'ABCD',
+  hostId: 'host',
+  version: 1,
+  phase: 'lobby',
+  collectionId: 'c1',
+  collectionName: '测试',
+  gameIds: ['g1', 'g2'],
+  index: 0,
+  timeLimits,
+  answers: [],
+});
+
+const answer = (userId: string, gameId: string, score: number, elapsedMs?: number): RoomAnswer => ({
+  userId,
+  userName: userId,
+  gameId,
+  score,
+  distance: 100,
+  location: { lat: 1, lng: 2 },
+  elapsedMs,
+});
+
+const members = [
+  { userId: 'a', userName: 'a' },
+  { userId: 'b', userName: 'b' },
+];
+
+describe('room transitions', () => {
+  it('starts a question with the limit the backend applies to it', () => {
+    const state = startRoomQuestion(lobby(), 0, 1000);
+    expect(state.phase).toBe('question');
+    expect(state.version).toBe(2);
+    expect(state.roundEndsAt).toBe(31000);
+    expect(roundRemainingMs(state, 11000)).toBe(20000);
+
+    const untimed = startRoomQuestion(lobby(), 1, 1000);
+    expect(roomTimeLimit(untimed)).toBeUndefined();
+    expect(untimed.roundEndsAt).toBeUndefined();
+    expect(roundRemainingMs(untimed, 5000)).toBeNull();
+  });
+
+  it('accepts one answer per player for the open question only', () => {
+    let state = startRoomQuestion(lobby(), 0, 0);
+    state = addRoomAnswer(state, answer('a', 'g1', 4000));
+    expect(addRoomAnswer(state, answer('a', 'g1', 5000))).toBe(state);
+    expect(addRoomAnswer(state, answer('b', 'g2', 5000))).toBe(state);
+    expect(addRoomAnswer(state, { ...answer('b', 'g1', 0), hidden: true })).toBe(state);
+    expect(addRoomAnswer(lockRoomRound(state), answer('b', 'g1', 5000)).answers).toHaveLength(1);
+  });
+
+  it('locks once every member has answered or the clock plus grace runs out', () => {
+    let state = startRoomQuestion(lobby(), 0, 0);
+    state = addRoomAnswer(state, answer('a', 'g1', 4000));
+    expect(shouldLockRound(state, members, 1000)).toBe(false);
+    expect(shouldLockRound(state, members, 30000 + ROOM_LOCK_GRACE_MS)).toBe(true);
+    expect(shouldLockRound(addRoomAnswer(state, answer('b', 'g1', 3000)), members, 1000)).toBe(true);
+  });
+
+  it('moves to the next question, then finishes', () => {
+    const first = lockRoomRound(startRoomQuestion(lobby(), 0, 0));
+    expect(first.phase).toBe('reveal');
+    expect(first.roundEndsAt).toBeUndefined();
+    expect(lockRoomRound(first)).toBe(first);
+
+    const second = advanceRoom(first, 0);
+    expect(second.phase).toBe('question');
+    expect(second.index).toBe(1);
+    expect(advanceRoom(lockRoomRound(second)).phase).toBe('finished');
+  });
+});
+
+describe('room broadcast', () => {
+  it('blanks the open round and keeps earlier rounds', () => {
+    let state = startRoomQuestion(lobby(), 0, 0);
+    state = addRoomAnswer(state, answer('a', 'g1', 4000, 3000));
+    state = advanceRoom(lockRoomRound(state), 0);
+    state = addRoomAnswer(state, answer('a', 'g2', 5000, 2000));
+
+    const sent = redactRoomState(state);
+    expect(sent.answers[0]).toEqual(state.answers[0]);
+    expect(sent.answers[1]).toMatchObject({ userId: 'a', gameId: 'g2', score: 0, distance: null, location: null, hidden: true });
+    expect(sent.answers[1].elapsedMs).toBeUndefined();
+
+    expect(redactRoomState(lockRoomRound(state))).toEqual(lockRoomRound(state));
+    expect(withoutHiddenAnswers(sent).answers).toEqual([state.answers[0]]);
+    expect(withoutHiddenAnswers(state)).toBe(state);
+  });
+});
+
+describe('roomStandings', () => {
+  it('ranks by total score, then by total time, listing members without answers', () => {
+    let state = startRoomQuestion(lobby(), 0, 0);
+    state = addRoomAnswer(state, answer('a', 'g1', 3000, 9000));
+    state = addRoomAnswer(state, answer('b', 'g1', 3000, 4000));
+    const standings = roomStandings(state, [...members, { userId: 'c', userName: 'c' }]);
+    expect(standings.map((s) => s.userId)).toEqual(['b', 'a', 'c']);
+    expect(standings[2]).toMatchObject({ totalScore: 0, answered: 0 });
+  });
+});
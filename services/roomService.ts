@@ -0,0 +1,169 @@
+import { getRepositories, RoomChannel, RoomMember } from './repository';
+import { getCollection } from './collectionService';
+import { resolveTimeLimit } from './scoringService';
+import { RoomAnswer, RoomState, User } from '../types';
+
+// --- Multiplayer Rooms ---
+// The host's client is the referee: it owns RoomState, bumps `version` on every change and
+// broadcasts it. Everyone else renders the newest state they have received. Guesses are still
+// scored by submitGuess; the room only relays the results, so nothing about a room is stored.
+
+export const ROOM_EVENTS = {
+  state: 'state',   // { state: RoomState, remainingMs } — newest version wins
+  answer: 'answer', // { answer: RoomAnswer } — player -> host
+  hello: 'hello',   // { userId } — a (re)joining member asks for the current state
+} as const;
+
+// Pins placed when the countdown hits 0 are auto-submitted; the host waits this long for them
+export const ROOM_LOCK_GRACE_MS = 1500;
+
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O, 1/I
+const ROOM_CODE_LENGTH = 6;
+
+export const createRoomCode = (): string =>
+  Array.from({ length: ROOM_CODE_LENGTH }, () =>
+    ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)]
+  ).join('');
+
+export const normalizeRoomCode = (input: string): string => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const roomShareUrl = (code: string): string => `${window.location.origin}/#room/${code}`;
+
+export const joinRoom = async (code: string, user: User): Promise<RoomChannel | null> => {
+  return getRepositories().realtime.joinRoom(code, {
+    userId: user.id,
+    userName: user.name,
+    avatarSeed: user.avatarSeed,
+  });
+};
+
+// Host: a fresh lobby for this collection (null if the collection can't be loaded).
+// Each round's clock is the limit submit_guess applies to it (collection first, then the game's own),
+// so a guess the room accepts is never timed out by the backend, and the time bonus agrees.
+export const openRoom = async (code: string, host: User, collectionId: string): Promise<RoomState | null> => {
+  const data = await getCollection(collectionId);
+  if (!data || data.gameIds.length === 0) return null;
+  const games = await Promise.all(data.gameIds.map((id) => getRepositories().games.getGame(id)));
+
+  return {
+    code,
+    hostId: host.id,
+    version: 1,
+    phase: 'lobby',
+    collectionId,
+    collectionName: data.collection.name,
+    gameIds: data.gameIds,
+    index: 0,
+    timeLimits: games.map((game) => resolveTimeLimit(game, data.collection) ?? null),
+    answers: [],
+  };
+};
+
+// --- Host Transitions ---
+// Pure: each returns the next state with the version bumped (or the same object if nothing changed)
+
+const bump = (state: RoomState, patch: Partial<RoomState>): RoomState => ({
+  ...state,
+  ...patch,
+  version: state.version + 1,
+});
+
+export const roomTimeLimit = (state: RoomState, index = state.index): number | undefined =>
+  state.timeLimits[index] ?? undefined;
+
+export const startRoomQuestion = (state: RoomState, index: number, now = Date.now()): RoomState => {
+  const limitSec = roomTimeLimit(state, index);
+  return bump(state, {
+    phase: 'question',
+    index,
+    roundEndsAt: limitSec ? now + limitSec * 1000 : undefined,
+  });
+};
+
+// Only answers for the open question count, one per player
+export const addRoomAnswer = (state: RoomState, answer: RoomAnswer): RoomState => {
+  if (state.phase !== 'question' || answer.hidden || answer.gameId !== state.gameIds[state.index]) return state;
+  if (state.answers.some((a) => a.gameId === answer.gameId && a.userId === answer.userId)) return state;
+  return bump(state, { answers: [...state.answers, answer] });
+};
+
+export const lockRoomRound = (state: RoomState): RoomState =>
+  state.phase === 'question' ? bump(state, { phase: 'reveal', roundEndsAt: undefined }) : state;
+
+export const advanceRoom = (state: RoomState, now = Date.now()): RoomState =>
+  state.index + 1 >= state.gameIds.length
+    ? bump(state, { phase: 'finished' })
+    : startRoomQuestion(state, state.index + 1, now);
+
+// A round locks once every connected member has answered, or the clock (plus grace) has run out
+export const shouldLockRound = (state: RoomState, members: RoomMember[], now = Date.now()): boolean => {
+  if (state.phase !== 'question') return false;
+  if (state.roundEndsAt !== undefined && now >= state.roundEndsAt + ROOM_LOCK_GRACE_MS) return true;
+  const answered = new Set(roundAnswers(state).map((a) => a.userId));
+  return members.length > 0 && members.every((m) => answered.has(m.userId));
+};
+
+// Time left in the open round as seen by the host. Messages carry this rather than a timestamp,
+// so clocks on different devices never have to agree.
+export const roundRemainingMs = (state: RoomState, now = Date.now()): number | null =>
+  state.phase === 'question' && state.roundEndsAt !== undefined ? Math.max(0, state.roundEndsAt - now) : null;
+
+// --- Broadcast ---
+
+// What goes over the wire. While a round is open the others only learn who has answered:
+// a 5000-point pin is the answer, so locations, distances and scores wait for the reveal.
+export const redactRoomState = (state: RoomState): RoomState => {
+  if (state.phase !== 'question') return state;
+  const openGameId = state.gameIds[state.index];
+  return {
+    ...state,
+    answers: state.answers.map((a) =>
+      a.gameId === openGameId
+        ? { userId: a.userId, userName: a.userName, userAvatarSeed: a.userAvatarSeed, gameId: a.gameId,
+            score: 0, distance: null, location: null, hidden: true }
+        : a
+    ),
+  };
+};
+
+// A host restoring its state from a peer drops the blanked answers; players resend theirs
+export const withoutHiddenAnswers = (state: RoomState): RoomState =>
+  state.answers.some((a) => a.hidden) ? { ...state, answers: state.answers.filter((a) => !a.hidden) } : state;
+
+// --- Standings ---
+
+const elapsedOrLast = (ms?: number) => (ms === undefined ? Number.MAX_SAFE_INTEGER : ms);
+
+// Answers for one question (defaults to the current one), best first; faster wins a tie
+export const roundAnswers = (state: RoomState, gameId = state.gameIds[state.index]): RoomAnswer[] =>
+  state.answers
+    .filter((a) => a.gameId === gameId)
+    .sort((a, b) => b.score - a.score || elapsedOrLast(a.elapsedMs) - elapsedOrLast(b.elapsedMs));
+
+export interface RoomStanding {
+  userId: string;
+  userName: string;
+  totalScore: number;
+  totalElapsedMs: number;
+  answered: number; // questions answered so far
+}
+
+// Running totals; connected members without an answer yet are listed with 0
+export const roomStandings = (state: RoomState, members: RoomMember[] = []): RoomStanding[] => {
+  const byUser = new Map<string, RoomStanding>();
+  members.forEach((m) => byUser.set(m.userId, {
+    userId: m.userId, userName: m.userName, totalScore: 0, totalElapsedMs: 0, answered: 0,
+  }));
+  state.answers.forEach((a) => {
+    const row = byUser.get(a.userId) || {
+      userId: a.userId, userName: a.userName, totalScore: 0, totalElapsedMs: 0, answered: 0,
+    };
+    row.totalScore += a.score;
+    row.totalElapsedMs += a.elapsedMs || 0;
+    row.answered += 1;
+    byUser.set(a.userId, row);
+  });
+  return Array.from(byUser.values()).sort(
+    (a, b) => b.totalScore - a.totalScore || a.totalElapsedMs - b.totalElapsedMs
+  );
+};
@@ -0,0 +1,107 @@
+import { LatLng, ScoringCurve, ScoringProfile } from '../types';
+
+// The single scoring module. The authoritative copy runs in the database
+// (`score_distance` / `submit_guess`, TECH_SPECS §10 and §12); this one backs the memory
+// repository and the UI labels. Keep the two in sync.
+
+const EARTH_RADIUS_M = 6371e3;
+export const MAX_SCORE = 5000;
+
+// Haversine distance in meters
+export const calculateDistance = (pos1: LatLng, pos2: LatLng): number => {
+  const φ1 = (pos1.lat * Math.PI) / 180;
+  const φ2 = (pos2.lat * Math.PI) / 180;
+  const Δφ = ((pos2.lat - pos1.lat) * Math.PI) / 180;
+  const Δλ = ((pos2.lng - pos1.lng) * Math.PI) / 180;
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// --- Profiles ---
+
+export const DEFAULT_SCORING: ScoringProfile = { curve: 'world' };
+export const DEFAULT_LINEAR_RADIUS_KM = 25;
+export const LINEAR_RADIUS_PRESETS_KM = [5, 25, 100];
+
+// Exponential decay: full marks inside perfectM, then 5000·e^(-d/decayM)
+const exponential = (perfectM: number, decayM: number) => (d: number) =>
+  d < perfectM ? MAX_SCORE : Math.round(MAX_SCORE * Math.exp(-d / decayM));
+
+// The four scales share one shape and differ only in size; 'linear' is the odd one out
+export const SCORING_CURVES: Record<ScoringCurve, { label: string; score: (distance: number, radiusKm: number) => number }> = {
+  // One neighbourhood: a street off loses ~40%
+  street: { label: '街道', score: exponential(5, 200) },
+  // One city: for collections built around a single city
+  city: { label: '城市', score: exponential(10, 2000) },
+  // One country / region
+  country: { label: '国家', score: exponential(25, 200000) },
+  // Original curve: full marks within 50m, halves roughly every 1,400km
+  world: { label: '全球', score: exponential(50, 2000000) },
+  // Straight line from full marks at 0 to zero at radiusKm
+  linear: {
+    label: '范围内线性',
+    score: (d, radiusKm) => Math.round(MAX_SCORE * Math.max(0, 1 - d / (radiusKm * 1000))),
+  },
+};
+
+export const calculateScore = (distance: number, profile: ScoringProfile = DEFAULT_SCORING): number => {
+  const curve = SCORING_CURVES[profile.curve] || SCORING_CURVES.world;
+  return curve.score(distance, profile.radiusKm || DEFAULT_LINEAR_RADIUS_KM);
+};
+
+export const describeScoring = (profile: ScoringProfile = DEFAULT_SCORING): string =>
+  profile.curve === 'linear'
+    ? `${profile.radiusKm || DEFAULT_LINEAR_RADIUS_KM}km 内线性`
+    : SCORING_CURVES[profile.curve]?.label || SCORING_CURVES.world.label;
+
+// Scales offered to collection authors, smallest first
+export const SCALE_OPTIONS: ScoringProfile[] = [
+  { curve: 'street' },
+  { curve: 'city' },
+  { curve: 'country' },
+  { curve: 'world' },
+];
+
+// Options for the game creator: the scales, then one linear entry per preset radius
+export const SCORING_OPTIONS: ScoringProfile[] = [
+  ...SCALE_OPTIONS,
+  ...LINEAR_RADIUS_PRESETS_KM.map((radiusKm) => ({ curve: 'linear' as const, radiusKm })),
+];
+
+// A collection's profile overrides the game's own when the game is played inside it
+export const resolveScoring = (
+  game?: { scoring?: ScoringProfile } | null,
+  collection?: { scoring?: ScoringProfile } | null
+): ScoringProfile => collection?.scoring || game?.scoring || DEFAULT_SCORING;
+
+// --- Timed Rounds ---
+// Only games/collections with a time limit are timed. The clock is the backend's: a round starts
+// when the player opens the question (startRound) and elapsed time is measured at submit.
+
+export const TIME_LIMIT_OPTIONS_SEC = [30, 60, 120];
+export const TIME_BONUS_RATE = 0.2; // answering instantly adds up to 20% of the distance score
+export const TIMEOUT_GRACE_MS = 5000; // network slack for the automatic submit at 0s
+
+// A collection's limit overrides the game's own when the game is played inside it
+export const resolveTimeLimit = (
+  game?: { timeLimitSec?: number } | null,
+  collection?: { timeLimitSec?: number } | null
+): number | undefined => collection?.timeLimitSec || game?.timeLimitSec || undefined;
+
+// Final score for a timed round; untimed rounds keep the distance score as-is
+export const applyTimeBonus = (score: number, elapsedMs: number, timeLimitSec?: number): number => {
+  if (!timeLimitSec) return score;
+  const limitMs = timeLimitSec * 1000;
+  if (elapsedMs > limitMs + TIMEOUT_GRACE_MS) return 0;
+  const remaining = Math.max(0, 1 - elapsedMs / limitMs);
+  return score + Math.round(score * TIME_BONUS_RATE * remaining);
+};
+
+export const formatElapsed = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+export const isValidLocation = (loc: LatLng | null | undefined): loc is LatLng =>
+  !!loc &&
+  Number.isFinite(loc.lat) && Number.isFinite(loc.lng) &&
+  Math.abs(loc.lat) <= 90 && Math.abs(loc.lng) <= 180;
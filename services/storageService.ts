@@ -1,126 +1,153 @@
-import { supabase } from './supabaseClient';
-import { GameData, Guess, User } from "../types";
+import { getRepositories, GuessSubmission, RoundClock } from './repository';
+import { buildRenditions, uploadGameImages } from './imageService';
+import { evaluateAchievements } from './achievementService';
+import { difficultyLevel } from './difficultyService';
+import { pickMatchedGameId } from './ratingService';
+import { GameAnswer, GameData, GameFilter, Guess, PlayableGame, User } from "../types";
 
 const LOCAL_USER_KEY = 'geoguesser_user_id_v2';
+const LOCAL_SECRET_KEY = 'geoguesser_user_secret_v2';
 
 // --- User Management ---
 
+// The profile this browser plays as. Signed-in accounts still go through this key;
+// authService only changes which profile it points at.
+export const getStoredUserId = (): string | null => localStorage.getItem(LOCAL_USER_KEY);
+
+// Profile ids are public (leaderboards, guesses), so the server only trusts this per-device
+// secret (or the signed-in account) to tell who is asking. Switching profiles drops the old one.
+export const setStoredUserId = (userId: string | null, secret: string | null = null): void => {
+  if (userId) localStorage.setItem(LOCAL_USER_KEY, userId);
+  else localStorage.removeItem(LOCAL_USER_KEY);
+  if (userId && secret) localStorage.setItem(LOCAL_SECRET_KEY, secret);
+  else localStorage.removeItem(LOCAL_SECRET_KEY);
+};
+
+// The secret proving this browser plays as userId; null for anyone else (or before one is registered)
+export const getUserSecret = (userId: string): string | null =>
+  userId === getStoredUserId() ? localStorage.getItem(LOCAL_SECRET_KEY) : null;
+
+export const generateSecret = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), (b) => b.toString(16).padStart(2, '0')).join('');
+
+// Mints a fresh profile and makes it this browser's user (falls back to an unsaved one offline)
+export const createProfile = async (authUserId?: string): Promise<User> => {
+  const newUser: User = {
+    id: Math.random().toString(36).substr(2, 9),
+    name: `Player_${Math.floor(Math.random() * 1000)}`,
+    avatarSeed: Math.random().toString(36),
+    authUserId
+  };
+
+  const { games } = getRepositories();
+  const created = await games.insertProfile(newUser);
+
+  if (created) {
+    // Profiles start out anonymous; an account is bound afterwards with the profile's own secret
+    const secret = generateSecret();
+    const registered = await games.registerProfileSecret(newUser.id, secret);
+    setStoredUserId(newUser.id, registered ? secret : null);
+    if (authUserId && !(registered && (await games.linkProfileToAuth(newUser.id, secret)))) {
+      return { ...newUser, authUserId: undefined };
+    }
+  }
+  // Fallback for offline/error (though this app requires net)
+  return newUser;
+};
+
 export const getCurrentUser = async (): Promise<User> => {
   // 1. Try to get ID from local storage to maintain session
-  let userId = localStorage.getItem(LOCAL_USER_KEY);
+  const userId = getStoredUserId();
   let user: User | null = null;
 
   if (userId) {
     // Fetch profile from DB
-    const { data } = await supabase.from('profiles').select('*').eq('id', userId).single();
-    if (data) {
-      user = { id: data.id, name: data.name, avatarSeed: data.avatar_seed };
-    }
+    user = await getRepositories().games.getProfile(userId);
   }
 
-  // 2. If no user found (new device or cleared cache), create one
-  if (!user) {
-    const newId = Math.random().toString(36).substr(2, 9);
-    const newUser = {
-      id: newId,
-      name: `Player_${Math.floor(Math.random() * 1000)}`,
-      avatarSeed: Math.random().toString(36)
-    };
-
-    const { error } = await supabase.from('profiles').insert({
-      id: newUser.id,
-      name: newUser.name,
-      avatar_seed: newUser.avatarSeed
-    });
-
-    if (error) {
-      console.error("Error creating user:", JSON.stringify(error));
-      // Fallback for offline/error (though this app requires net)
-      return newUser;
-    }
-
-    user = newUser;
-    localStorage.setItem(LOCAL_USER_KEY, newUser.id);
+  // Profiles from before per-device secrets claim one on first load
+  if (user && !user.authUserId && !getUserSecret(user.id)) {
+    const secret = generateSecret();
+    if (await getRepositories().games.registerProfileSecret(user.id, secret)) setStoredUserId(user.id, secret);
   }
 
-  return user;
+  // 2. If no user found (new device or cleared cache), create one
+  return user || createProfile();
 };
 
 export const saveCurrentUser = async (user: User): Promise<void> => {
-  const { error } = await supabase.from('profiles').upsert({
-    id: user.id,
-    name: user.name,
-    avatar_seed: user.avatarSeed
-  });
-  
-  if (error) console.error("Error updating user:", JSON.stringify(error));
+  await getRepositories().games.upsertProfile(user);
 };
 
 // --- Game Management ---
 
-export const saveGame = async (game: GameData): Promise<boolean> => {
-  const { error } = await supabase.from('games').insert({
-    id: game.id,
-    image_data: game.imageData, // Storing Base64 in text column (ok for MVP)
-    location_lat: game.location.lat,
-    location_lng: game.location.lng,
-    location_name: game.locationName,
-    author_id: game.authorId,
-    author_name: game.authorName,
-    created_at: game.createdAt
-  });
-
-  if (error) {
-    console.error("Error saving game:", JSON.stringify(error));
+export type NewGame = Omit<GameData, 'imageUrl' | 'mediumUrl' | 'thumbnailUrl' | 'photos'>;
+
+// Renders + uploads every photo's renditions first, then inserts the row pointing at them.
+// The first photo is the cover; `photos` is only stored when there is more than one.
+export const saveGame = async (game: NewGame, images: string[]): Promise<boolean> => {
+  try {
+    const { games } = getRepositories();
+    if (!(await games.claimGameImages(game.id, game.authorId, getUserSecret(game.authorId)))) return false;
+    const uploaded = await Promise.all(
+      images.map(async (image, index) => uploadGameImages(game.id, await buildRenditions(image), index))
+    );
+    if (uploaded.length === 0 || uploaded.some((urls) => !urls)) return false;
+
+    return await games.insertGame({
+      ...game,
+      ...uploaded[0],
+      photos: uploaded.length > 1 ? uploaded : undefined,
+    });
+  } catch (e) {
+    console.error("Error saving game:", e);
     return false;
   }
-  return true;
 };
 
-export const getGameById = async (id: string): Promise<GameData | null> => {
-  const { data, error } = await supabase.from('games').select('*').eq('id', id).single();
-  
-  if (error || !data) return null;
-
-  return {
-    id: data.id,
-    imageData: data.image_data,
-    location: { lat: data.location_lat, lng: data.location_lng },
-    locationName: data.location_name,
-    authorId: data.author_id,
-    authorName: data.author_name,
-    createdAt: data.created_at,
-    likes: data.likes || 0
-  };
+// Play-time payload: image + author info, no answer
+export const getGameById = async (id: string): Promise<PlayableGame | null> => {
+  return getRepositories().games.getGame(id);
+};
+
+// The answer, once this user has guessed (or if they made the game); null otherwise.
+// userId must be this browser's user: the server only answers for whoever the stored secret proves.
+export const getGameAnswer = async (gameId: string, userId: string): Promise<GameAnswer | null> => {
+  const answers = await getRepositories().games.revealAnswers(getUserSecret(userId), [gameId]);
+  return answers[gameId] || null;
+};
+
+// Full game for review screens and history cards; null until the answer may be revealed
+export const revealGame = async (gameId: string, userId: string): Promise<GameData | null> => {
+  const [game, answer] = await Promise.all([getGameById(gameId), getGameAnswer(gameId, userId)]);
+  return game && answer ? { ...game, ...answer } : null;
 };
 
-export const getNextUnplayedGame = async (userId: string): Promise<GameData | null> => {
+// Enough unplayed candidates for rating matching to find a close game, small enough to stay one quick query
+const UNPLAYED_SAMPLE_SIZE = 200;
+
+export const getNextUnplayedGame = async (userId: string, filter: GameFilter = {}): Promise<PlayableGame | null> => {
   try {
-    // 1. Get IDs of games this user has already guessed
-    const { data: myGuesses } = await supabase
-      .from('guesses')
-      .select('game_id')
-      .eq('user_id', userId);
-
-    const playedGameIds = new Set(myGuesses?.map(g => g.game_id) || []);
-
-    // 2. Fetch recent 50 games metadata in ONE query, including beginner flag.
-    // CRITICAL: Do NOT select '*' here — image_data for 50 rows is a massive download.
-    // If is_beginner_friendly column doesn't exist yet, the field just comes back null
-    // and we gracefully fall back to the full pool.
-    const { data: allGamesMeta } = await supabase
-      .from('games')
-      .select('id, created_at, is_beginner_friendly')
-      .order('created_at', { ascending: false })
-      .limit(50);
-
-    if (!allGamesMeta) return null;
-
-    const unplayed = allGamesMeta.filter(g => !playedGameIds.has(g.id));
+    const { games } = getRepositories();
+
+    // 1. A random sample of the games this user has no guess for, drawn from the whole pool
+    // server-side, plus the player's skill rating. Metadata only — the image is fetched for the
+    // chosen game alone.
+    const [unplayed, rating] = await Promise.all([
+      games.listUnplayedGameMeta(userId, filter, UNPLAYED_SAMPLE_SIZE),
+      games.getPlayerRating(userId),
+    ]);
     if (unplayed.length === 0) return null;
 
-    // 3. Prefer beginner-friendly games; fall back to any unplayed game
-    const beginnerPool = unplayed.filter(g => g.is_beginner_friendly);
+    // 2. Match the game's rating to the player's once both have enough plays behind them
+    const matchedId = pickMatchedGameId(rating, unplayed);
+    if (matchedId) return await getGameById(matchedId);
+
+    // 3. Not enough data: prefer games players find easy; the manual flag only decides for games
+    // not rated yet. Fall back to any unplayed game
+    const beginnerPool = unplayed.filter(g =>
+      g.difficulty !== undefined ? difficultyLevel(g.difficulty) === 'easy' : g.isBeginnerFriendly
+    );
     const pool = beginnerPool.length > 0 ? beginnerPool : unplayed;
 
     // 4. Pick random, then fetch FULL data (including image) for that one game only
@@ -134,41 +161,23 @@ export const getNextUnplayedGame = async (userId: string): Promise<GameData | nu
 };
 
 export const getUserCreatedGames = async (userId: string): Promise<GameData[]> => {
-  // Fetch games created by this user
-  // Warning: Fetching image_data for all might be heavy if user has many games.
-  // For MVP with aggressive compression (<150KB), 20 items = 3MB, acceptable.
-  const { data, error } = await supabase
-    .from('games')
-    .select('*')
-    .eq('author_id', userId)
-    .order('created_at', { ascending: false });
-
-  if (error || !data) return [];
-
-  return data.map(row => ({
-    id: row.id,
-    imageData: row.image_data,
-    location: { lat: row.location_lat, lng: row.location_lng },
-    locationName: row.location_name,
-    authorId: row.author_id,
-    authorName: row.author_name,
-    createdAt: row.created_at,
-    likes: row.likes || 0
-  }));
+  // Fetch games created by this user (rows carry image URLs; lists pick a rendition via selectImageUrl)
+  const { games } = getRepositories();
+  const list = await games.listGamesByAuthor(userId);
+  // Authors always get their own answers back
+  const answers = await games.revealAnswers(getUserSecret(userId), list.map((g) => g.id));
+  return list.filter((g) => answers[g.id]).map((g) => ({ ...g, ...answers[g.id] }));
 };
 
 export const rateGame = async (gameId: string, action: 'like' | 'unlike'): Promise<boolean> => {
   try {
-    // Simple Read-Modify-Write for MVP
-    const { data, error: readError } = await supabase
-      .from('games')
-      .select('likes')
-      .eq('id', gameId)
-      .single();
+    const { games } = getRepositories();
 
-    if (readError || !data) return false;
+    // Simple Read-Modify-Write for MVP
+    const likes = await games.getGameLikes(gameId);
+    if (likes === null) return false;
 
-    let currentCount = (data as any).likes || 0;
+    let currentCount = likes;
     
     if (action === 'like') {
         currentCount += 1;
@@ -176,12 +185,7 @@ export const rateGame = async (gameId: string, action: 'like' | 'unlike'): Promi
         currentCount = Math.max(0, currentCount - 1);
     }
 
-    const { error: updateError } = await supabase
-      .from('games')
-      .update({ likes: currentCount })
-      .eq('id', gameId);
-
-    return !updateError;
+    return await games.setGameLikes(gameId, currentCount);
   } catch (e) {
     console.error("Error rating game:", e);
     return false;
@@ -190,76 +194,33 @@ export const rateGame = async (gameId: string, action: 'like' | 'unlike'): Promi
 
 // --- Guess Management ---
 
-export const saveGuess = async (guess: Guess): Promise<void> => {
-  const { error } = await supabase.from('guesses').insert({
-    id: guess.id,
-    game_id: guess.gameId,
-    user_id: guess.userId,
-    user_name: guess.userName,
-    user_avatar_seed: guess.userAvatarSeed,
-    location_lat: guess.location.lat,
-    location_lng: guess.location.lng,
-    distance: guess.distance,
-    score: guess.score,
-    timestamp: guess.timestamp
-  });
-  if (error) console.error("Error saving guess:", JSON.stringify(error));
+// Starts (or resumes) the backend clock for this question; also reports the effective time limit
+export const startRound = async (gameId: string, userId: string, collectionId?: string): Promise<RoundClock | null> => {
+  return getRepositories().games.startRound(gameId, userId, getUserSecret(userId), collectionId);
+};
+
+// Sends coordinates only; the backend scores the guess and returns it (null on failure)
+export const submitGuess = async (submission: GuessSubmission): Promise<Guess | null> => {
+  const guess = await getRepositories().games.submitGuess(submission, getUserSecret(submission.userId));
+  if (guess) void evaluateAchievements(guess.userId); // in the background; unlocks arrive as a toast
+  return guess;
 };
 
 export const getGuessesForGame = async (gameId: string): Promise<Guess[]> => {
-  const { data, error } = await supabase
-    .from('guesses')
-    .select('*')
-    .eq('game_id', gameId)
-    .order('score', { ascending: false }); // High score first
-
-  if (error || !data) return [];
-
-  return data.map(row => ({
-    id: row.id,
-    gameId: row.game_id,
-    userId: row.user_id,
-    userName: row.user_name,
-    userAvatarSeed: row.user_avatar_seed,
-    location: { lat: row.location_lat, lng: row.location_lng },
-    distance: row.distance,
-    score: row.score,
-    timestamp: row.timestamp
-  }));
+  return getRepositories().games.listGuessesForGame(gameId); // High score first
 };
 
 export const getUserGuesses = async (userId: string): Promise<Guess[]> => {
-  const { data, error } = await supabase
-    .from('guesses')
-    .select('*')
-    .eq('user_id', userId)
-    .order('timestamp', { ascending: false });
-
-  if (error || !data) return [];
-
-  return data.map(row => ({
-    id: row.id,
-    gameId: row.game_id,
-    userId: row.user_id,
-    userName: row.user_name,
-    userAvatarSeed: row.user_avatar_seed,
-    location: { lat: row.location_lat, lng: row.location_lng },
-    distance: row.distance,
-    score: row.score,
-    timestamp: row.timestamp
-  }));
+  return getRepositories().games.listGuessesByUser(userId);
+};
+
+// Batch lookup used by CollectionPlayer to detect questions answered outside the collection
+export const getUserGuessesForGames = async (userId: string, gameIds: string[]): Promise<Guess[]> => {
+  return getRepositories().games.listGuessesByUser(userId, gameIds);
 };
 
 export const hasUserPlayed = async (gameId: string, userId: string): Promise<boolean> => {
-  const { data, error } = await supabase
-    .from('guesses')
-    .select('id')
-    .eq('game_id', gameId)
-    .eq('user_id', userId)
-    .single();
-  
-  if (error && error.code !== 'PGRST116') return false; // PGRST116 is "no rows found"
-  return !!data;
+  return getRepositories().games.hasGuess(gameId, userId);
 };
 
-export const generateId = (): string => Math.random().toString(36).substr(2, 9);
\ No newline at end of file
+export const generateId = (): string => Math.random().toString(36).substr(2, 9);
@@ -0,0 +1,916 @@
+import { supabase } from './supabaseClient';
+import {
+  Collection, CollectionAttempt, CreatorRanking, Duel, GameAnswer, Guess, PlayableGame, PlayerRanking,
+  ScoringProfile, UnlockedAchievement, User,
+} from '../types';
+import {
+  AchievementRepository, AuthRepository, AuthSession, CollectionRepository, DeviceLinkRepository, DuelRepository, GameRepository,
+  ImageRepository, RealtimeRepository, Repositories, RoomMember,
+} from './repository';
+
+// Same format as storageService.generateId (kept local to avoid a circular import)
+const newRowId = (): string => Math.random().toString(36).substr(2, 9);
+
+// --- Row Mappers ---
+
+// The answer columns (location_lat / location_lng / location_name) are not readable by clients;
+// select these explicitly instead of '*' (see TECH_SPECS §11)
+const PLAYABLE_GAME_COLUMNS =
+  'id, image_url, medium_url, thumbnail_url, image_data, author_id, author_name, created_at, likes, ' +
+  'scoring_profile, scoring_radius_km, time_limit_sec, view_restrictions, photos, difficulty, tags';
+
+// scoring_profile / scoring_radius_km columns on games and collections (NULL = default)
+const rowToScoring = (row: any): ScoringProfile | undefined =>
+  row.scoring_profile
+    ? { curve: row.scoring_profile, radiusKm: row.scoring_radius_km ?? undefined }
+    : undefined;
+
+const scoringToRow = (scoring?: ScoringProfile) => ({
+  scoring_profile: scoring?.curve ?? null,
+  scoring_radius_km: scoring?.curve === 'linear' ? scoring.radiusKm ?? null : null,
+});
+
+const rowToGame = (row: any): PlayableGame => ({
+  id: row.id,
+  // Rows not yet migrated by migrateLegacyGameImages still carry Base64 in image_data
+  imageUrl: row.image_url || row.image_data,
+  mediumUrl: row.medium_url || undefined,
+  thumbnailUrl: row.thumbnail_url || undefined,
+  authorId: row.author_id,
+  authorName: row.author_name,
+  createdAt: row.created_at,
+  likes: row.likes || 0,
+  scoring: rowToScoring(row),
+  timeLimitSec: row.time_limit_sec || undefined,
+  restrictions: row.view_restrictions || undefined,
+  photos: row.photos || undefined,
+  difficulty: row.difficulty ?? undefined,
+  tags: row.tags?.length ? row.tags : undefined,
+});
+
+const rowToAnswer = (row: any): GameAnswer => ({
+  location: { lat: row.location_lat, lng: row.location_lng },
+  locationName: row.location_name || undefined,
+});
+
+const rowToUser = (row: any): User => ({
+  id: row.id,
+  name: row.name,
+  avatarSeed: row.avatar_seed,
+  authUserId: row.auth_user_id || undefined,
+});
+
+const rowToGuess = (row: any): Guess => ({
+  id: row.id,
+  gameId: row.game_id,
+  userId: row.user_id,
+  userName: row.user_name,
+  userAvatarSeed: row.user_avatar_seed,
+  location: row.location_lat == null ? null : { lat: row.location_lat, lng: row.location_lng },
+  distance: row.distance ?? null,
+  score: row.score,
+  timestamp: row.timestamp,
+  elapsedMs: row.elapsed_ms ?? undefined,
+});
+
+const rowToCollection = (row: any): Collection => ({
+  id: row.id,
+  name: row.name,
+  authorId: row.author_id,
+  authorName: row.author_name,
+  createdAt: row.created_at,
+  itemCount: row.item_count,
+  scoring: rowToScoring(row),
+  timeLimitSec: row.time_limit_sec || undefined,
+  restrictions: row.view_restrictions || undefined,
+  isDaily: row.is_daily || undefined,
+  tags: row.tags?.length ? row.tags : undefined,
+});
+
+const rowToAttempt = (row: any): CollectionAttempt => ({
+  id: row.id,
+  collectionId: row.collection_id,
+  userId: row.user_id,
+  userName: row.user_name,
+  totalScore: row.total_score,
+  completedAt: row.completed_at,
+  totalElapsedMs: row.total_elapsed_ms ?? undefined,
+});
+
+const rowToDuel = (row: any): Duel => ({
+  id: row.id,
+  kind: row.kind,
+  targetId: row.target_id,
+  challengerId: row.challenger_id,
+  challengerName: row.challenger_name,
+  opponentId: row.opponent_id || undefined,
+  opponentName: row.opponent_name || undefined,
+  status: row.status,
+  createdAt: row.created_at,
+  acceptedAt: row.accepted_at ?? undefined,
+  completedAt: row.completed_at ?? undefined,
+});
+
+const rowToRanking = (row: any): PlayerRanking => ({
+  rank: Number(row.rank),
+  userId: row.user_id,
+  userName: row.user_name,
+  avatarSeed: row.avatar_seed || undefined,
+  totalScore: Number(row.total_score) || 0,
+  gamesPlayed: Number(row.games_played) || 0,
+  averageScore: Number(row.average_score) || 0,
+});
+
+const rowToCreatorRanking = (row: any): CreatorRanking => ({
+  rank: Number(row.rank),
+  userId: row.user_id,
+  userName: row.user_name,
+  avatarSeed: row.avatar_seed || undefined,
+  plays: Number(row.plays) || 0,
+  gamesCount: Number(row.games_count) || 0,
+});
+
+const rowToAchievement = (row: any): UnlockedAchievement => ({
+  userId: row.user_id,
+  achievementId: row.achievement_id,
+  unlockedAt: row.unlocked_at,
+});
+
+const achievementToRow = (a: UnlockedAchievement) => ({
+  user_id: a.userId,
+  achievement_id: a.achievementId,
+  unlocked_at: a.unlockedAt,
+});
+
+// --- Games, Profiles, Guesses ---
+
+const gameRepository: GameRepository = {
+  async getProfile(id) {
+    const { data } = await supabase.from('profiles').select('*').eq('id', id).single();
+    return data ? rowToUser(data) : null;
+  },
+
+  async insertProfile(user) {
+    const { error } = await supabase.from('profiles').insert({
+      id: user.id,
+      name: user.name,
+      avatar_seed: user.avatarSeed,
+    });
+    if (error) console.error('Error creating user:', JSON.stringify(error));
+    return !error;
+  },
+
+  async upsertProfile(user) {
+    const { error } = await supabase.from('profiles').upsert({
+      id: user.id,
+      name: user.name,
+      avatar_seed: user.avatarSeed,
+    });
+    if (error) console.error('Error updating user:', JSON.stringify(error));
+    return !error;
+  },
+
+  async findProfileByAuthId(authUserId) {
+    const { data } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('auth_user_id', authUserId)
+      .maybeSingle();
+    return data ? rowToUser(data) : null;
+  },
+
+  async linkProfileToAuth(profileId, secret) {
+    // The account comes from auth.uid() on the server (see TECH_SPECS §9.6)
+    const { data, error } = await supabase.rpc('link_profile_to_auth', { p_profile_id: profileId, p_secret: secret });
+    if (error) console.error('Error linking profile:', JSON.stringify(error));
+    return !error && data === true;
+  },
+
+  async mergeProfile(fromUserId, toUserId, fromSecret, toSecret) {
+    // One transaction on the server, duplicates resolved there (see TECH_SPECS §9.5)
+    const { data, error } = await supabase.rpc('merge_profile', {
+      p_from: fromUserId,
+      p_to: toUserId,
+      p_from_secret: fromSecret,
+      p_to_secret: toSecret,
+    });
+    if (error) console.error('Error merging profile:', JSON.stringify(error));
+    return !error && data === true;
+  },
+
+  async registerProfileSecret(userId, secret) {
+    const { data, error } = await supabase.rpc('register_profile_secret', { p_user_id: userId, p_secret: secret });
+    if (error) console.error('Error registering profile secret:', JSON.stringify(error));
+    return !error && data === true;
+  },
+
+  async claimGameImages(gameId, _userId, secret) {
+    const { data, error } = await supabase.rpc('claim_game_images', { p_game_id: gameId, p_secret: secret });
+    if (error) console.error('Error claiming game images:', JSON.stringify(error));
+    return !error && data === true;
+  },
+
+  async insertGame(game) {
+    const { error } = await supabase.from('games').insert({
+      id: game.id,
+      image_url: game.imageUrl,
+      medium_url: game.mediumUrl,
+      thumbnail_url: game.thumbnailUrl,
+      location_lat: game.location.lat,
+      location_lng: game.location.lng,
+      location_name: game.locationName,
+      country: game.country ?? null,
+      province: game.province ?? null,
+      author_id: game.authorId,
+      author_name: game.authorName,
+      created_at: game.createdAt,
+      ...scoringToRow(game.scoring),
+      time_limit_sec: game.timeLimitSec ?? null,
+      view_restrictions: game.restrictions ?? null,
+      photos: game.photos ?? null,
+      tags: game.tags ?? [],
+    });
+    if (error) console.error('Error saving game:', JSON.stringify(error));
+    return !error;
+  },
+
+  async getGame(id) {
+    const { data, error } = await supabase.from('games').select(PLAYABLE_GAME_COLUMNS).eq('id', id).single();
+    if (error || !data) return null;
+    return rowToGame(data);
+  },
+
+  async revealAnswers(secret, gameIds) {
+    if (gameIds.length === 0) return {};
+    // The server resolves the caller from the secret / auth session (see TECH_SPECS §11.3)
+    const { data, error } = await supabase.rpc('reveal_answers', { p_secret: secret, p_game_ids: gameIds });
+    if (error) {
+      console.error('Error revealing answers:', JSON.stringify(error));
+      return {};
+    }
+    const answers: Record<string, GameAnswer> = {};
+    (data || []).forEach((row: any) => { answers[row.id] = rowToAnswer(row); });
+    return answers;
+  },
+
+  async listRecentGameMeta(limit) {
+    // CRITICAL: Do NOT select '*' here — image_data for 50 rows is a massive download.
+    // If is_beginner_friendly column doesn't exist yet, the field just comes back null.
+    const { data } = await supabase
+      .from('games')
+      .select('id, created_at, is_beginner_friendly, difficulty, rating, rated_plays')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    return (data || []).map((row) => ({
+      id: row.id,
+      createdAt: row.created_at,
+      isBeginnerFriendly: !!row.is_beginner_friendly,
+      difficulty: row.difficulty ?? undefined,
+      rating: row.rating ?? undefined,
+      ratedPlays: row.rated_plays ?? undefined,
+    }));
+  },
+
+  async listUnplayedGameMeta(userId, filter, limit) {
+    // Server-side anti-join over the whole pool (TECH_SPECS §25); only metadata comes back
+    const { country, province, bounds, difficulty, authorId, tag } = filter;
+    const { data, error } = await supabase.rpc('list_unplayed_games', {
+      p_user_id: userId,
+      p_country: country ?? null,
+      p_province: province ?? null,
+      p_south: bounds?.south ?? null,
+      p_west: bounds?.west ?? null,
+      p_north: bounds?.north ?? null,
+      p_east: bounds?.east ?? null,
+      p_difficulty: difficulty && difficulty.length > 0 ? difficulty : null,
+      p_author_id: authorId ?? null,
+      p_tag: tag ?? null,
+      p_limit: limit,
+    });
+    if (error) {
+      console.error('Error listing unplayed games:', JSON.stringify(error));
+      return [];
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      createdAt: row.created_at,
+      isBeginnerFriendly: !!row.is_beginner_friendly,
+      difficulty: row.difficulty ?? undefined,
+      rating: row.rating ?? undefined,
+      ratedPlays: row.rated_plays ?? undefined,
+    }));
+  },
+
+  async listGameRegions() {
+    const { data, error } = await supabase.rpc('list_game_regions');
+    if (error) {
+      console.error('Error listing regions:', JSON.stringify(error));
+      return [];
+    }
+    return (data || []).map((row: any) => ({
+      country: row.country,
+      province: row.province ?? undefined,
+      games: Number(row.games),
+    }));
+  },
+
+  async listGamesByTag(tag, limit) {
+    const { data, error } = await supabase
+      .from('games')
+      .select(PLAYABLE_GAME_COLUMNS)
+      .contains('tags', [tag])
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error || !data) return [];
+    return data.map(rowToGame);
+  },
+
+  async listTagCounts(limit) {
+    const { data, error } = await supabase.rpc('tag_index', { p_limit: limit });
+    if (error) {
+      console.error('Error listing tags:', JSON.stringify(error));
+      return [];
+    }
+    return (data || []).map((row: any) => ({
+      tag: row.tag,
+      games: Number(row.games),
+      collections: Number(row.collections),
+    }));
+  },
+
+  async listGamesByAuthor(authorId) {
+    const { data, error } = await supabase
+      .from('games')
+      .select(PLAYABLE_GAME_COLUMNS)
+      .eq('author_id', authorId)
+      .order('created_at', { ascending: false });
+
+    if (error || !data) return [];
+    return data.map(rowToGame);
+  },
+
+  async setGameImageUrls(id, urls) {
+    const { error } = await supabase
+      .from('games')
+      .update({
+        image_url: urls.imageUrl,
+        medium_url: urls.mediumUrl,
+        thumbnail_url: urls.thumbnailUrl,
+        image_data: null,
+      })
+      .eq('id', id);
+    if (error) console.error('Error updating game image:', JSON.stringify(error));
+    return !error;
+  },
+
+  async listLegacyImageGames(limit) {
+    const { data, error } = await supabase
+      .from('games')
+      .select('id, image_data')
+      .is('image_url', null)
+      .not('image_data', 'is', null)
+      .limit(limit);
+
+    if (error || !data) return [];
+    return data.map((row) => ({ id: row.id, imageData: row.image_data }));
+  },
+
+  async getGameLikes(id) {
+    const { data, error } = await supabase.from('games').select('likes').eq('id', id).single();
+    if (error || !data) return null;
+    return (data as any).likes || 0;
+  },
+
+  async setGameLikes(id, likes) {
+    const { error } = await supabase.from('games').update({ likes }).eq('id', id);
+    return !error;
+  },
+
+  // The player is whoever the secret (or session) resolves to, not userId (see TECH_SPECS §13.5)
+  async startRound(gameId, _userId, secret, collectionId) {
+    const { data, error } = await supabase.rpc('start_round', {
+      p_game_id: gameId,
+      p_secret: secret,
+      p_collection_id: collectionId ?? null,
+    });
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+      console.error('Error starting round:', JSON.stringify(error));
+      return null;
+    }
+    return { elapsedMs: row.elapsed_ms, timeLimitSec: row.time_limit_sec || undefined };
+  },
+
+  // Scored by the `submit_guess` RPC so the client can't choose its own score
+  async submitGuess(submission, secret) {
+    const { data, error } = await supabase.rpc('submit_guess', {
+      p_id: submission.id,
+      p_game_id: submission.gameId,
+      p_secret: secret,
+      p_user_name: submission.userName,
+      p_user_avatar_seed: submission.userAvatarSeed,
+      p_lat: submission.location?.lat ?? null,
+      p_lng: submission.location?.lng ?? null,
+      p_collection_id: submission.collectionId ?? null,
+    });
+    if (error || !data) {
+      console.error('Error submitting guess:', JSON.stringify(error));
+      return null;
+    }
+    return rowToGuess(Array.isArray(data) ? data[0] : data);
+  },
+
+  async listGuessesForGame(gameId) {
+    const { data, error } = await supabase
+      .from('guesses')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('score', { ascending: false }) // High score first
+      .order('elapsed_ms', { ascending: true, nullsFirst: false }); // then faster
+
+    if (error || !data) return [];
+    return data.map(rowToGuess);
+  },
+
+  async listGuessesForGames(gameIds) {
+    if (gameIds.length === 0) return [];
+    const { data, error } = await supabase.from('guesses').select('*').in('game_id', gameIds);
+    if (error || !data) return [];
+    return data.map(rowToGuess);
+  },
+
+  async listGuessesByUser(userId, gameIds) {
+    let query = supabase.from('guesses').select('*').eq('user_id', userId);
+    if (gameIds) query = query.in('game_id', gameIds);
+    const { data, error } = await query.order('timestamp', { ascending: false });
+
+    if (error || !data) return [];
+    return data.map(rowToGuess);
+  },
+
+  async hasGuess(gameId, userId) {
+    const { data, error } = await supabase
+      .from('guesses')
+      .select('id')
+      .eq('game_id', gameId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') return false; // PGRST116 is "no rows found"
+    return !!data;
+  },
+
+  async getPlayerRating(userId) {
+    // Maintained by the apply_guess_rating trigger on guesses (see TECH_SPECS §24)
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('rating, rated_games')
+      .eq('id', userId)
+      .maybeSingle();
+    if (error) console.error('Error fetching player rating:', JSON.stringify(error));
+    return data ? { rating: data.rating, plays: data.rated_games } : null;
+  },
+
+  async listPlayerXp(userIds) {
+    if (userIds.length === 0) return {};
+    // player_xp is a view summing guesses.score per user (see TECH_SPECS §19)
+    const { data, error } = await supabase.from('player_xp').select('user_id, xp').in('user_id', userIds);
+    if (error) {
+      console.error('Error fetching player XP:', JSON.stringify(error));
+      return {};
+    }
+    const result: Record<string, number> = {};
+    (data || []).forEach((row) => { result[row.user_id] = Number(row.xp) || 0; });
+    return result;
+  },
+
+  async listPlayerRankings({ metric, since, minGames, userId, page = 0, pageSize = 20 }) {
+    // Aggregated in the database over every guess in the window (see TECH_SPECS §21)
+    const { data, error } = await supabase.rpc('player_leaderboard', {
+      p_metric: metric,
+      p_since: since ?? 0,
+      p_min_games: minGames ?? 1,
+      p_user_id: userId ?? null,
+      p_offset: page * pageSize,
+      p_limit: pageSize,
+    });
+    if (error) {
+      console.error('Error fetching player leaderboard:', JSON.stringify(error));
+      return [];
+    }
+    return (data || []).map(rowToRanking);
+  },
+
+  async listTopCreators(limit) {
+    const { data, error } = await supabase.rpc('creator_leaderboard', { p_limit: limit });
+    if (error) {
+      console.error('Error fetching creator leaderboard:', JSON.stringify(error));
+      return [];
+    }
+    return (data || []).map(rowToCreatorRanking);
+  },
+
+  async getCreatorStats(userId, since) {
+    // Aggregated in the database: a creator's guesses can run past the 1000-row response cap
+    const [players, byDay, perGame, perCollection] = await Promise.all([
+      supabase.rpc('creator_player_count', { p_user_id: userId }),
+      supabase.rpc('creator_plays_by_day', { p_user_id: userId, p_since: since }),
+      supabase.rpc('creator_game_stats', { p_user_id: userId }),
+      supabase.rpc('creator_collection_stats', { p_user_id: userId }),
+    ]);
+    const error = players.error || byDay.error || perGame.error || perCollection.error;
+    if (error) {
+      console.error('Error fetching creator stats:', JSON.stringify(error));
+      return null;
+    }
+    return {
+      uniquePlayers: Number(players.data) || 0,
+      playsByDay: (byDay.data || []).map((row: any) => ({ day: row.day, plays: Number(row.plays) })),
+      games: (perGame.data || []).map((row: any) => ({
+        gameId: row.game_id,
+        plays: Number(row.plays),
+        avgScore: row.avg_score == null ? null : Number(row.avg_score),
+        avgErrorM: row.avg_error_m == null ? null : Number(row.avg_error_m),
+      })),
+      collections: (perCollection.data || []).map((row: any) => ({
+        collectionId: row.collection_id,
+        completions: Number(row.completions),
+        avgTotalScore: Number(row.avg_total_score) || 0,
+      })),
+    };
+  },
+};
+
+// --- Collections ---
+
+const collectionRepository: CollectionRepository = {
+  async insertCollection(collection, gameIds) {
+    const { error: collErr } = await supabase.from('collections').insert({
+      id: collection.id,
+      name: collection.name,
+      author_id: collection.authorId,
+      author_name: collection.authorName,
+      item_count: collection.itemCount,
+      created_at: collection.createdAt,
+      ...scoringToRow(collection.scoring),
+      time_limit_sec: collection.timeLimitSec ?? null,
+      view_restrictions: collection.restrictions ?? null,
+      is_daily: !!collection.isDaily,
+      tags: collection.tags ?? [],
+    });
+
+    if (collErr) {
+      console.error('Error creating collection:', collErr);
+      return false;
+    }
+
+    const items = gameIds.map((gameId, index) => ({
+      id: newRowId(),
+      collection_id: collection.id,
+      game_id: gameId,
+      order_index: index,
+    }));
+
+    const { error: itemsErr } = await supabase.from('collection_items').insert(items);
+    if (itemsErr) {
+      console.error('Error creating collection items:', itemsErr);
+      return false;
+    }
+    return true;
+  },
+
+  async getCollection(id) {
+    const { data, error } = await supabase.from('collections').select('*').eq('id', id).single();
+    if (error || !data) return null;
+    return rowToCollection(data);
+  },
+
+  async listCollectionGameIds(collectionId, limit) {
+    let query = supabase
+      .from('collection_items')
+      .select('game_id')
+      .eq('collection_id', collectionId)
+      .order('order_index', { ascending: true });
+    if (limit !== undefined) query = query.limit(limit);
+
+    const { data, error } = await query;
+    if (error || !data) return null;
+    return data.map((i) => i.game_id);
+  },
+
+  async listCollections({ authorId, ids, featured, daily, page, pageSize }) {
+    let query = supabase.from('collections').select('*');
+    if (authorId) query = query.eq('author_id', authorId);
+    if (ids) query = query.in('id', ids);
+    if (daily !== undefined) query = query.eq('is_daily', daily);
+    if (featured) {
+      query = query.eq('is_featured', true).order('featured_order', { ascending: true });
+    } else {
+      query = query.order('created_at', { ascending: false });
+    }
+    if (page !== undefined && pageSize !== undefined) {
+      query = query.range(page * pageSize, (page + 1) * pageSize - 1);
+    }
+
+    const { data, error } = await query;
+    if (error || !data) return [];
+    return data.map(rowToCollection);
+  },
+
+  async listPlazaCollections({ search, tag, sort, page, pageSize }) {
+    // Ranking needs attempts and likes across every collection, so it runs in the database (TECH_SPECS §28)
+    const { data, error } = await supabase.rpc('plaza_collections', {
+      p_search: search?.trim() || null,
+      p_tag: tag ?? null,
+      p_sort: sort,
+      p_offset: page * pageSize,
+      p_limit: pageSize,
+    });
+    if (error) {
+      console.error('Error listing plaza collections:', JSON.stringify(error));
+      return [];
+    }
+    return (data || []).map(rowToCollection);
+  },
+
+  async ensureDailyCollection(day) {
+    const { data, error } = await supabase.rpc('ensure_daily_challenge', { p_day: day });
+    if (error) {
+      console.error('Error creating daily challenge:', JSON.stringify(error));
+      return false;
+    }
+    return data === true;
+  },
+
+  async listAttempts({ collectionId, collectionIds, userId }) {
+    let query = supabase.from('collection_attempts').select('*');
+    if (collectionId) query = query.eq('collection_id', collectionId);
+    if (collectionIds) query = query.in('collection_id', collectionIds);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query
+      .order('total_score', { ascending: false })
+      .order('total_elapsed_ms', { ascending: true, nullsFirst: false })
+      .order('completed_at', { ascending: true });
+
+    if (error || !data) return [];
+    return data.map(rowToAttempt);
+  },
+
+  // Totals come from the `submit_collection_attempt` RPC (TECH_SPECS §10.3), never from the client
+  async submitAttempt(id, collectionId, _userId, userName, secret) {
+    const { data, error } = await supabase.rpc('submit_collection_attempt', {
+      p_id: id,
+      p_collection_id: collectionId,
+      p_secret: secret,
+      p_user_name: userName,
+    });
+    if (error) console.error('Error submitting collection attempt:', JSON.stringify(error));
+    return !error && data === true;
+  },
+};
+
+// --- Images (Supabase Storage) ---
+
+const IMAGE_BUCKET = 'game-images';
+
+const imageRepository: ImageRepository = {
+  async upload(path, dataUrl) {
+    const blob = await (await fetch(dataUrl)).blob();
+    const { error } = await supabase.storage
+      .from(IMAGE_BUCKET)
+      .upload(path, blob, { contentType: blob.type || 'image/jpeg' }); // never overwrites (see TECH_SPECS §8.4)
+
+    if (error) {
+      console.error('Error uploading image:', JSON.stringify(error));
+      return null;
+    }
+    return supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+  },
+};
+
+// --- Auth (Supabase Auth, email magic link) ---
+
+const toSession = (session: any): AuthSession | null =>
+  session?.user ? { authUserId: session.user.id, email: session.user.email || '' } : null;
+
+const authRepository: AuthRepository = {
+  async getSession() {
+    const { data } = await supabase.auth.getSession();
+    return toSession(data.session);
+  },
+
+  async sendMagicLink(email) {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin + window.location.pathname },
+    });
+    if (error) console.error('Error sending magic link:', JSON.stringify(error));
+    return !error;
+  },
+
+  async signOut() {
+    const { error } = await supabase.auth.signOut();
+    if (error) console.error('Error signing out:', JSON.stringify(error));
+  },
+
+  onSessionChange(listener) {
+    // Only real sign-in / sign-out; INITIAL_SESSION and TOKEN_REFRESHED don't change who is playing
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') listener(toSession(session));
+    });
+    return () => data.subscription.unsubscribe();
+  },
+};
+
+// --- Device Links ---
+
+const deviceLinkRepository: DeviceLinkRepository = {
+  async insertLink(link, secret) {
+    // The server checks the caller owns link.userId (see TECH_SPECS §11.3)
+    const { data, error } = await supabase.rpc('create_device_link', {
+      p_code: link.code,
+      p_user_id: link.userId,
+      p_secret: secret,
+      p_progress: link.progress,
+      p_expires_at: link.expiresAt,
+    });
+    if (error) console.error('Error creating device link:', JSON.stringify(error));
+    return !error && data === true;
+  },
+
+  async consumeLink(code, _now, secret) {
+    // Single use and expiry are checked on the server, against its own clock
+    const { data, error } = await supabase.rpc('redeem_device_link', { p_code: code, p_secret: secret });
+
+    if (error) {
+      console.error('Error redeeming device link:', JSON.stringify(error));
+      return null;
+    }
+    if (!data?.code) return null;
+    return {
+      code: data.code,
+      userId: data.user_id,
+      progress: data.progress || [],
+      expiresAt: data.expires_at,
+    };
+  },
+};
+
+// --- Realtime Rooms ---
+// Broadcast + presence on a `room:<code>` channel. Nothing is stored in Postgres.
+
+const SUBSCRIBE_TIMEOUT_MS = 10000;
+
+const realtimeRepository: RealtimeRepository = {
+  async joinRoom(code, me) {
+    const channel = supabase.channel(`room:${code}`, {
+      config: { broadcast: { self: false }, presence: { key: me.userId } },
+    });
+    const messageListeners = new Set<(event: string, payload: any) => void>();
+    const memberListeners = new Set<(members: RoomMember[]) => void>();
+    let members: RoomMember[] = [];
+
+    channel.on('broadcast', { event: '*' }, ({ event, payload }) => {
+      messageListeners.forEach((l) => l(event, payload));
+    });
+    channel.on('presence', { event: 'sync' }, () => {
+      // One entry per presence key (user); a user with two tabs counts once
+      members = Object.values(channel.presenceState<RoomMember>()).map((metas) => {
+        const { userId, userName, avatarSeed } = metas[0];
+        return { userId, userName, avatarSeed };
+      });
+      memberListeners.forEach((l) => l(members));
+    });
+
+    const joined = await new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => resolve(false), SUBSCRIBE_TIMEOUT_MS);
+      channel.subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          clearTimeout(timer);
+          await channel.track(me);
+          resolve(true);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          clearTimeout(timer);
+          resolve(false);
+        }
+      });
+    });
+    if (!joined) {
+      console.error(`Error joining room ${code}`);
+      supabase.removeChannel(channel);
+      return null;
+    }
+
+    return {
+      async send(event, payload) {
+        const result = await channel.send({ type: 'broadcast', event, payload });
+        if (result !== 'ok') console.error(`Error sending ${event} to room ${code}:`, result);
+        return result === 'ok';
+      },
+      onMessage(listener) {
+        messageListeners.add(listener);
+        return () => { messageListeners.delete(listener); };
+      },
+      onMembers(listener) {
+        memberListeners.add(listener);
+        listener(members);
+        return () => { memberListeners.delete(listener); };
+      },
+      async leave() {
+        messageListeners.clear();
+        memberListeners.clear();
+        await supabase.removeChannel(channel);
+      },
+    };
+  },
+};
+
+// --- Duels ---
+
+const duelRepository: DuelRepository = {
+  async insertDuel(duel) {
+    const { error } = await supabase.from('duels').insert({
+      id: duel.id,
+      kind: duel.kind,
+      target_id: duel.targetId,
+      challenger_id: duel.challengerId,
+      challenger_name: duel.challengerName,
+      status: duel.status,
+      created_at: duel.createdAt,
+    });
+    if (error) console.error('Error creating duel:', JSON.stringify(error));
+    return !error;
+  },
+
+  async getDuel(id) {
+    const { data, error } = await supabase.from('duels').select('*').eq('id', id).maybeSingle();
+    if (error) console.error('Error fetching duel:', JSON.stringify(error));
+    return data ? rowToDuel(data) : null;
+  },
+
+  async acceptDuel(id, opponentId, opponentName, acceptedAt) {
+    // Conditional update so two people opening the same link can't both become the opponent
+    const { data, error } = await supabase
+      .from('duels')
+      .update({ opponent_id: opponentId, opponent_name: opponentName, status: 'active', accepted_at: acceptedAt })
+      .eq('id', id)
+      .eq('status', 'open')
+      .neq('challenger_id', opponentId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error accepting duel:', JSON.stringify(error));
+      return null;
+    }
+    return data ? rowToDuel(data) : null;
+  },
+
+  async completeDuel(id, completedAt) {
+    const { error } = await supabase
+      .from('duels')
+      .update({ status: 'completed', completed_at: completedAt })
+      .eq('id', id)
+      .eq('status', 'active');
+    if (error) console.error('Error completing duel:', JSON.stringify(error));
+    return !error;
+  },
+};
+
+// --- Achievements ---
+
+const achievementRepository: AchievementRepository = {
+  async listAchievements(userId) {
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('*')
+      .eq('user_id', userId)
+      .order('unlocked_at', { ascending: true });
+    if (error) console.error('Error fetching achievements:', JSON.stringify(error));
+    return (data || []).map(rowToAchievement);
+  },
+
+  async insertAchievements(rows) {
+    if (rows.length === 0) return true;
+    const { error } = await supabase
+      .from('user_achievements')
+      .upsert(rows.map(achievementToRow), { onConflict: 'user_id,achievement_id', ignoreDuplicates: true });
+    if (error) console.error('Error saving achievements:', JSON.stringify(error));
+    return !error;
+  },
+};
+
+export const createSupabaseRepositories = (): Repositories => ({
+  games: gameRepository,
+  collections: collectionRepository,
+  images: imageRepository,
+  auth: authRepository,
+  deviceLinks: deviceLinkRepository,
+  realtime: realtimeRepository,
+  duels: duelRepository,
+  achievements: achievementRepository,
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { addTag, normalizeTag, MAX_TAGS, MAX_TAG_LENGTH } from './tagService';
+
+describe('normalizeTag', () => {
+  it('drops leading hashes, collapses spaces and lowercases', () => {
+    expect(normalizeTag(' #Tokyo ')).toBe('tokyo');
+    expect(normalizeTag('＃美食')).toBe('美食');
+    expect(normalizeTag('New   York')).toBe('new york');
+  });
+
+  it('cuts to the maximum length without a trailing space', () => {
+    expect(normalizeTag('a'.repeat(20))).toHaveLength(MAX_TAG_LENGTH);
+    expect(normalizeTag('abcdefghijk lmn')).toBe('abcdefghijk');
+  });
+
+  it('returns null when nothing is left', () => {
+    expect(normalizeTag('  ')).toBeNull();
+    expect(normalizeTag('##')).toBeNull();
+  });
+});
+
+describe('addTag', () => {
+  it('skips duplicates after normalizing and stops at the limit', () => {
+    expect(addTag(['tokyo'], '#Tokyo')).toEqual(['tokyo']);
+    const full = Array.from({ length: MAX_TAGS }, (_, i) => `t${i}`);
+    expect(addTag(full, 'more')).toBe(full);
+    expect(addTag([], ' ')).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { getRepositories } from './repository';
+import { getAllCollections, CollectionWithStats } from './collectionService';
+import { PlayableGame, TagCount } from '../types';
+
+// --- Tags ---
+// Free-form labels creators put on games and collections ("美食", "地铁站", "tokyo").
+// Stored normalized, so "#Tokyo " and "tokyo" are the same tag everywhere.
+
+export const MAX_TAGS = 5;
+export const MAX_TAG_LENGTH = 12;
+const TAG_PAGE_LIMIT = 60;
+
+// null when nothing usable is left
+export const normalizeTag = (raw: string): string | null => {
+  const tag = raw
+    .trim()
+    .replace(/^[#＃]+/, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+    .slice(0, MAX_TAG_LENGTH)
+    .trim();
+  return tag || null;
+};
+
+// Adds one typed tag to a list: normalized, no duplicates, at most MAX_TAGS
+export const addTag = (tags: string[], raw: string): string[] => {
+  const tag = normalizeTag(raw);
+  if (!tag || tags.includes(tag) || tags.length >= MAX_TAGS) return tags;
+  return [...tags, tag];
+};
+
+export const tagHash = (tag: string) => `#tag/${encodeURIComponent(tag)}`;
+
+export const getPopularTags = async (limit = 30): Promise<TagCount[]> =>
+  getRepositories().games.listTagCounts(limit);
+
+// #tag/<tag>: newest tagged games and collections
+export const getTagPage = async (
+  tag: string
+): Promise<{ games: PlayableGame[]; collections: CollectionWithStats[] }> => {
+  const [games, collections] = await Promise.all([
+    getRepositories().games.listGamesByTag(tag, TAG_PAGE_LIMIT),
+    getAllCollections(0, TAG_PAGE_LIMIT, { tag }),
+  ]);
+  return { games, collections };
+};
@@ -8,29 +8,107 @@ export interface User {
   id: string;
   name: string;
   avatarSeed?: string; // For generating consistent avatars
+  authUserId?: string; // Set once the profile is bound to a signed-in account
 }
 
-export interface GameData {
+// Scoring curve a guess is scored with (see services/scoringService.ts)
+export type ScoringCurve = 'street' | 'city' | 'country' | 'world' | 'linear';
+
+export interface ScoringProfile {
+  curve: ScoringCurve;
+  radiusKm?: number; // 'linear' only: distance at which the score reaches 0
+}
+
+// How a challenge's photo may be inspected while guessing (see services/restrictionService.ts)
+export interface ViewRestrictions {
+  noZoom?: boolean;
+  noPan?: boolean; // zoom stays centred
+  maxZoom?: number; // magnification cap; ignored with noZoom
+  blurUntilTap?: boolean; // photo stays blurred until the player taps it
+}
+
+// Label for a game's computed difficulty (see services/difficultyService.ts)
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+// Lat/lng box; west > east means the box crosses the antimeridian
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Narrows which games random play may serve. Every set field must match; empty = whole pool.
+export interface GameFilter {
+  country?: string;
+  province?: string; // within `country`
+  bounds?: GeoBounds; // where the answer lies
+  tag?: string;
+  difficulty?: DifficultyLevel[]; // unrated games are left out once this is set
+  authorId?: string;
+}
+
+// A country / province that has published games, for the region picker
+export interface GameRegion {
+  country: string;
+  province?: string; // unset = games in the country without a known province
+  games: number;
+}
+
+// How often a tag is used, for the tag index and suggestions
+export interface TagCount {
+  tag: string;
+  games: number;
+  collections: number;
+}
+
+// One photo of a challenge, in its stored renditions
+export interface GamePhoto {
+  imageUrl: string;
+  mediumUrl?: string;
+  thumbnailUrl?: string;
+}
+
+// What a player may see before guessing: everything except the answer
+export interface PlayableGame {
   id: string;
-  imageData: string; // Base64
-  location: LatLng;
-  locationName?: string;
+  imageUrl: string; // Full-size image in object storage (legacy rows: Base64 data URL)
+  mediumUrl?: string; // 640px rendition for cards / progressive preview
+  thumbnailUrl?: string; // 320px rendition for list views
   authorId: string;
   authorName: string;
   createdAt: number;
   likes?: number;
+  scoring?: ScoringProfile; // unset = world
+  timeLimitSec?: number; // unset = untimed
+  restrictions?: ViewRestrictions; // unset = free viewing
+  photos?: GamePhoto[]; // every photo in order, the first one repeating the cover above; unset = single photo
+  difficulty?: number; // 0-100 from play data, kept up to date by the backend; unset until enough plays
+  tags?: string[]; // normalized by tagService; unset = untagged
+}
+
+// Revealed only to the author and to players who have a guess recorded for the game
+export interface GameAnswer {
+  location: LatLng;
+  locationName?: string;
+  // Reverse-geocoded at publish time for region filters; never sent back to clients
+  country?: string;
+  province?: string;
 }
 
+export interface GameData extends PlayableGame, GameAnswer {}
+
 export interface Guess {
   id: string;
   gameId: string;
   userId: string;
   userName: string;
   userAvatarSeed?: string;
-  location: LatLng;
-  distance: number; // meters
-  score: number;
+  location: LatLng | null; // null = timed round ran out before a pin was placed
+  distance: number | null; // meters; null when location is null
+  score: number; // includes the time bonus on timed rounds
   timestamp: number;
+  elapsedMs?: number; // server-measured time from round start to guess; breaks score ties
 }
 
 export enum GameMode {
@@ -47,6 +125,13 @@ export enum GameMode {
   MY_COLLECTIONS = 'MY_COLLECTIONS',
   MY_PLAYED_COLLECTIONS = 'MY_PLAYED_COLLECTIONS',
   PLAZA = 'PLAZA',
+  ROOM = 'ROOM', // multiplayer room, #room/<code>
+  DUEL = 'DUEL', // head-to-head duel, #duel/<id>
+  DAILY = 'DAILY', // daily challenge, #daily[/<day>]
+  PROFILE = 'PROFILE', // player profile, #profile[/<userId>]
+  LEADERBOARD = 'LEADERBOARD', // global / weekly player rankings, #leaderboard
+  CREATOR = 'CREATOR', // creator analytics dashboard, #creator
+  TAGS = 'TAGS', // tag index #tags, one tag's page #tag/<tag>
 }
 
 // --- Collection Types ---
@@ -58,6 +143,11 @@ export interface Collection {
   authorName: string;
   createdAt: number;
   itemCount: number;
+  scoring?: ScoringProfile; // overrides each game's own profile inside this collection
+  timeLimitSec?: number; // overrides each game's own limit inside this collection
+  restrictions?: ViewRestrictions; // overrides each game's own restrictions inside this collection
+  isDaily?: boolean; // generated daily challenge set (see services/dailyService.ts); kept out of the plaza
+  tags?: string[];
 }
 
 export interface CollectionAttempt {
@@ -67,6 +157,7 @@ export interface CollectionAttempt {
   userName: string;
   totalScore: number;
   completedAt: number;
+  totalElapsedMs?: number; // sum of per-question elapsedMs; lower wins a score tie
 }
 
 // Stored in localStorage only, never uploaded
@@ -76,10 +167,107 @@ export interface CollectionProgress {
   completedItems: {
     gameId: string;
     score: number;
-    distance: number;
+    distance: number | null;
+    elapsedMs?: number;
   }[];
   isCompleted: boolean;
   totalScore: number;
   startedAt: number;
   completedAt?: number;
 }
+
+// --- Multiplayer Room Types ---
+// A room plays one collection in lockstep. The host's client owns RoomState and broadcasts it
+// (see services/roomService.ts); guesses themselves still go through submitGuess.
+
+export type RoomPhase = 'lobby' | 'question' | 'reveal' | 'finished';
+
+export interface RoomAnswer {
+  userId: string;
+  userName: string;
+  userAvatarSeed?: string;
+  gameId: string;
+  score: number; // as scored by the backend
+  distance: number | null;
+  location: LatLng | null;
+  elapsedMs?: number;
+  hidden?: boolean; // broadcast while the round is open: says who answered, result blanked (see redactRoomState)
+}
+
+export interface RoomState {
+  code: string;
+  hostId: string;
+  version: number; // bumped on every host change; peers keep the highest they have seen
+  phase: RoomPhase;
+  collectionId: string;
+  collectionName: string;
+  gameIds: string[];
+  index: number; // current question
+  timeLimits: (number | null)[]; // per question, the limit the backend applies; null = wait for everyone
+  roundEndsAt?: number; // host clock; peers go by the remainingMs sent alongside the state
+  answers: RoomAnswer[];
+}
+
+
+// --- Duel Types ---
+// Two players take the same challenge (one game or a whole collection) on their own time.
+// Only the pairing is stored; each side's result is their ordinary Guess for every round.
+
+export type DuelKind = 'game' | 'collection';
+
+// open = waiting for an opponent, active = both joined, completed = both have answered every round
+export type DuelStatus = 'open' | 'active' | 'completed';
+
+export interface Duel {
+  id: string;
+  kind: DuelKind;
+  targetId: string; // gameId or collectionId
+  challengerId: string;
+  challengerName: string;
+  opponentId?: string; // set by the first other player who opens the link
+  opponentName?: string;
+  status: DuelStatus;
+  createdAt: number;
+  acceptedAt?: number;
+  completedAt?: number;
+}
+
+// Elo-style matchmaking rating of a player (see services/ratingService.ts)
+export interface SkillRating {
+  rating: number;
+  plays: number; // guesses that have moved the rating
+}
+
+// What a player leaderboard ranks by
+export type LeaderboardMetric = 'total' | 'average' | 'games';
+
+// Plaza order: newest first, most players, best liked questions, lowest average score
+export type CollectionSort = 'newest' | 'popular' | 'rating' | 'hardest';
+
+// One player's row on a global / weekly leaderboard, aggregated from their guesses
+export interface PlayerRanking {
+  rank: number; // 1-based, no shared places (ties fall back to total score, then user id)
+  userId: string;
+  userName: string;
+  avatarSeed?: string;
+  totalScore: number;
+  gamesPlayed: number;
+  averageScore: number; // per guess
+}
+
+// A creator on the most-played ranking; plays are other players' guesses on their games
+export interface CreatorRanking {
+  rank: number;
+  userId: string;
+  userName: string;
+  avatarSeed?: string;
+  plays: number;
+  gamesCount: number; // games that have been played at least once
+}
+
+// One achievement a player has earned; the rules themselves live in achievementService
+export interface UnlockedAchievement {
+  userId: string;
+  achievementId: string;
+  unlockedAt: number;
+}
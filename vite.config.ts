@@ -1,7 +1,89 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin, WebSocketClient } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Local filesystem stand-in for the Supabase Storage bucket (used by the memory backend).
+// PUT /__local_images/<path> writes the body to .local-images/<path>; GET serves it back.
+const localImageStore = (): Plugin => ({
+  name: 'local-image-store',
+  configureServer(server) {
+    const root = path.resolve(__dirname, '.local-images');
+    server.middlewares.use('/__local_images', (req, res) => {
+      const file = path.resolve(root, '.' + decodeURIComponent((req.url || '').split('?')[0]));
+      if (!file.startsWith(root + path.sep)) {
+        res.statusCode = 400;
+        res.end();
+        return;
+      }
+
+      if (req.method === 'PUT') {
+        const chunks: Buffer[] = [];
+        req.on('data', (c) => chunks.push(c));
+        req.on('end', () => {
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, Buffer.concat(chunks));
+          res.statusCode = 201;
+          res.end();
+        });
+        return;
+      }
+
+      if (!fs.existsSync(file)) {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      res.setHeader('Content-Type', 'image/jpeg');
+      fs.createReadStream(file).pipe(res);
+    });
+  },
+});
+
+// Stand-in for Supabase Realtime rooms (memory backend): relays room messages between tabs over
+// Vite's own WebSocket and pushes each room's member list on join / leave / disconnect.
+const ROOM_RELAY_EVENT = 'geo:room';
+
+const localRoomRelay = (): Plugin => ({
+  name: 'local-room-relay',
+  configureServer(server) {
+    const rooms = new Map<string, Map<WebSocketClient, { userId: string }>>(); // code -> client -> member
+
+    const pushMembers = (code: string) => {
+      const room = rooms.get(code);
+      if (!room) return;
+      if (room.size === 0) {
+        rooms.delete(code);
+        return;
+      }
+      const members = Array.from(new Map(Array.from(room.values()).map((m) => [m.userId, m])).values());
+      room.forEach((_, client) => client.send(ROOM_RELAY_EVENT, { type: 'members', code, members }));
+    };
+
+    const leave = (client: WebSocketClient, code: string) => {
+      if (rooms.get(code)?.delete(client)) pushMembers(code);
+    };
+
+    server.ws.on(ROOM_RELAY_EVENT, (data: any, client: WebSocketClient) => {
+      if (data.type === 'join') {
+        const room = rooms.get(data.code) || new Map();
+        rooms.set(data.code, room);
+        if (!room.has(client)) client.socket.once('close', () => leave(client, data.code));
+        room.set(client, data.member);
+        pushMembers(data.code);
+      } else if (data.type === 'send') {
+        rooms.get(data.code)?.forEach((_, peer) => {
+          if (peer !== client) {
+            peer.send(ROOM_RELAY_EVENT, { type: 'message', code: data.code, event: data.event, payload: data.payload });
+          }
+        });
+      } else if (data.type === 'leave') {
+        leave(client, data.code);
+      }
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +91,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), localImageStore(), localRoomRelay()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)